@@ -0,0 +1,11 @@
+import { defineConfig } from "@playwright/test";
+
+/**
+ * Unit tests of the framework itself, run by `npm test`. Generated and login
+ * specs run against live environments, so they stay out of it; the
+ * orchestrator runs them without a config.
+ */
+export default defineConfig({
+  testDir: "tests/unit",
+  testMatch: "**/*.test.ts"
+});
@@ -1,12 +1,21 @@
-import OpenAI from "openai";
 import { CONFIG } from "../config.js";
+import { createExchangeId, recordExchange, systemPromptVersion } from "./auditLog.js";
+import type { AIExchange } from "./auditLog.js";
+import { CassetteError } from "./cassette.js";
+import { createProvider } from "./llmProvider.js";
+import type { CompletionResult, LLMProvider, TokenUsage } from "./llmProvider.js";
+import { ResponseCache } from "./responseCache.js";
+import type { CacheStats } from "./responseCache.js";
+import { usageLedger } from "./usageLedger.js";
+import type { UsageContext } from "./usageLedger.js";
 import { createLogger, format, transports } from "winston";
+import { redactFormat, redactSecrets } from "../utils/redaction.js";
 
 /**
  * Configuration options for the AI client
  */
 interface AIClientConfig {
-  /** OpenAI model to use (default: gpt-4) */
+  /** Model to use (default: AI_MODEL or gpt-3.5-turbo) */
   model?: string;
   /** Temperature for response randomness (default: 0.7) */
   temperature?: number;
@@ -18,6 +27,18 @@ interface AIClientConfig {
   systemPrompt?: string;
   /** Timeout for API calls in ms (default: 30000) */
   timeout?: number;
+  /** Skip the response cache lookup and force a fresh completion (default: AI_CACHE_BYPASS) */
+  bypassCache?: boolean;
+  /** Cancels the request, including pending retries (per request only) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Identifies what an AI request is for, for usage accounting and the audit log
+ */
+export interface AIRequestContext extends UsageContext {
+  /** File the completion will be written to */
+  outputPath?: string;
 }
 
 /**
@@ -27,27 +48,33 @@ interface AIResponse {
   /** Generated content */
   content: string;
   /** Token usage statistics */
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  usage?: TokenUsage;
   /** Generation metadata */
   metadata: {
     /** Generation timestamp */
     timestamp: string;
     /** Model used */
     model: string;
+    /** Provider that served the request */
+    provider: string;
     /** Time taken in ms */
     duration: number;
     /** Number of retries needed */
     retries: number;
+    /** Audit log entry of this exchange */
+    exchangeId: string;
+    /** Response cache outcome and process-wide counters */
+    cache: CacheStats & {
+      /** Whether this response was served from the cache */
+      hit: boolean;
+    };
   };
 }
 
 // Configure logger
 const logger = createLogger({
   format: format.combine(
+    redactFormat(),
     format.timestamp(),
     format.json()
   ),
@@ -58,6 +85,39 @@ const logger = createLogger({
   ]
 });
 
+// Shared across clients so hit/miss counters cover the whole process
+let sharedCache: ResponseCache | undefined;
+
+function getSharedCache(): ResponseCache | undefined {
+  if (!CONFIG.AI_CACHE_ENABLED) {
+    return undefined;
+  }
+  sharedCache ??= new ResponseCache(CONFIG.AI_CACHE_DIR, CONFIG.AI_CACHE_TTL * 1000);
+  return sharedCache;
+}
+
+// Shared across clients so a scripted mock or a cassette keeps its place between requests
+let sharedProvider: LLMProvider | undefined;
+
+function getSharedProvider(): LLMProvider {
+  sharedProvider ??= createProvider();
+  return sharedProvider;
+}
+
+/**
+ * Returns process-wide response cache counters
+ */
+export function getCacheStats(): CacheStats {
+  return sharedCache?.getStats() ?? { hits: 0, misses: 0 };
+}
+
+/**
+ * Returns the model used when none is requested: AI_MODEL or gpt-3.5-turbo
+ */
+export function defaultModel(): string {
+  return CONFIG.AI_MODEL || "gpt-3.5-turbo";
+}
+
 /**
  * Custom error for AI-related failures
  */
@@ -69,37 +129,43 @@ export class AIError extends Error {
 }
 
 /**
- * AIClient class for interacting with OpenAI's API
+ * AIClient class for interacting with the configured LLM provider
  */
 export class AIClient {
-  private readonly openai: OpenAI;
-  private readonly config: Required<AIClientConfig>;
+  private readonly provider: LLMProvider;
+  private readonly config: Required<Omit<AIClientConfig, "signal">>;
 
   /**
    * Creates a new AIClient instance
-   * @param apiKey OpenAI API key
+   * @param provider LLM provider (default: the process-wide one selected by AI_PROVIDER)
    * @param config Optional configuration overrides
-   * @throws {AIError} If API key is missing or invalid
+   * @throws {AIError} If the provider cannot be created
    */
   constructor(
-    apiKey: string = CONFIG.OPENAI_API_KEY,
+    provider?: LLMProvider,
     config: AIClientConfig = {}
   ) {
-    if (!apiKey?.trim()) {
-      throw new AIError("OpenAI API key is required");
+    try {
+      this.provider = provider ?? getSharedProvider();
+    } catch (error) {
+      throw new AIError(
+        "Failed to create AI provider",
+        error instanceof Error ? error.message : String(error)
+      );
     }
 
-    this.openai = new OpenAI({ apiKey });
     this.config = {
-      model: config.model || "gpt-3.5-turbo",
+      model: config.model || defaultModel(),
       temperature: config.temperature ?? 0.7,
       maxRetries: config.maxRetries ?? 3,
       retryDelay: config.retryDelay ?? 1000,
       systemPrompt: config.systemPrompt ?? this.getDefaultSystemPrompt(),
-      timeout: config.timeout ?? 30000
+      timeout: config.timeout ?? 30000,
+      bypassCache: config.bypassCache ?? CONFIG.AI_CACHE_BYPASS
     };
 
     logger.info("AIClient initialized", {
+      provider: this.provider.name,
       model: this.config.model,
       temperature: this.config.temperature
     });
@@ -142,68 +208,118 @@ Performance:
    * Send a prompt to the AI and get a response with retries
    * @param prompt The user's prompt
    * @param config Optional per-request configuration
+   * @param context Run/scenario/attempt and output file the request belongs to
    * @returns Promise with the AI's response
    * @throws {AIError} If API call fails after all retries
    */
-  async ask(prompt: string, config: Partial<AIClientConfig> = {}): Promise<AIResponse> {
+  async ask(
+    prompt: string,
+    config: Partial<AIClientConfig> = {},
+    context: AIRequestContext = {}
+  ): Promise<AIResponse> {
     const startTime = Date.now();
+    const exchangeId = createExchangeId();
+    // Prompts can quote error output or expanded placeholders; secrets never leave the process
+    const userPrompt = redactSecrets(prompt ?? "");
+    const { signal, ...requestConfig } = config;
+    const effectiveConfig = { ...this.config, ...requestConfig };
     let retryCount = 0;
 
+    const audit = (outcome: Pick<AIExchange, "completion" | "usage" | "cached" | "error">): Promise<void> =>
+      this.audit({
+        id: exchangeId,
+        timestamp: new Date().toISOString(),
+        runId: context.runId,
+        scenario: context.scenario,
+        attempt: context.attempt,
+        provider: this.provider.name,
+        model: effectiveConfig.model,
+        systemPromptVersion: systemPromptVersion(effectiveConfig.systemPrompt),
+        prompt: userPrompt,
+        latencyMs: Date.now() - startTime,
+        outputPath: context.outputPath,
+        ...outcome
+      });
+
     try {
-      if (!prompt?.trim()) {
+      if (!userPrompt.trim()) {
         throw new AIError("Prompt cannot be empty");
       }
+      throwIfAborted(signal);
 
-      const effectiveConfig = { ...this.config, ...config };
       let lastError: Error | null = null;
 
-      for (let attempt = 1; attempt <= effectiveConfig.maxRetries; attempt++) {
+      const cache = getSharedCache();
+      const cacheInput = {
+        prompt: userPrompt,
+        systemPrompt: effectiveConfig.systemPrompt,
+        model: effectiveConfig.model,
+        temperature: effectiveConfig.temperature
+      };
+      const cacheKey = ResponseCache.key(cacheInput);
+
+      if (cache && effectiveConfig.bypassCache) {
+        cache.recordBypass();
+      } else if (cache) {
+        const cached = await cache.get(cacheKey);
+        if (cached !== undefined) {
+          logger.info("AI response served from cache", {
+            model: effectiveConfig.model,
+            key: cacheKey.slice(0, 12)
+          });
+          await audit({ completion: cached, cached: true });
+          return {
+            content: cached,
+            metadata: {
+              timestamp: new Date().toISOString(),
+              model: effectiveConfig.model,
+              provider: this.provider.name,
+              duration: Date.now() - startTime,
+              retries: 0,
+              exchangeId,
+              cache: { hit: true, ...cache.getStats() }
+            }
+          };
+        }
+      }
+
+      let completion: CompletionResult | undefined;
+      for (let attempt = 1; attempt <= effectiveConfig.maxRetries && !completion; attempt++) {
+        // Aborted on timeout or cancellation, so the provider stops the HTTP request too
+        const attemptController = new AbortController();
+        const timer = setTimeout(() => attemptController.abort(new AIError("Request timeout")), effectiveConfig.timeout);
+        const cancel = (): void => attemptController.abort(signal?.reason);
+        signal?.addEventListener("abort", cancel, { once: true });
         try {
-          const completion = await Promise.race([
-            this.openai.chat.completions.create({
+          const result = await abortable(
+            this.provider.complete({
               model: effectiveConfig.model,
               messages: [
                 {
                   role: "system",
                   content: effectiveConfig.systemPrompt
                 },
-                { role: "user", content: prompt }
+                { role: "user", content: userPrompt }
               ],
               temperature: effectiveConfig.temperature,
-              max_tokens: 2000,
-              presence_penalty: 0.1,
-              frequency_penalty: 0.1
+              maxTokens: 2000,
+              presencePenalty: 0.1,
+              frequencyPenalty: 0.1,
+              signal: attemptController.signal
             }),
-            new Promise((_, reject) => setTimeout(() => reject(new AIError("Request timeout")), effectiveConfig.timeout))
-          ]) as OpenAI.Chat.ChatCompletion;
+            attemptController.signal
+          );
 
-          const content = completion.choices[0]?.message?.content;
-          if (!content?.trim()) {
-            throw new AIError("Empty response from OpenAI");
+          if (!result.content?.trim()) {
+            throw new AIError(`Empty response from ${this.provider.name}`);
           }
-
-          const duration = Date.now() - startTime;
-          logger.info("AI response generated", {
-            duration,
-            model: effectiveConfig.model,
-            tokens: completion.usage?.total_tokens
-          });
-
-          return {
-            content,
-            usage: completion.usage ? {
-              promptTokens: completion.usage.prompt_tokens,
-              completionTokens: completion.usage.completion_tokens,
-              totalTokens: completion.usage.total_tokens
-            } : undefined,
-            metadata: {
-              timestamp: new Date().toISOString(),
-              model: effectiveConfig.model,
-              duration,
-              retries: retryCount
-            }
-          };
+          completion = result;
         } catch (error) {
+          // A missing cassette entry will not appear on retry, and a cancelled request must not be retried
+          if (error instanceof CassetteError) {
+            throw error;
+          }
+          throwIfAborted(signal);
           retryCount++;
           lastError = error instanceof Error ? error : new Error(String(error));
           logger.warn(`Attempt ${attempt} failed`, {
@@ -214,16 +330,56 @@ Performance:
 
           if (attempt < effectiveConfig.maxRetries) {
             const delay = effectiveConfig.retryDelay * Math.pow(2, attempt - 1);
-            await this.sleep(delay); // Exponential backoff
-            continue;
+            await this.sleep(delay, signal); // Exponential backoff
           }
+        } finally {
+          clearTimeout(timer);
+          signal?.removeEventListener("abort", cancel);
         }
       }
 
-      throw new AIError(
-        `Failed after ${effectiveConfig.maxRetries} attempts`,
-        lastError?.message
-      );
+      if (!completion) {
+        throw new AIError(
+          `Failed after ${effectiveConfig.maxRetries} attempts`,
+          lastError?.message
+        );
+      }
+
+      // Outside the retry loop, so bookkeeping never requests the completion again
+      const content = completion.content;
+      const duration = Date.now() - startTime;
+      logger.info("AI response generated", {
+        duration,
+        provider: this.provider.name,
+        model: effectiveConfig.model,
+        tokens: completion.usage?.totalTokens
+      });
+
+      try {
+        await cache?.set(cacheKey, cacheInput, content);
+      } catch (error) {
+        logger.warn("Failed to cache AI response", {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+      if (completion.usage) {
+        usageLedger.record(effectiveConfig.model, completion.usage, context);
+      }
+      await audit({ completion: content, usage: completion.usage, cached: false });
+
+      return {
+        content,
+        usage: completion.usage,
+        metadata: {
+          timestamp: new Date().toISOString(),
+          model: effectiveConfig.model,
+          provider: this.provider.name,
+          duration,
+          retries: retryCount,
+          exchangeId,
+          cache: { hit: false, ...getCacheStats() }
+        }
+      };
     } catch (error) {
       const finalError = error instanceof Error ? error : new Error(String(error));
       logger.error("AI request failed", {
@@ -231,6 +387,7 @@ Performance:
         duration: Date.now() - startTime,
         retries: retryCount
       });
+      await audit({ cached: false, error: finalError.message });
       throw new AIError(finalError.message, {
         duration: Date.now() - startTime,
         retries: retryCount
@@ -238,20 +395,71 @@ Performance:
     }
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  /**
+   * Writes an exchange to the audit log; a failing audit write never fails the request
+   */
+  private async audit(exchange: AIExchange): Promise<void> {
+    try {
+      await recordExchange(exchange);
+    } catch (error) {
+      logger.warn("Failed to write AI audit log entry", {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return abortable(new Promise<void>(resolve => setTimeout(resolve, ms)), signal)
+      .catch(() => throwIfAborted(signal));
   }
 }
 
+/**
+ * Throws an AIError if the request was cancelled
+ */
+function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new AIError("Request aborted", signal.reason instanceof Error ? signal.reason.message : signal.reason);
+  }
+}
+
+/**
+ * Rejects as soon as the signal fires, even if the promise never settles
+ */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = (): void => reject(signal.reason);
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
 /**
  * Simplified function for generating AI responses
  * @param prompt The prompt to send to the AI
  * @param temperature Optional temperature override
+ * @param config Optional per-request configuration
+ * @param context Run/scenario/attempt and output file the request belongs to
  * @returns Promise with the generated content
  */
-export const askAI = async (prompt: string, temperature?: number): Promise<string> => {
+export const askAI = async (
+  prompt: string,
+  temperature?: number,
+  config: Partial<AIClientConfig> = {},
+  context: AIRequestContext = {}
+): Promise<string> => {
   const client = new AIClient();
-  const config = temperature !== undefined ? { temperature } : {};
-  const response = await client.ask(prompt, config);
+  const response = await client.ask(
+    prompt,
+    temperature !== undefined ? { ...config, temperature } : config,
+    context
+  );
   return response.content;
 };
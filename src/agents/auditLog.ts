@@ -0,0 +1,102 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { CONFIG } from "../config.js";
+import type { TokenUsage } from "./llmProvider.js";
+import { sha256 } from "./responseCache.js";
+import { redactValue } from "../utils/redaction.js";
+
+/**
+ * One AI request/response exchange as recorded in the audit log
+ */
+export interface AIExchange {
+  /** Unique exchange identifier */
+  id: string;
+  /** When the exchange completed */
+  timestamp: string;
+  /** Orchestrator run identifier */
+  runId?: string;
+  /** Scenario tag */
+  scenario?: string;
+  /** Attempt number within the scenario */
+  attempt?: number;
+  /** Provider that served the request */
+  provider: string;
+  /** Model used */
+  model: string;
+  /** Short hash identifying the system prompt version */
+  systemPromptVersion: string;
+  /** User prompt (secrets masked) */
+  prompt: string;
+  /** Raw completion (secrets masked); absent when the request failed */
+  completion?: string;
+  /** Token usage statistics */
+  usage?: TokenUsage;
+  /** Time taken in ms, including retries */
+  latencyMs: number;
+  /** Whether the completion was served from the response cache */
+  cached: boolean;
+  /** File the completion was written to */
+  outputPath?: string;
+  /** Failure message when the request failed */
+  error?: string;
+}
+
+/**
+ * Filter for querying the audit log
+ */
+export interface ExchangeFilter {
+  /** Only exchanges from this run */
+  runId?: string;
+  /** Only exchanges for this scenario tag */
+  scenario?: string;
+}
+
+/**
+ * Returns the short version hash of a system prompt
+ */
+export function systemPromptVersion(systemPrompt: string): string {
+  return sha256(systemPrompt).slice(0, 12);
+}
+
+/**
+ * Creates a new exchange identifier
+ */
+export function createExchangeId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Appends an exchange to the audit log, masking secrets first
+ */
+export async function recordExchange(exchange: AIExchange, logPath: string = CONFIG.AI_AUDIT_LOG): Promise<void> {
+  await fs.promises.mkdir(path.dirname(path.resolve(logPath)), { recursive: true });
+  await fs.promises.appendFile(logPath, JSON.stringify(redactValue(exchange)) + "\n", "utf-8");
+}
+
+/**
+ * Reads exchanges from the audit log
+ * @param filter Run and/or scenario to select
+ * @param logPath Audit log location (default: AI_AUDIT_LOG)
+ * @returns Matching exchanges in chronological order
+ */
+export async function queryExchanges(
+  filter: ExchangeFilter = {},
+  logPath: string = CONFIG.AI_AUDIT_LOG
+): Promise<AIExchange[]> {
+  let raw: string;
+  try {
+    raw = await fs.promises.readFile(logPath, "utf-8");
+  } catch {
+    return [];
+  }
+
+  return raw
+    .split("\n")
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line) as AIExchange)
+    .filter(exchange =>
+      (filter.runId === undefined || exchange.runId === filter.runId) &&
+      (filter.scenario === undefined || exchange.scenario === filter.scenario)
+    );
+}
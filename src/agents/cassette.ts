@@ -0,0 +1,135 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type { CompletionRequest, CompletionResult, LLMProvider } from "./llmProvider.js";
+import { redactValue } from "../utils/redaction.js";
+
+/**
+ * Cassette modes:
+ * - record: call the real provider and store every completion
+ * - replay: serve completions from disk only, never touch the network
+ * - passthrough: call the real provider, store nothing
+ */
+export type CassetteMode = "record" | "replay" | "passthrough";
+
+/**
+ * A recorded request/completion pair as stored on disk
+ */
+interface CassetteEntry {
+  /** Request fingerprint (also the file name) */
+  fingerprint: string;
+  /** When the entry was recorded */
+  recordedAt: string;
+  /** Provider that produced the completion */
+  provider: string;
+  /** The request that was sent */
+  request: CompletionRequest;
+  /** The completion that came back */
+  response: CompletionResult;
+}
+
+/**
+ * Custom error for cassette failures (missing or corrupt entries)
+ */
+export class CassetteError extends Error {
+  constructor(message: string, public readonly details?: unknown) {
+    super(message);
+    this.name = "CassetteError";
+  }
+}
+
+/**
+ * Computes a stable fingerprint for a completion request.
+ * Every field that influences the completion is part of the hash.
+ */
+export function fingerprintRequest(request: CompletionRequest): string {
+  const canonical = JSON.stringify({
+    model: request.model,
+    messages: request.messages.map(m => [m.role, m.content]),
+    temperature: request.temperature,
+    maxTokens: request.maxTokens,
+    presencePenalty: request.presencePenalty ?? null,
+    frequencyPenalty: request.frequencyPenalty ?? null
+  });
+  return crypto.createHash("sha256").update(canonical).digest("hex");
+}
+
+/**
+ * Provider decorator that records completions to, or replays them from,
+ * a directory of content-addressed JSON files
+ */
+export class CassetteProvider implements LLMProvider {
+  readonly name: string;
+
+  /**
+   * Creates a new CassetteProvider
+   * @param inner Real provider (may be omitted in replay mode)
+   * @param mode Cassette mode
+   * @param directory Directory holding the cassette entries
+   * @throws {CassetteError} If a real provider is required but missing
+   */
+  constructor(
+    private readonly inner: LLMProvider | undefined,
+    private readonly mode: CassetteMode,
+    private readonly directory: string
+  ) {
+    if (mode !== "replay" && !inner) {
+      throw new CassetteError(`Cassette mode '${mode}' requires a real provider`);
+    }
+    this.name = inner ? `${inner.name}+cassette(${mode})` : `cassette(${mode})`;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const fingerprint = fingerprintRequest(request);
+    const entryPath = path.join(this.directory, `${fingerprint}.json`);
+
+    if (this.mode === "replay") {
+      return this.replay(entryPath, fingerprint, request);
+    }
+
+    const response = await this.inner!.complete(request);
+
+    if (this.mode === "record") {
+      // The abort signal belongs to this call, not to the recording
+      const { signal, ...recorded } = request;
+      const entry: CassetteEntry = {
+        fingerprint,
+        recordedAt: new Date().toISOString(),
+        provider: this.inner!.name,
+        request: redactValue(recorded),
+        response
+      };
+      await fs.promises.mkdir(this.directory, { recursive: true });
+      await fs.promises.writeFile(entryPath, JSON.stringify(entry, null, 2) + "\n", "utf-8");
+    }
+
+    return response;
+  }
+
+  private async replay(
+    entryPath: string,
+    fingerprint: string,
+    request: CompletionRequest
+  ): Promise<CompletionResult> {
+    let raw: string;
+    try {
+      raw = await fs.promises.readFile(entryPath, "utf-8");
+    } catch {
+      throw new CassetteError(
+        `No recorded completion for request ${fingerprint.slice(0, 12)} (model ${request.model}) in ${this.directory}. ` +
+        "Re-run with AI_CASSETTE_MODE=record to capture it.",
+        { fingerprint, entryPath }
+      );
+    }
+
+    try {
+      const entry = JSON.parse(raw) as CassetteEntry;
+      return entry.response;
+    } catch (error) {
+      throw new CassetteError(
+        `Corrupt cassette entry: ${entryPath}`,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+}
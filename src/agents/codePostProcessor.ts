@@ -0,0 +1,218 @@
+import ts from "typescript";
+import prettier from "prettier";
+
+/**
+ * Code extracted from a model completion
+ */
+export interface ExtractedCode {
+  /** The code, fences and prose removed */
+  code: string;
+  /** Descriptions of what was stripped */
+  stripped: string[];
+}
+
+/**
+ * Code with its imports merged and pruned
+ */
+export interface NormalizedImports {
+  /** The code with one import declaration per module */
+  code: string;
+  /** Descriptions of duplicate and unused imports that were removed */
+  removed: string[];
+}
+
+// Languages of fenced blocks that hold spec code; other blocks (bash, json, ...) are dropped
+const CODE_LANGUAGES = ["", "ts", "typescript", "tsx", "js", "javascript"];
+const FENCE = /^```([\w-]*)[^\n]*\n([\s\S]*?)^```[ \t]*$/gm;
+
+/**
+ * Extracts the code from a completion. With fenced blocks, every TypeScript or
+ * JavaScript block is kept (in order) and the prose around them is dropped;
+ * without fences the text is kept, minus stray fence lines.
+ */
+export function extractCode(completion: string): ExtractedCode {
+  const stripped: string[] = [];
+  const blocks: string[] = [];
+  const outside: string[] = [];
+  let last = 0;
+
+  for (const match of completion.matchAll(FENCE)) {
+    outside.push(completion.slice(last, match.index));
+    last = match.index + match[0].length;
+    const language = (match[1] ?? "").toLowerCase();
+    if (CODE_LANGUAGES.includes(language)) {
+      blocks.push((match[2] ?? "").trimEnd());
+    } else {
+      stripped.push(`Dropped a non-code \`${language}\` block`);
+    }
+  }
+  outside.push(completion.slice(last));
+
+  if (blocks.length === 0 && stripped.length === 0) {
+    const lines = completion.split("\n");
+    const kept = lines.filter(line => !/^\s*```/.test(line));
+    if (kept.length < lines.length) {
+      stripped.push(`Removed ${lines.length - kept.length} unmatched code fence line(s)`);
+    }
+    return { code: kept.join("\n").trim() + "\n", stripped };
+  }
+
+  const proseLines = outside.join("\n").split("\n").filter(line => line.trim()).length;
+  if (proseLines > 0) {
+    stripped.push(`Removed ${proseLines} line(s) of prose outside code blocks`);
+  }
+  if (blocks.length > 1) {
+    stripped.push(`Merged ${blocks.length} code blocks`);
+  }
+  return { code: blocks.join("\n\n").trim() + "\n", stripped };
+}
+
+/**
+ * One module's merged import clause
+ */
+interface MergedImport {
+  specifier: string;
+  sideEffect: boolean;
+  defaultName?: string;
+  namespaceName?: string;
+  /** Local name -> rendered specifier ("a", "a as b", "type T") */
+  named: Map<string, string>;
+}
+
+/**
+ * Merges all import declarations into one per module, removes duplicates and
+ * imports that are never referenced, and moves them to the top of the file
+ * @param code TypeScript source
+ * @param fileName Name used for parsing
+ */
+export function normalizeImports(code: string, fileName: string): NormalizedImports {
+  const sourceFile = ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  const removed: string[] = [];
+  const merged = new Map<string, MergedImport>();
+  const localNames = new Map<string, string>();
+  const imports = sourceFile.statements.filter(ts.isImportDeclaration);
+  if (imports.length === 0) {
+    return { code, removed };
+  }
+
+  const used = referencedNames(sourceFile);
+  const claim = (name: string, specifier: string): boolean => {
+    const owner = localNames.get(name);
+    if (owner === undefined) {
+      if (!used.has(name)) {
+        removed.push(`Removed unused import '${name}' from '${specifier}'`);
+        return false;
+      }
+      localNames.set(name, specifier);
+      return true;
+    }
+    removed.push(owner === specifier
+      ? `Removed duplicate import '${name}' from '${specifier}'`
+      : `Removed import '${name}' from '${specifier}' (already imported from '${owner}')`);
+    return false;
+  };
+
+  for (const declaration of imports) {
+    if (!ts.isStringLiteral(declaration.moduleSpecifier)) {
+      continue;
+    }
+    const specifier = declaration.moduleSpecifier.text;
+    const entry = merged.get(specifier) ?? { specifier, sideEffect: false, named: new Map<string, string>() };
+    merged.set(specifier, entry);
+
+    const clause = declaration.importClause;
+    if (!clause) {
+      if (entry.sideEffect) {
+        removed.push(`Removed duplicate import of '${specifier}'`);
+      }
+      entry.sideEffect = true;
+      continue;
+    }
+    const typeOnly = clause.isTypeOnly;
+    if (clause.name && claim(clause.name.text, specifier)) {
+      entry.defaultName = clause.name.text;
+    }
+    const bindings = clause.namedBindings;
+    if (bindings && ts.isNamespaceImport(bindings) && claim(bindings.name.text, specifier)) {
+      entry.namespaceName = bindings.name.text;
+    } else if (bindings && ts.isNamedImports(bindings)) {
+      for (const element of bindings.elements) {
+        const local = element.name.text;
+        if (claim(local, specifier)) {
+          const imported = element.propertyName ? `${element.propertyName.text} as ${local}` : local;
+          entry.named.set(local, `${typeOnly || element.isTypeOnly ? "type " : ""}${imported}`);
+        }
+      }
+    }
+  }
+
+  // Cut the original declarations out, back to front so positions stay valid
+  let body = code;
+  for (const declaration of [...imports].reverse()) {
+    body = body.slice(0, declaration.getStart(sourceFile)) + body.slice(declaration.getEnd());
+  }
+
+  const header = [...merged.values()]
+    .map(renderImport)
+    .filter((line): line is string => line !== undefined);
+  return {
+    code: [...header, "", body.replace(/^\s*\n/, "").trimEnd(), ""].join("\n"),
+    removed: [...new Set(removed)]
+  };
+}
+
+/**
+ * Renders a merged import, or undefined if nothing of it is used
+ */
+function renderImport(entry: MergedImport): string | undefined {
+  const from = `'${entry.specifier}'`;
+  const clauses: string[] = [];
+  if (entry.defaultName) {
+    clauses.push(entry.defaultName);
+  }
+  if (entry.namespaceName) {
+    clauses.push(`* as ${entry.namespaceName}`);
+  }
+  if (entry.named.size > 0) {
+    clauses.push(`{ ${[...entry.named.values()].join(", ")} }`);
+  }
+
+  if (clauses.length === 0) {
+    return entry.sideEffect ? `import ${from};` : undefined;
+  }
+  // A namespace import cannot share a declaration with named imports
+  if (entry.namespaceName && entry.named.size > 0) {
+    const namespace = `import ${entry.defaultName ? `${entry.defaultName}, ` : ""}* as ${entry.namespaceName} from ${from};`;
+    return `${namespace}\nimport { ${[...entry.named.values()].join(", ")} } from ${from};`;
+  }
+  return `import ${clauses.join(", ")} from ${from};`;
+}
+
+/**
+ * Collects every identifier outside import declarations, including type
+ * references. Scope is ignored, so a shadowed name counts as used.
+ */
+function referencedNames(sourceFile: ts.SourceFile): Set<string> {
+  const names = new Set<string>();
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node)) {
+      return;
+    }
+    if (ts.isIdentifier(node)) {
+      names.add(node.text);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return names;
+}
+
+/**
+ * Formats code with Prettier, using the project's Prettier configuration
+ * resolved for the target file
+ * @throws {Error} If Prettier cannot parse the code
+ */
+export async function formatWithPrettier(code: string, filePath: string): Promise<string> {
+  const config = await prettier.resolveConfig(filePath);
+  return prettier.format(code, { ...config, filepath: filePath });
+}
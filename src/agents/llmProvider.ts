@@ -0,0 +1,238 @@
+import fs from "fs";
+import OpenAI from "openai";
+import { CONFIG } from "../config.js";
+import { CassetteProvider } from "./cassette.js";
+
+/**
+ * A single chat message exchanged with a model
+ */
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Token usage statistics reported by a provider
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Provider-neutral completion request
+ */
+export interface CompletionRequest {
+  /** Model identifier understood by the provider */
+  model: string;
+  /** Conversation to complete */
+  messages: ChatMessage[];
+  /** Temperature for response randomness */
+  temperature: number;
+  /** Maximum tokens to generate */
+  maxTokens: number;
+  /** Presence penalty (ignored by providers that do not support it) */
+  presencePenalty?: number;
+  /** Frequency penalty (ignored by providers that do not support it) */
+  frequencyPenalty?: number;
+  /** Cancels the request; the provider rejects once it fires */
+  signal?: AbortSignal;
+}
+
+/**
+ * Provider-neutral completion result
+ */
+export interface CompletionResult {
+  /** Generated content */
+  content: string;
+  /** Token usage statistics, when the provider reports them */
+  usage?: TokenUsage;
+}
+
+/**
+ * Contract every LLM backend implements
+ */
+export interface LLMProvider {
+  /** Short provider name used in logs */
+  readonly name: string;
+  /**
+   * Completes a chat conversation
+   * @throws {ProviderError} If the backend call fails
+   */
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+/**
+ * Custom error for provider failures
+ */
+export class ProviderError extends Error {
+  constructor(message: string, public readonly details?: unknown) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+/**
+ * Provider backed by the official OpenAI API
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string = "openai";
+  protected readonly openai: OpenAI;
+
+  /**
+   * Creates a new OpenAIProvider
+   * @param apiKey OpenAI API key
+   * @param baseURL Optional API base URL override
+   * @throws {ProviderError} If API key is missing
+   */
+  constructor(apiKey: string, baseURL?: string) {
+    if (!apiKey?.trim()) {
+      throw new ProviderError("OpenAI API key is required");
+    }
+    this.openai = new OpenAI({ apiKey, ...(baseURL ? { baseURL } : {}) });
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const completion = await this.openai.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.presencePenalty !== undefined ? { presence_penalty: request.presencePenalty } : {}),
+      ...(request.frequencyPenalty !== undefined ? { frequency_penalty: request.frequencyPenalty } : {})
+    }, request.signal ? { signal: request.signal } : undefined);
+
+    return {
+      content: completion.choices[0]?.message?.content ?? "",
+      usage: completion.usage ? {
+        promptTokens: completion.usage.prompt_tokens,
+        completionTokens: completion.usage.completion_tokens,
+        totalTokens: completion.usage.total_tokens
+      } : undefined
+    };
+  }
+}
+
+/**
+ * Provider for any server exposing the OpenAI chat completions API
+ * (llama.cpp, vLLM, Ollama, LM Studio, ...)
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  override readonly name: string = "openai-compatible";
+
+  /**
+   * Creates a new OpenAICompatibleProvider
+   * @param baseURL Base URL of the server, e.g. http://localhost:8080/v1
+   * @param apiKey API key, if the server requires one
+   * @throws {ProviderError} If base URL is missing
+   */
+  constructor(baseURL: string, apiKey?: string) {
+    if (!baseURL?.trim()) {
+      throw new ProviderError("Base URL is required for an OpenAI-compatible provider");
+    }
+    // The SDK refuses to start without a key; local servers usually ignore it
+    super(apiKey?.trim() || "not-needed", baseURL);
+  }
+}
+
+/**
+ * A canned mock response: either returned in order, or whenever the
+ * user message matches the given regular expression
+ */
+export type MockResponse = string | { match: string; response: string };
+
+/**
+ * Deterministic provider that replays scripted completions, for tests and
+ * air-gapped CI
+ */
+export class MockProvider implements LLMProvider {
+  readonly name: string = "mock";
+  private readonly queue: string[];
+  private readonly rules: { match: RegExp; response: string }[];
+
+  /**
+   * Creates a new MockProvider
+   * @param script Canned responses; plain strings are consumed in order,
+   * rules are checked first and never consumed
+   */
+  constructor(script: MockResponse[] = []) {
+    this.queue = script.filter((entry): entry is string => typeof entry === "string");
+    this.rules = script
+      .filter((entry): entry is { match: string; response: string } => typeof entry !== "string")
+      .map(entry => ({ match: new RegExp(entry.match, "i"), response: entry.response }));
+  }
+
+  /**
+   * Loads a mock script from a JSON file containing an array of responses
+   * @throws {ProviderError} If the file cannot be read or is malformed
+   */
+  static fromFile(filePath: string): MockProvider {
+    try {
+      const script: unknown = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+      if (!Array.isArray(script)) {
+        throw new Error("Mock script must be a JSON array");
+      }
+      return new MockProvider(script as MockResponse[]);
+    } catch (error) {
+      throw new ProviderError(
+        `Failed to load mock responses from ${filePath}`,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    request.signal?.throwIfAborted();
+    const userMessage = request.messages.filter(m => m.role === "user").map(m => m.content).join("\n");
+    const rule = this.rules.find(r => r.match.test(userMessage));
+    const content = rule?.response ?? this.queue.shift();
+
+    if (content === undefined) {
+      throw new ProviderError("Mock provider has no response left for this request", {
+        prompt: userMessage.slice(0, 200)
+      });
+    }
+
+    const promptTokens = estimateTokens(request.messages.map(m => m.content).join("\n"));
+    const completionTokens = estimateTokens(content);
+    return {
+      content,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+    };
+  }
+}
+
+/**
+ * Rough token estimate (~4 characters per token)
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Creates the provider selected by configuration (AI_PROVIDER), wrapped in a
+ * cassette unless AI_CASSETTE_MODE is passthrough
+ * @throws {ProviderError} If the selected provider is misconfigured
+ */
+export function createProvider(): LLMProvider {
+  if (CONFIG.AI_CASSETTE_MODE === "passthrough") {
+    return createBaseProvider();
+  }
+  // Replay never reaches the network, so no real provider is needed
+  const inner = CONFIG.AI_CASSETTE_MODE === "replay" ? undefined : createBaseProvider();
+  return new CassetteProvider(inner, CONFIG.AI_CASSETTE_MODE, CONFIG.AI_CASSETTE_DIR);
+}
+
+function createBaseProvider(): LLMProvider {
+  switch (CONFIG.AI_PROVIDER) {
+    case "openai":
+      return new OpenAIProvider(CONFIG.OPENAI_API_KEY);
+    case "openai-compatible":
+      return new OpenAICompatibleProvider(CONFIG.AI_BASE_URL, CONFIG.OPENAI_API_KEY);
+    case "mock":
+      return CONFIG.AI_MOCK_RESPONSES
+        ? MockProvider.fromFile(CONFIG.AI_MOCK_RESPONSES)
+        : new MockProvider();
+  }
+}
@@ -1,6 +1,10 @@
 import fs from "fs";
 import path from "path";
-import { OpenAI } from "openai";
+import { CONFIG } from "../config.js";
+import { workspace } from "../utils/workspace.js";
+import { AIClient } from "./aiClient.js";
+import type { AIRequestContext } from "./aiClient.js";
+import type { LLMProvider } from "./llmProvider.js";
 
 /**
  * Custom error class for POM generation failures
@@ -46,8 +50,8 @@ Output ONLY TypeScript code without any additional commentary.
 `;
 
 const DEFAULTS = {
-  model: "gpt-4",
-  outputDir: path.join(process.cwd(), "src", "pom"),
+  model: CONFIG.AI_MODEL || "gpt-4",
+  outputDir: workspace.pomDir,
   temperature: 0.7
 } as const;
 
@@ -55,17 +59,17 @@ const DEFAULTS = {
  * POMGenerator class for creating Page Object Model files
  */
 export class POMGenerator {
-  private readonly openai: OpenAI;
+  private readonly client: AIClient;
 
   /**
    * Creates a new POMGenerator instance
-   * @param apiKey OpenAI API key
+   * @param provider LLM provider (default: the one selected by AI_PROVIDER)
    * @param options Optional configuration options
    */
   constructor(
-    apiKey: string,
+    provider?: LLMProvider,
     private readonly options: {
-      /** Output directory for generated POMs (default: src/pom) */
+      /** Output directory for generated POMs (default: the workspace POM directory) */
       outputDir?: string;
       /** Model to use for generation (default: gpt-4) */
       model?: string;
@@ -73,10 +77,18 @@ export class POMGenerator {
       temperature?: number;
     } = {}
   ) {
-    if (!apiKey) {
-      throw new POMGenerationError("OpenAI API key is required");
+    try {
+      this.client = new AIClient(provider, {
+        model: this.options.model || DEFAULTS.model,
+        temperature: this.options.temperature || DEFAULTS.temperature,
+        systemPrompt: SYSTEM_PROMPT_POM
+      });
+    } catch (error) {
+      throw new POMGenerationError(
+        "Failed to initialize AI client",
+        error instanceof Error ? error.message : String(error)
+      );
     }
-    this.openai = new OpenAI({ apiKey });
   }
 
   /**
@@ -87,16 +99,21 @@ export class POMGenerator {
   /**
    * Generates Page Object Model classes from a given prompt
    * @param prompt The scenario description or requirements for the page objects
+   * @param context Run/scenario the AI usage and audit entries belong to
    * @throws {POMGenerationError} If generation, validation, or file operations fail
    * @returns Promise resolving to array of generated POM details
    */
-  async generatePOMs(prompt: string): Promise<GeneratedPOM[]> {
+  async generatePOMs(prompt: string, context: AIRequestContext = {}): Promise<GeneratedPOM[]> {
     if (!prompt?.trim()) {
       throw new POMGenerationError("Prompt cannot be empty");
     }
 
     try {
-      const code = await this.getGeneratedCode(prompt);
+      // Class names are only known after parsing, so the exchange points at the output directory
+      const code = await this.getGeneratedCode(prompt, {
+        ...context,
+        outputPath: this.options.outputDir || DEFAULTS.outputDir
+      });
       const poms = this.parseGeneratedCode(code);
       return await this.writePOMFiles(poms);
     } catch (error) {
@@ -108,34 +125,28 @@ export class POMGenerator {
   }
 
   /**
-   * Generates code using OpenAI API
+   * Generates code using the configured LLM provider
    * @param prompt The user prompt to generate code from
+   * @param context Run/scenario and output location the exchange belongs to
    * @throws {POMGenerationError} If API call fails or returns invalid response
    * @returns Promise resolving to generated code
    */
-  private async getGeneratedCode(prompt: string): Promise<string> {
+  private async getGeneratedCode(prompt: string, context: AIRequestContext): Promise<string> {
     try {
-      const response = await this.openai.chat.completions.create({
-        model: this.options.model || DEFAULTS.model,
-        messages: [
-          { role: "system", content: SYSTEM_PROMPT_POM },
-          { role: "user", content: prompt }
-        ],
-        max_tokens: 2000,
-        temperature: this.options.temperature || DEFAULTS.temperature,
-        presence_penalty: 0.1, // Encourage some variation
-        frequency_penalty: 0.1, // Discourage repetition
-      });
+      const response = await this.client.ask(prompt, {}, context);
 
-      const code = response.choices[0]?.message?.content;
+      const code = response.content;
       if (!code?.trim()) {
-        throw new POMGenerationError("No code generated from OpenAI");
+        throw new POMGenerationError("No code generated by the AI provider");
       }
 
       return code;
     } catch (error) {
+      if (error instanceof POMGenerationError) {
+        throw error;
+      }
       throw new POMGenerationError(
-        "OpenAI API error",
+        "AI provider error",
         error instanceof Error ? error.message : String(error)
       );
     }
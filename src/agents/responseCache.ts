@@ -0,0 +1,134 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+/**
+ * Inputs that determine a completion, and therefore its cache key
+ */
+export interface CacheKeyInput {
+  prompt: string;
+  systemPrompt: string;
+  model: string;
+  temperature: number;
+}
+
+/**
+ * Cache hit/miss counters
+ */
+export interface CacheStats {
+  /** Requests served from the cache */
+  hits: number;
+  /** Requests that went to the provider */
+  misses: number;
+}
+
+/**
+ * A cached completion as stored on disk
+ */
+interface CacheEntry {
+  /** Content-addressed key (also the file name) */
+  key: string;
+  /** When the entry was written */
+  createdAt: string;
+  /** Model that produced the content */
+  model: string;
+  /** Hash of the system prompt the content was produced with */
+  systemPromptHash: string;
+  /** Cached completion */
+  content: string;
+}
+
+/**
+ * Hashes a string with SHA-256
+ */
+export function sha256(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * On-disk, content-addressed cache of AI completions.
+ *
+ * The system prompt is part of the key, so editing it invalidates every
+ * completion produced with the previous version.
+ */
+export class ResponseCache {
+  private readonly stats: CacheStats = { hits: 0, misses: 0 };
+
+  /**
+   * Creates a new ResponseCache
+   * @param directory Directory holding cache entries
+   * @param ttlMs Time-to-live of an entry in ms
+   */
+  constructor(
+    private readonly directory: string,
+    private readonly ttlMs: number
+  ) {}
+
+  /**
+   * Computes the cache key for a request
+   */
+  static key(input: CacheKeyInput): string {
+    return sha256(JSON.stringify([
+      input.model,
+      input.temperature,
+      sha256(input.systemPrompt),
+      input.prompt
+    ]));
+  }
+
+  /**
+   * Looks up a completion, counting the hit or miss
+   * @returns The cached content, or undefined if missing or expired
+   */
+  async get(key: string): Promise<string | undefined> {
+    const entry = await this.read(key);
+    if (!entry || Date.now() - new Date(entry.createdAt).getTime() > this.ttlMs) {
+      this.stats.misses++;
+      return undefined;
+    }
+    this.stats.hits++;
+    return entry.content;
+  }
+
+  /**
+   * Stores a completion
+   */
+  async set(key: string, input: CacheKeyInput, content: string): Promise<void> {
+    const entry: CacheEntry = {
+      key,
+      createdAt: new Date().toISOString(),
+      model: input.model,
+      systemPromptHash: sha256(input.systemPrompt),
+      content
+    };
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(this.entryPath(key), JSON.stringify(entry, null, 2), "utf-8");
+  }
+
+  /**
+   * Records a request that skipped the cache lookup
+   */
+  recordBypass(): void {
+    this.stats.misses++;
+  }
+
+  /**
+   * Returns a snapshot of the hit/miss counters
+   */
+  getStats(): CacheStats {
+    return { ...this.stats };
+  }
+
+  private async read(key: string): Promise<CacheEntry | undefined> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.entryPath(key), "utf-8")) as CacheEntry;
+    } catch {
+      // Missing or unreadable entries are treated as misses
+      return undefined;
+    }
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
@@ -0,0 +1,127 @@
+import path from "path";
+import ts from "typescript";
+
+/**
+ * A compiler error located in a generated spec
+ */
+export interface SpecDiagnostic {
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+  /** TypeScript error code */
+  code: number;
+  /** Flattened error message */
+  message: string;
+}
+
+/**
+ * Custom error for compiler setup failures (unreadable or invalid tsconfig)
+ */
+export class SpecCompilerError extends Error {
+  constructor(message: string, public readonly details?: unknown) {
+    super(message);
+    this.name = "SpecCompilerError";
+  }
+}
+
+// Library and dependency files never change between checks, so parse them once
+const sourceFileCache = new Map<string, ts.SourceFile>();
+const optionsCache = new Map<string, ts.CompilerOptions>();
+
+/**
+ * Reads compiler options from a tsconfig, tuned for checking a single spec
+ * @throws {SpecCompilerError} If the tsconfig cannot be read or parsed
+ */
+function loadCompilerOptions(tsconfigPath: string): ts.CompilerOptions {
+  const absolutePath = path.resolve(tsconfigPath);
+  const cached = optionsCache.get(absolutePath);
+  if (cached) {
+    return cached;
+  }
+
+  const configFile = ts.readConfigFile(absolutePath, ts.sys.readFile);
+  if (configFile.error) {
+    throw new SpecCompilerError(
+      `Failed to read ${tsconfigPath}`,
+      ts.flattenDiagnosticMessageText(configFile.error.messageText, "\n")
+    );
+  }
+
+  const parsed = ts.parseJsonConfigFileContent(configFile.config, ts.sys, path.dirname(absolutePath));
+  const options: ts.CompilerOptions = {
+    ...parsed.options,
+    noEmit: true,
+    declaration: false,
+    declarationMap: false,
+    sourceMap: false,
+    incremental: false,
+    // Unused imports or parameters are style issues, not compile failures
+    noUnusedLocals: false,
+    noUnusedParameters: false
+  };
+  optionsCache.set(absolutePath, options);
+  return options;
+}
+
+/**
+ * Type-checks a spec against the project's tsconfig and the Playwright types
+ * without writing it to disk
+ * @param filePath Where the spec will live (resolves its relative imports)
+ * @param content The spec source code
+ * @param tsconfigPath Project tsconfig (default: tsconfig.json in the working directory)
+ * @returns Errors located in the spec itself; empty if it compiles
+ * @throws {SpecCompilerError} If the tsconfig cannot be loaded
+ */
+export function typeCheckSpec(
+  filePath: string,
+  content: string,
+  tsconfigPath: string = path.join(process.cwd(), "tsconfig.json")
+): SpecDiagnostic[] {
+  const options = loadCompilerOptions(tsconfigPath);
+  const target = path.resolve(filePath);
+  const host = ts.createCompilerHost(options);
+  const isTarget = (fileName: string): boolean => path.resolve(fileName) === target;
+
+  const { fileExists, readFile, getSourceFile } = host;
+  host.fileExists = fileName => isTarget(fileName) || fileExists.call(host, fileName);
+  host.readFile = fileName => (isTarget(fileName) ? content : readFile.call(host, fileName));
+  host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => {
+    if (isTarget(fileName)) {
+      return ts.createSourceFile(fileName, content, languageVersion, true);
+    }
+    const cached = sourceFileCache.get(fileName);
+    if (cached) {
+      return cached;
+    }
+    const sourceFile = getSourceFile.call(host, fileName, languageVersion, onError, shouldCreate);
+    if (sourceFile) {
+      sourceFileCache.set(fileName, sourceFile);
+    }
+    return sourceFile;
+  };
+
+  const program = ts.createProgram([target], options, host);
+  return ts.getPreEmitDiagnostics(program)
+    .filter(diagnostic =>
+      diagnostic.category === ts.DiagnosticCategory.Error &&
+      diagnostic.file !== undefined &&
+      isTarget(diagnostic.file.fileName)
+    )
+    .map(diagnostic => {
+      const { line, character } = diagnostic.file!.getLineAndCharacterOfPosition(diagnostic.start ?? 0);
+      return {
+        line: line + 1,
+        column: character + 1,
+        code: diagnostic.code,
+        message: ts.flattenDiagnosticMessageText(diagnostic.messageText, " ")
+      };
+    });
+}
+
+/**
+ * Formats diagnostics as "line:column TScode message" strings
+ */
+export function formatDiagnostics(diagnostics: SpecDiagnostic[]): string[] {
+  return diagnostics.map(d => `${d.line}:${d.column} TS${d.code} ${d.message}`);
+}
@@ -0,0 +1,401 @@
+/**
+ * Structured step plan: the intermediate representation between a
+ * natural-language scenario and the Playwright spec generated from it.
+ *
+ * Targets are Playwright selector strings (CSS, text=, role=, ...).
+ * A value or URL of the exact form CONFIG.<KEY> or
+ * CONFIG.USERS.<name>.username|password is a symbolic reference resolved at
+ * test runtime, never a literal. Persona references are rendered as
+ * persona('<name>').<field>.
+ */
+
+/** Assertions that check an element */
+export type ElementAssertion = "visible" | "hidden" | "text" | "containsText" | "value" | "count";
+
+/** Assertions that check the page */
+export type PageAssertion = "url" | "title";
+
+/**
+ * A single step of a plan
+ */
+export type PlanStep = { description?: string } & (
+  | { action: "navigate"; url: string }
+  | { action: "fill"; target: string; value: string }
+  | { action: "click"; target: string }
+  | { action: "press"; target: string; key: string }
+  | { action: "select"; target: string; value: string }
+  | { action: "check"; target: string }
+  | { action: "hover"; target: string }
+  | { action: "waitFor"; target: string }
+  | { action: "assert"; assertion: ElementAssertion; target: string; expected?: string | number }
+  | { action: "assert"; assertion: PageAssertion; expected: string }
+);
+
+/**
+ * A complete step plan for one test
+ */
+export interface StepPlan {
+  /** Test title */
+  title: string;
+  /** What the test verifies */
+  description?: string;
+  /** Ordered steps */
+  steps: PlanStep[];
+}
+
+/**
+ * Import specifiers the rendered spec needs, relative to the spec file, and
+ * how it deals with logins
+ */
+export interface RenderOptions {
+  /** Specifier of src/utils/safeActions */
+  safeActionsImport: string;
+  /** Specifier of src/config */
+  configImport: string;
+  /** Name of the plan file, mentioned in the spec header */
+  planFileName: string;
+  /** Specifier of src/utils/sessionState (required with session) */
+  sessionStateImport?: string;
+  /** User role whose saved login the test starts with */
+  session?: string;
+  /** File the browser's storage state is saved to once every step passed (login flows) */
+  saveStorageState?: string;
+  /** Specifier of src/utils/requestGuard; when set, the test blocks requests that change data */
+  requestGuardImport?: string;
+}
+
+/**
+ * Custom error for invalid step plans
+ */
+export class StepPlanError extends Error {
+  constructor(message: string, public readonly details?: unknown) {
+    super(message);
+    this.name = "StepPlanError";
+  }
+}
+
+const TARGET_ACTIONS = ["fill", "click", "press", "select", "check", "hover", "waitFor"] as const;
+const ELEMENT_ASSERTIONS: readonly string[] = ["visible", "hidden", "text", "containsText", "value", "count"];
+const PAGE_ASSERTIONS: readonly string[] = ["url", "title"];
+const CONFIG_REFERENCE = /^CONFIG\.[A-Z0-9_]+$/;
+const PERSONA_REFERENCE = /^CONFIG\.USERS\.([a-zA-Z_][a-zA-Z0-9_]*)\.(username|password)$/;
+
+/**
+ * System prompt used for the planning stage
+ */
+export const PLAN_SYSTEM_PROMPT = `You are an expert QA engineer. You turn end-to-end test scenarios into
+structured JSON step plans that a code generator converts into Playwright tests.
+Respond with a single JSON object and nothing else.`;
+
+/**
+ * Builds the planning prompt for a scenario
+ * @param session User role the browser is already logged in as, if any
+ * @param guarded Whether the environment is guarded, so the test may not change data
+ */
+export function buildPlanPrompt(scenario: string, session?: string, guarded = false): string {
+  return `Create a step plan for the following test scenario:
+${scenario}
+
+Respond with JSON of this shape:
+{
+  "title": "short test title",
+  "description": "what the test verifies",
+  "steps": [ ...steps ]
+}
+
+Each step is one of:
+  { "action": "navigate", "url": "<absolute URL>" }
+  { "action": "fill", "target": "<selector>", "value": "<text>" }
+  { "action": "click", "target": "<selector>" }
+  { "action": "press", "target": "<selector>", "key": "<key, e.g. Enter>" }
+  { "action": "select", "target": "<selector>", "value": "<option>" }
+  { "action": "check", "target": "<selector>" }
+  { "action": "hover", "target": "<selector>" }
+  { "action": "waitFor", "target": "<selector>" }
+  { "action": "assert", "assertion": "visible" | "hidden", "target": "<selector>" }
+  { "action": "assert", "assertion": "text" | "containsText" | "value", "target": "<selector>", "expected": "<text>" }
+  { "action": "assert", "assertion": "count", "target": "<selector>", "expected": <number> }
+  { "action": "assert", "assertion": "url" | "title", "expected": "<substring>" }
+Every step may also have a "description".
+
+Rules:
+- Selectors are Playwright selector strings: prefer role=..., text=..., [data-testid=...] or stable CSS ids
+- Use credential references such as CONFIG.USERNAME, CONFIG.PASSWORD or CONFIG.USERS.admin.password exactly as
+  written, as the whole value
+- End with at least one assertion that proves the scenario succeeded` + (session ? `
+- The browser is already logged in as the ${session} user: leave out every login step and start with a navigate step` : "") + (guarded ? `
+- The environment holds real data: never check out, pay, delete or remove anything, or submit a form that saves
+  data; verify such flows up to the step that would change data, without taking it` : "");
+}
+
+/**
+ * Validates an unknown value against the step plan schema
+ * @returns Problems found, each prefixed with its JSON path; empty if valid
+ */
+export function validateStepPlan(value: unknown): string[] {
+  const errors: string[] = [];
+  if (!isObject(value)) {
+    return ["plan: must be an object"];
+  }
+
+  requireString(value, "title", "title", errors);
+  if (value["description"] !== undefined && typeof value["description"] !== "string") {
+    errors.push("description: must be a string");
+  }
+
+  const steps = value["steps"];
+  if (!Array.isArray(steps) || steps.length === 0) {
+    errors.push("steps: must be a non-empty array");
+    return errors;
+  }
+
+  steps.forEach((step, index) => validateStep(step, `steps[${index}]`, errors));
+  return errors;
+}
+
+function validateStep(step: unknown, at: string, errors: string[]): void {
+  if (!isObject(step)) {
+    errors.push(`${at}: must be an object`);
+    return;
+  }
+  if (step["description"] !== undefined && typeof step["description"] !== "string") {
+    errors.push(`${at}.description: must be a string`);
+  }
+
+  const action = step["action"];
+  if (action === "navigate") {
+    requireString(step, "url", at, errors);
+  } else if ((TARGET_ACTIONS as readonly unknown[]).includes(action)) {
+    requireString(step, "target", at, errors);
+    if (action === "fill" || action === "select") {
+      requireString(step, "value", at, errors, true);
+    }
+    if (action === "press") {
+      requireString(step, "key", at, errors);
+    }
+  } else if (action === "assert") {
+    const assertion = step["assertion"];
+    if (typeof assertion === "string" && PAGE_ASSERTIONS.includes(assertion)) {
+      requireString(step, "expected", at, errors);
+    } else if (typeof assertion === "string" && ELEMENT_ASSERTIONS.includes(assertion)) {
+      requireString(step, "target", at, errors);
+      if (assertion === "count" && typeof step["expected"] !== "number") {
+        errors.push(`${at}.expected: must be a number for a count assertion`);
+      } else if (["text", "containsText", "value"].includes(assertion)) {
+        requireString(step, "expected", at, errors, true);
+      }
+    } else {
+      errors.push(`${at}.assertion: must be one of ${[...ELEMENT_ASSERTIONS, ...PAGE_ASSERTIONS].join(", ")}`);
+    }
+  } else {
+    errors.push(`${at}.action: must be one of navigate, ${TARGET_ACTIONS.join(", ")}, assert`);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function requireString(
+  value: Record<string, unknown>,
+  key: string,
+  at: string,
+  errors: string[],
+  allowEmpty = false
+): void {
+  const field = value[key];
+  const path = at === key ? key : `${at}.${key}`;
+  if (typeof field !== "string" || (!allowEmpty && !field.trim())) {
+    errors.push(`${path}: must be a ${allowEmpty ? "" : "non-empty "}string`);
+  }
+}
+
+/**
+ * Extracts and validates a step plan from a model completion
+ * @throws {StepPlanError} If no JSON is found or the plan is invalid
+ */
+export function parseStepPlan(completion: string): StepPlan {
+  const start = completion.indexOf("{");
+  const end = completion.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new StepPlanError("No JSON object found in step plan response");
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(completion.slice(start, end + 1));
+  } catch (error) {
+    throw new StepPlanError(
+      "Step plan is not valid JSON",
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+
+  const errors = validateStepPlan(value);
+  if (errors.length > 0) {
+    throw new StepPlanError("Step plan does not match the schema", errors);
+  }
+  return value as StepPlan;
+}
+
+/**
+ * Renders a string as a single-quoted TypeScript literal
+ */
+function literal(value: string): string {
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'").replace(/\r?\n/g, "\\n")}'`;
+}
+
+/**
+ * Renders a value as a code expression: symbolic references stay references
+ */
+function valueExpression(value: string): string {
+  const persona = value.match(PERSONA_REFERENCE);
+  if (persona) {
+    return `persona(${literal(persona[1]!)}).${persona[2]}`;
+  }
+  return CONFIG_REFERENCE.test(value) ? value : literal(value);
+}
+
+/**
+ * Deterministically renders a Playwright spec from a step plan
+ */
+export function renderPlanSpec(plan: StepPlan, options: RenderOptions): string {
+  const helpers = new Set<string>(["orThrow"]);
+  const body: string[] = [];
+  const configImports = new Set<string>();
+
+  const expression = (value: string): string => {
+    if (CONFIG_REFERENCE.test(value)) {
+      configImports.add("CONFIG");
+    } else if (PERSONA_REFERENCE.test(value)) {
+      configImports.add("persona");
+    }
+    return valueExpression(value);
+  };
+
+  plan.steps.forEach((step, index) => {
+    const locator = "target" in step ? `page.locator(${literal(step.target)})` : "";
+    body.push(`  // ${index + 1}. ${commentText(step.description ?? describeStep(step))}`);
+
+    switch (step.action) {
+      case "navigate":
+        body.push(`  await page.goto(${expression(step.url)});`);
+        break;
+      case "fill":
+        helpers.add("fillSafe");
+        body.push(`  await orThrow(fillSafe(page, ${literal(step.target)}, ${expression(step.value)}));`);
+        break;
+      case "click":
+        helpers.add("clickSafe");
+        body.push(`  await orThrow(clickSafe(page, ${literal(step.target)}));`);
+        break;
+      case "press":
+        helpers.add("executeSafe");
+        body.push(`  await orThrow(executeSafe(() => ${locator}.press(${literal(step.key)})));`);
+        break;
+      case "select":
+        helpers.add("executeSafe");
+        body.push(`  await orThrow(executeSafe(() => ${locator}.selectOption(${expression(step.value)})));`);
+        break;
+      case "check":
+        helpers.add("executeSafe");
+        body.push(`  await orThrow(executeSafe(() => ${locator}.check()));`);
+        break;
+      case "hover":
+        helpers.add("executeSafe");
+        body.push(`  await orThrow(executeSafe(() => ${locator}.hover()));`);
+        break;
+      case "waitFor":
+        helpers.add("expectSafe");
+        body.push(`  await orThrow(expectSafe(${locator}, element => element.waitFor({ state: 'visible' })));`);
+        break;
+      case "assert":
+        if (step.assertion === "url") {
+          // toHaveURL retries until the navigation the previous steps started has landed
+          body.push(`  await expect(page).toHaveURL(url => url.href.includes(${expression(step.expected)}));`);
+        } else if (step.assertion === "title") {
+          body.push(`  expect(await page.title()).toContain(${expression(step.expected)});`);
+        } else {
+          helpers.add("expectSafe");
+          body.push(`  await orThrow(expectSafe(${locator}, element => ${elementMatcher(step.assertion, step.expected, expression)}));`);
+        }
+        break;
+    }
+  });
+
+  if (options.saveStorageState) {
+    body.push(
+      "  // Save the logged-in state for the specs that start from it",
+      `  await page.context().storageState({ path: ${literal(options.saveStorageState)} });`
+    );
+  }
+
+  const header = [
+    `import { test, expect } from '@playwright/test';`,
+    `import { ${[...helpers].sort().join(", ")} } from '${options.safeActionsImport}';`,
+    ...(configImports.size > 0 ? [`import { ${[...configImports].sort().join(", ")} } from '${options.configImport}';`] : []),
+    ...(options.session ? [`import { storageStatePath } from '${options.sessionStateImport}';`] : []),
+    ...(options.requestGuardImport ? [`import { guardRequests } from '${options.requestGuardImport}';`] : []),
+    "",
+    "/**",
+    ` * ${commentText(plan.title)}`,
+    ...(plan.description ? [" *", ` * ${commentText(plan.description)}`] : []),
+    " *",
+    ` * Generated from step plan ${options.planFileName}`,
+    " */"
+  ];
+
+  return [
+    ...header,
+    ...(options.session ? [`test.use({ storageState: storageStatePath(${literal(options.session)}) });`, ""] : []),
+    ...(options.requestGuardImport ? ["test.beforeEach(async ({ context }) => {", "  await guardRequests(context);", "});", ""] : []),
+    `test(${literal(plan.title)}, async ({ page }) => {`,
+    ...body,
+    "});",
+    ""
+  ].join("\n");
+}
+
+function elementMatcher(
+  assertion: ElementAssertion,
+  expected: string | number | undefined,
+  expression: (value: string) => string
+): string {
+  switch (assertion) {
+    case "visible":
+      return "expect(element).toBeVisible()";
+    case "hidden":
+      return "expect(element).toBeHidden()";
+    case "text":
+      return `expect(element).toHaveText(${expression(String(expected))})`;
+    case "containsText":
+      return `expect(element).toContainText(${expression(String(expected))})`;
+    case "value":
+      return `expect(element).toHaveValue(${expression(String(expected))})`;
+    case "count":
+      return `expect(element).toHaveCount(${Number(expected)})`;
+  }
+}
+
+/**
+ * Makes model-provided text safe to embed in a comment
+ */
+function commentText(text: string): string {
+  return text.replace(/\s+/g, " ").replace(/\*\//g, "* /").trim();
+}
+
+/**
+ * Default step comment when the plan has no description
+ */
+function describeStep(step: PlanStep): string {
+  switch (step.action) {
+    case "navigate":
+      return `Navigate to ${step.url}`;
+    case "assert":
+      return "target" in step
+        ? `Assert ${step.assertion} of ${step.target}`
+        : `Assert ${step.assertion} contains ${step.expected}`;
+    default:
+      return `${step.action} ${step.target}`;
+  }
+}
@@ -1,24 +1,71 @@
 import fs from "fs";
 import path from "path";
-import { askAI } from "./aiClient.js";
+import { askAI, defaultModel } from "./aiClient.js";
+import type { AIRequestContext } from "./aiClient.js";
+import { PLAN_SYSTEM_PROMPT, StepPlanError, buildPlanPrompt, parseStepPlan, renderPlanSpec } from "./stepPlan.js";
+import type { StepPlan } from "./stepPlan.js";
+import { formatDiagnostics, typeCheckSpec } from "./specCompiler.js";
+import { extractCode, formatWithPrettier, normalizeImports } from "./codePostProcessor.js";
+import { TestHistory } from "./testHistory.js";
 import { createLogger, format, transports } from "winston";
+import { CONFIG } from "../config.js";
+import { findSecretLiterals, redactFormat, redactSecrets, redactValue } from "../utils/redaction.js";
+import { workspace } from "../utils/workspace.js";
+
+/**
+ * What went wrong with the previous attempt, for a repair generation
+ */
+export interface RepairContext {
+  /** Spec that failed */
+  previousSpec: string;
+  /** The failing assertion, locator or policy rule */
+  failure: string;
+  /** Error output of the failed run */
+  errorSnippet: string;
+  /** Failing line in the previous spec, as line:column */
+  location?: string;
+}
 
 /**
  * Options for test generation
  */
 interface TestGeneratorOptions {
+  /**
+   * Generation pipeline (default: plan):
+   * - plan: prompt -> validated JSON step plan -> deterministic spec
+   * - freeform: the model writes the whole spec
+   */
+  mode?: 'plan' | 'freeform';
   /** Custom test template to use (optional) */
   template?: string;
   /** Custom test file extension (default: .spec.ts) */
   fileExtension?: string;
-  /** Directory to save tests (relative to project root) */
+  /** Directory to save tests (default: the workspace specs directory) */
   outputDir?: string;
   /** Whether to validate generated test syntax (default: true) */
   validateSyntax?: boolean;
-  /** Whether to format the generated test (default: true) */
+  /** Whether to merge imports, drop unused ones and run Prettier on the generated test (default: true) */
   formatCode?: boolean;
+  /** Whether to type-check the generated test with the TypeScript compiler (default: true) */
+  typeCheck?: boolean;
+  /** Maximum rounds of feeding compiler errors back to the model (default: 2) */
+  maxRepairRounds?: number;
+  /** AI model used for generation (default: AI_MODEL or gpt-3.5-turbo) */
+  model?: string;
   /** AI model temperature for generation (default: 0.7) */
   temperature?: number;
+  /** Skip the AI response cache and force a fresh completion (default: false) */
+  bypassCache?: boolean;
+  /** Run/scenario/attempt the AI usage and audit entries belong to */
+  context?: AIRequestContext;
+  /** Store every generated spec as a numbered revision under <outputDir>/.history (default: true) */
+  history?: boolean;
+  /** Failure of the previous attempt; when set, the model repairs that spec instead of starting fresh */
+  repairContext?: RepairContext | null;
+  /** User role whose saved login the test starts with; login is left out of the test (default: null) */
+  session?: string | null;
+  /** Cancels in-flight AI requests (default: null) */
+  signal?: AbortSignal | null;
 }
 
 /**
@@ -29,6 +76,10 @@ interface GeneratedTest {
   filePath: string;
   /** The generated test content */
   content: string;
+  /** The step plan the spec was rendered from (plan mode only) */
+  plan?: StepPlan;
+  /** Revision number in the test's history (when history is enabled) */
+  revision?: number;
   /** Any validation warnings */
   warnings?: string[];
   /** Generation metadata */
@@ -39,21 +90,34 @@ interface GeneratedTest {
     prompt: string;
     /** Options used for generation */
     options: Required<TestGeneratorOptions>;
+    /** Compiler repair rounds needed before the spec compiled */
+    repairRounds: number;
   };
 }
 
 const DEFAULT_OPTIONS: Required<TestGeneratorOptions> = {
+  mode: 'plan',
   template: '',
   fileExtension: '.spec.ts',
-  outputDir: 'tests/generated',
+  outputDir: workspace.specsDir,
   validateSyntax: true,
   formatCode: true,
-  temperature: 0.7
+  typeCheck: true,
+  maxRepairRounds: 2,
+  model: '',
+  temperature: 0.7,
+  bypassCache: false,
+  context: {},
+  history: true,
+  repairContext: null,
+  session: null,
+  signal: null
 } as const;
 
 // Configure logger
 const logger = createLogger({
   format: format.combine(
+    redactFormat(),
     format.timestamp(),
     format.colorize(),
     format.printf(({ timestamp, level, message }) => {
@@ -102,7 +166,13 @@ export async function generateTest(
     const testDir = await ensureOutputDirectory(opts.outputDir);
 
     // Generate test content
-    let content = await generateTestContent(prompt, opts);
+    const outputPath = path.join(testDir, `${testName}${opts.fileExtension}`);
+    const contentOptions = { ...opts, context: { ...opts.context, outputPath } };
+    const generated = opts.mode === 'plan'
+      ? await generatePlannedContent(prompt, testDir, testName, contentOptions)
+      : { ...await generateTestContent(prompt, testDir, contentOptions), plan: undefined };
+    let content = generated.content;
+    warnings.push(...(generated.stripped ?? []));
     
     // Validate syntax if requested
     if (opts.validateSyntax) {
@@ -110,13 +180,47 @@ export async function generateTest(
       warnings.push(...syntaxIssues);
     }
 
-    // Format code if requested
-    if (opts.formatCode) {
-      content = await formatTestCode(content);
+    // Format code if requested (rendered plans are already formatted)
+    if (opts.formatCode && !generated.plan) {
+      content = await formatTestCode(content, outputPath, warnings);
+    }
+
+    // Make sure the spec compiles, letting the model repair it if needed
+    let repairRounds = 0;
+    if (opts.typeCheck) {
+      const compiled = await compileWithRepairs(content, outputPath, contentOptions);
+      content = compiled.content;
+      repairRounds = compiled.repairRounds;
+      if (repairRounds > 0) {
+        warnings.push(`Spec needed ${repairRounds} compiler repair round(s)` +
+          (generated.plan ? '; it may no longer match the step plan' : ''));
+      }
     }
 
+    // Without the saved login the spec starts logged out
+    if (opts.session && !content.includes('storageStatePath(')) {
+      warnings.push(`Spec does not start from the saved login of ${opts.session}`);
+    }
+
+    // Credentials must be read from CONFIG at runtime, never baked into the spec
+    const leakedSecrets = findSecretLiterals(content);
+    if (leakedSecrets.length > 0) {
+      throw new TestGenerationError(
+        'Generated test contains secret literals',
+        `Leaked values of: ${leakedSecrets.join(', ')}`
+      );
+    }
+
+    // Keep every generation so a good revision is never lost to a worse one
+    const revision = opts.history
+      ? (await new TestHistory(path.join(testDir, '.history')).addRevision(testName, content, {
+          prompt,
+          model: opts.model || defaultModel()
+        })).revision
+      : undefined;
+
     // Write test file
-    const testFilePath = await writeTestFile(testDir, testName, content, opts);
+    const testFilePath = await writeTestFile(testDir, testName, content, opts, generated.plan, revision);
     const duration = Date.now() - startTime;
 
     logger.info(`Test generated successfully in ${duration}ms: ${path.relative(process.cwd(), testFilePath)}`);
@@ -127,11 +231,14 @@ export async function generateTest(
     return {
       filePath: testFilePath,
       content,
+      plan: generated.plan,
+      revision,
       warnings: warnings.length > 0 ? warnings : undefined,
       metadata: {
         timestamp: new Date().toISOString(),
         prompt,
-        options: opts
+        options: opts,
+        repairRounds
       }
     };
   } catch (error) {
@@ -171,7 +278,7 @@ function validateInputs(prompt: string, testName: string): void {
  */
 async function ensureOutputDirectory(outputDir: string): Promise<string> {
   try {
-    const testDir = path.join(process.cwd(), outputDir);
+    const testDir = path.resolve(outputDir);
     await fs.promises.mkdir(testDir, { recursive: true });
     return testDir;
   } catch (error) {
@@ -182,18 +289,84 @@ async function ensureOutputDirectory(outputDir: string): Promise<string> {
   }
 }
 
+/**
+ * Returns the import specifier of a project source module as seen from the test directory
+ * @param testDir Directory of the spec file
+ * @param modulePath Module path relative to the project root, e.g. src/config.js
+ */
+export function importPathFrom(testDir: string, modulePath: string): string {
+  const relative = path.relative(testDir, path.join(process.cwd(), modulePath)).split(path.sep).join('/');
+  return relative.startsWith('.') ? relative : `./${relative}`;
+}
+
+/**
+ * Plans the test as a validated JSON step plan, then renders the spec from it
+ */
+async function generatePlannedContent(
+  prompt: string,
+  testDir: string,
+  testName: string,
+  options: Required<TestGeneratorOptions>
+): Promise<{ content: string; plan: StepPlan; stripped?: string[] }> {
+  try {
+    const planPrompt = buildPlanPrompt(prompt, options.session ?? undefined, CONFIG.GUARD.enabled) + (options.repairContext
+      ? repairInstructions(options.repairContext, 'Return a corrected step plan that avoids this failure.')
+      : '');
+    const completion = await askAI(planPrompt, options.temperature, {
+      systemPrompt: PLAN_SYSTEM_PROMPT,
+      ...(options.model ? { model: options.model } : {}),
+      ...(options.bypassCache ? { bypassCache: true } : {}),
+      ...(options.signal ? { signal: options.signal } : {})
+    }, options.context);
+    const plan = parseStepPlan(completion);
+
+    const rendered = renderPlanSpec(plan, {
+      safeActionsImport: importPathFrom(testDir, 'src/utils/safeActions.js'),
+      configImport: importPathFrom(testDir, 'src/config.js'),
+      planFileName: `${testName}.plan.json`,
+      ...(options.session ? {
+        session: options.session,
+        sessionStateImport: importPathFrom(testDir, 'src/utils/sessionState.js')
+      } : {}),
+      ...(CONFIG.GUARD.enabled && CONFIG.GUARD.blockMutatingRequests
+        ? { requestGuardImport: importPathFrom(testDir, 'src/utils/requestGuard.js') }
+        : {})
+    });
+    const content = options.template ? options.template.replace('${TEST_CONTENT}', rendered) : rendered;
+    return { content, plan };
+  } catch (error) {
+    if (error instanceof StepPlanError) {
+      throw new TestGenerationError(`Failed to plan test: ${error.message}`, error.details);
+    }
+    throw new TestGenerationError(
+      'Failed to generate test plan',
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
 /**
  * Generates test content using AI with templates
+ * @returns The code extracted from the completion and what was stripped from it
  */
 async function generateTestContent(
   prompt: string,
+  testDir: string,
   options: Required<TestGeneratorOptions>
-): Promise<string> {
+): Promise<{ content: string; stripped: string[] }> {
   try {
     const enhancedPrompt = `
       Generate a Playwright test for the following scenario:
       ${prompt}
       
+      Credentials:
+      - Credentials appear in the scenario as symbolic references such as CONFIG.USERNAME and CONFIG.PASSWORD,
+        or CONFIG.USERS.<name>.username and CONFIG.USERS.<name>.password for other users
+      - Import them with: import { CONFIG, persona } from '${importPathFrom(testDir, 'src/config.js')}';
+      - Write CONFIG.USERNAME and CONFIG.PASSWORD as they are, and CONFIG.USERS.<name>.<field> as
+        persona('<name>').<field>; never write credential values as string literals
+      ${options.session ? sessionInstructions(options.session, testDir) : ''}
+      ${CONFIG.GUARD.enabled ? guardInstructions(testDir) : ''}
       Requirements:
       - Use TypeScript
       - Include proper imports
@@ -202,14 +375,22 @@ async function generateTestContent(
       - Add JSDoc documentation
       - Use page object patterns
       - Include test metadata (title, tags)
-    `;
+    ` + (options.repairContext
+      ? repairInstructions(options.repairContext, 'Return the complete corrected test that avoids this failure.')
+      : '');
 
-    const baseContent = await askAI(enhancedPrompt, options.temperature);
+    const completion = await askAI(enhancedPrompt, options.temperature, {
+      ...(options.model ? { model: options.model } : {}),
+      // Only force a fresh completion when asked; otherwise defer to AI_CACHE_BYPASS
+      ...(options.bypassCache ? { bypassCache: true } : {}),
+      ...(options.signal ? { signal: options.signal } : {})
+    }, options.context);
+    const { code, stripped } = extractCode(completion);
     if (!options.template) {
-      return baseContent;
+      return { content: code, stripped };
     }
 
-    return options.template.replace('${TEST_CONTENT}', baseContent);
+    return { content: options.template.replace('${TEST_CONTENT}', code), stripped };
   } catch (error) {
     throw new TestGenerationError(
       'Failed to generate test content',
@@ -218,6 +399,117 @@ async function generateTestContent(
   }
 }
 
+/**
+ * Tells the model the browser starts logged in, and how the spec picks up the saved login
+ */
+function sessionInstructions(role: string, testDir: string): string {
+  return `
+      Login:
+      - The browser is already logged in as the ${role} user; do not log in through the UI, even if the scenario says so
+      - Start from the saved login with:
+        import { storageStatePath } from '${importPathFrom(testDir, 'src/utils/sessionState.js')}';
+        test.use({ storageState: storageStatePath('${role}') });
+`;
+}
+
+/**
+ * Tells the model the environment holds real data, which the test must leave unchanged
+ */
+function guardInstructions(testDir: string): string {
+  const requestGuard = CONFIG.GUARD.blockMutatingRequests ? `
+      - Block requests that change data with:
+        import { guardRequests } from '${importPathFrom(testDir, 'src/utils/requestGuard.js')}';
+        test.beforeEach(async ({ context }) => { await guardRequests(context); });` : '';
+  return `
+      Guarded environment:
+      - The test runs against ${CONFIG.ENV}, which holds real data; it must only read
+      - Never check out, pay, delete or remove anything, or submit a form that saves data
+      - Verify such flows up to the step that would change data, without taking it${requestGuard}
+`;
+}
+
+/**
+ * Describes the failed previous attempt so the model repairs it instead of
+ * drawing a new test. Error output can quote filled values, so secrets are masked.
+ * @param task What the model should return
+ */
+function repairInstructions(repair: RepairContext, task: string): string {
+  return `
+
+The previous test for this scenario failed.${repair.location ? ` Failing line: ${repair.location}.` : ''}
+Failure: ${redactSecrets(repair.failure)}
+
+Error output:
+${redactSecrets(repair.errorSnippet)}
+
+Previous test:
+\`\`\`typescript
+${redactSecrets(repair.previousSpec.trimEnd())}
+\`\`\`
+
+${task} Keep the steps that worked; fix the failing step (selector, wait or assertion).`;
+}
+
+/**
+ * Type-checks the spec and feeds compiler errors back to the model until it
+ * compiles or the repair budget is spent
+ * @throws {TestGenerationError} With the remaining diagnostics if the spec still does not compile
+ */
+async function compileWithRepairs(
+  content: string,
+  filePath: string,
+  options: Required<TestGeneratorOptions>
+): Promise<{ content: string; repairRounds: number }> {
+  let current = content;
+  let diagnostics = formatDiagnostics(typeCheckSpec(filePath, current));
+  let round = 0;
+
+  while (diagnostics.length > 0) {
+    if (round === options.maxRepairRounds) {
+      throw new TestGenerationError(
+        `Generated test does not compile after ${round} repair round(s)`,
+        diagnostics
+      );
+    }
+    round++;
+
+    logger.warn(`Spec has ${diagnostics.length} compiler error(s), repair round ${round}`);
+    const repairPrompt = `
+      The following Playwright test fails to compile with TypeScript.
+      Fix every error and return the complete corrected file only, in a single typescript code block.
+
+      Compiler errors (line:column code message):
+      ${diagnostics.join('\n      ')}
+
+      \`\`\`typescript
+${current}
+      \`\`\`
+    `;
+    try {
+      current = extractCode(await askAI(
+        repairPrompt,
+        options.temperature,
+        {
+          ...(options.model ? { model: options.model } : {}),
+          ...(options.signal ? { signal: options.signal } : {})
+        },
+        options.context
+      )).code;
+      if (options.formatCode) {
+        current = await formatTestCode(current, filePath, []);
+      }
+    } catch (error) {
+      throw new TestGenerationError(
+        'Failed to repair test',
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+    diagnostics = formatDiagnostics(typeCheckSpec(filePath, current));
+  }
+
+  return { content: current, repairRounds: round };
+}
+
 /**
  * Validates test syntax and patterns
  */
@@ -246,46 +538,53 @@ function validateTestSyntax(content: string): string[] {
 }
 
 /**
- * Formats the generated test code
+ * Formats the generated test code: merges and deduplicates imports, drops
+ * unused ones and runs Prettier with the project configuration
+ * @param warnings Receives a note for everything that was removed
  */
-async function formatTestCode(content: string): Promise<string> {
-  // Add proper imports and setup
-  const header = `
-    // @ts-check
-    import { test, expect } from '@playwright/test';
-    import { chromium, Browser, BrowserContext, Page } from '@playwright/test';
-  `.trim() + '\n\n';
-
-  // Format content
-  const formatted = content
-    .split('\n')
-    .map(line => line.trimEnd()) // Remove trailing spaces
-    .join('\n')
-    .replace(/\n{3,}/g, '\n\n') // Remove extra blank lines
-    .trim();
-
-  return header + formatted + '\n';
+async function formatTestCode(content: string, filePath: string, warnings: string[]): Promise<string> {
+  const normalized = normalizeImports(content, filePath);
+  warnings.push(...normalized.removed);
+
+  try {
+    return await formatWithPrettier(normalized.code, filePath);
+  } catch (error) {
+    // Unparseable code is left to the compiler check, which can repair it
+    warnings.push(`Prettier could not format the test: ${error instanceof Error ? error.message.split('\n')[0] : String(error)}`);
+    return normalized.code;
+  }
 }
 
 /**
- * Writes the test file and metadata
+ * Writes the test file, its step plan (if any) and metadata
  */
 async function writeTestFile(
   testDir: string,
   testName: string,
   content: string,
-  options: Required<TestGeneratorOptions>
+  options: Required<TestGeneratorOptions>,
+  plan?: StepPlan,
+  revision?: number
 ): Promise<string> {
   try {
     // Create test file
     const testFilePath = path.join(testDir, `${testName}${options.fileExtension}`);
     await fs.promises.writeFile(testFilePath, content, 'utf-8');
 
+    // Save the plan next to the spec so reviewers can read the intent
+    if (plan) {
+      const planPath = path.join(testDir, `${testName}.plan.json`);
+      await fs.promises.writeFile(planPath, JSON.stringify(plan, null, 2) + '\n', 'utf-8');
+    }
+
     // Create metadata file
     const metadataPath = testFilePath + '.meta.json';
+    // The abort signal only lives as long as the generation; the repair context may quote secrets
+    const { signal, ...persistedOptions } = options;
     const metadata = {
       generatedAt: new Date().toISOString(),
-      options,
+      revision,
+      options: redactValue(persistedOptions),
       stats: {
         lines: content.split('\n').length,
         size: Buffer.from(content).length
@@ -0,0 +1,229 @@
+import fs from "fs";
+import path from "path";
+import { sha256 } from "./responseCache.js";
+import { workspace } from "../utils/workspace.js";
+
+/**
+ * Outcome of running a revision
+ */
+export type RevisionResult = "pending" | "passed" | "flaky" | "failed" | "blocked";
+
+/**
+ * Review status of a revision
+ */
+export type RevisionStatus = "draft" | "approved";
+
+/**
+ * One generated version of a test
+ */
+export interface RevisionRecord {
+  /** 1-based revision number */
+  revision: number;
+  /** When the revision was generated */
+  createdAt: string;
+  /** SHA-256 of the prompt the revision was generated from */
+  promptHash: string;
+  /** Model that generated it */
+  model: string;
+  /** File holding the spec, relative to the tag's history directory */
+  fileName: string;
+  /** Result of the latest run */
+  result: RevisionResult;
+  /** When the result was recorded */
+  resultAt?: string;
+  /** Review status */
+  status: RevisionStatus;
+}
+
+/**
+ * History index of one test tag
+ */
+export interface TagHistory {
+  /** Test tag */
+  tag: string;
+  /** Revision the orchestrator runs instead of regenerating */
+  locked?: number;
+  /** All revisions, oldest first */
+  revisions: RevisionRecord[];
+}
+
+/**
+ * Custom error for history lookups and updates
+ */
+export class TestHistoryError extends Error {
+  constructor(message: string, public readonly details?: unknown) {
+    super(message);
+    this.name = "TestHistoryError";
+  }
+}
+
+const INDEX_FILE = "index.json";
+
+/**
+ * Hashes a prompt for change detection
+ */
+export function promptHash(prompt: string): string {
+  return sha256(prompt.trim());
+}
+
+/**
+ * Numbered revisions of generated tests, stored under <root>/<tag>/.
+ *
+ * Revisions are kept as .txt files so neither Playwright nor tsc pick them
+ * up as tests or sources.
+ */
+export class TestHistory {
+  /**
+   * Creates a new TestHistory
+   * @param root Directory holding one subdirectory per tag (default: the workspace history directory)
+   */
+  constructor(private readonly root: string = workspace.historyDir) {}
+
+  /**
+   * Stores a newly generated spec as the next revision
+   */
+  async addRevision(tag: string, content: string, source: { prompt: string; model: string }): Promise<RevisionRecord> {
+    const history = await this.load(tag);
+    const revision = (history.revisions[history.revisions.length - 1]?.revision ?? 0) + 1;
+    const record: RevisionRecord = {
+      revision,
+      createdAt: new Date().toISOString(),
+      promptHash: promptHash(source.prompt),
+      model: source.model,
+      fileName: `r${String(revision).padStart(4, "0")}.spec.ts.txt`,
+      result: "pending",
+      status: "draft"
+    };
+
+    await fs.promises.mkdir(this.tagDir(tag), { recursive: true });
+    await fs.promises.writeFile(path.join(this.tagDir(tag), record.fileName), content, "utf-8");
+    history.revisions.push(record);
+    await this.save(history);
+    return record;
+  }
+
+  /**
+   * Returns the history of a tag (empty if it has none)
+   */
+  async load(tag: string): Promise<TagHistory> {
+    try {
+      const raw = await fs.promises.readFile(path.join(this.tagDir(tag), INDEX_FILE), "utf-8");
+      return JSON.parse(raw) as TagHistory;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return { tag, revisions: [] };
+      }
+      throw new TestHistoryError(
+        `Failed to read history of ${tag}`,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  /**
+   * Returns a revision and its spec content
+   * @param revision Revision number (default: latest)
+   * @throws {TestHistoryError} If the revision does not exist
+   */
+  async get(tag: string, revision?: number): Promise<{ record: RevisionRecord; content: string }> {
+    const history = await this.load(tag);
+    const record = revision === undefined
+      ? history.revisions[history.revisions.length - 1]
+      : history.revisions.find(r => r.revision === revision);
+    if (!record) {
+      throw new TestHistoryError(
+        revision === undefined ? `No revisions of ${tag}` : `Revision ${revision} of ${tag} does not exist`
+      );
+    }
+    const content = await fs.promises.readFile(path.join(this.tagDir(tag), record.fileName), "utf-8");
+    return { record, content };
+  }
+
+  /**
+   * Records the result of running a revision
+   */
+  async setResult(tag: string, revision: number, result: RevisionResult): Promise<void> {
+    await this.update(tag, revision, record => {
+      record.result = result;
+      record.resultAt = new Date().toISOString();
+    });
+  }
+
+  /**
+   * Marks a revision as reviewed and approved
+   */
+  async approve(tag: string, revision: number): Promise<void> {
+    await this.update(tag, revision, record => {
+      record.status = "approved";
+    });
+  }
+
+  /**
+   * Locks a revision: the orchestrator runs it instead of regenerating until
+   * it is unlocked or the prompt changes. Locking approves the revision.
+   */
+  async lock(tag: string, revision: number): Promise<void> {
+    await this.update(tag, revision, (record, history) => {
+      record.status = "approved";
+      history.locked = revision;
+    });
+  }
+
+  /**
+   * Releases the lock of a tag
+   * @returns The revision that was locked, if any
+   */
+  async unlock(tag: string): Promise<number | undefined> {
+    const history = await this.load(tag);
+    const locked = history.locked;
+    if (locked !== undefined) {
+      delete history.locked;
+      await this.save(history);
+    }
+    return locked;
+  }
+
+  /**
+   * Returns the locked revision to run for a prompt. A lock on a revision
+   * generated from a different prompt is stale and is released.
+   */
+  async resolveLock(tag: string, prompt: string): Promise<{ locked?: { record: RevisionRecord; content: string }; released?: number }> {
+    const history = await this.load(tag);
+    if (history.locked === undefined) {
+      return {};
+    }
+
+    const locked = await this.get(tag, history.locked);
+    if (locked.record.promptHash !== promptHash(prompt)) {
+      return { released: await this.unlock(tag) };
+    }
+    return { locked };
+  }
+
+  private async update(
+    tag: string,
+    revision: number,
+    change: (record: RevisionRecord, history: TagHistory) => void
+  ): Promise<void> {
+    const history = await this.load(tag);
+    const record = history.revisions.find(r => r.revision === revision);
+    if (!record) {
+      throw new TestHistoryError(`Revision ${revision} of ${tag} does not exist`);
+    }
+    change(record, history);
+    await this.save(history);
+  }
+
+  private async save(history: TagHistory): Promise<void> {
+    await fs.promises.mkdir(this.tagDir(history.tag), { recursive: true });
+    await fs.promises.writeFile(
+      path.join(this.tagDir(history.tag), INDEX_FILE),
+      JSON.stringify(history, null, 2) + "\n",
+      "utf-8"
+    );
+  }
+
+  private tagDir(tag: string): string {
+    return path.join(this.root, tag);
+  }
+}
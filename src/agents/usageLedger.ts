@@ -0,0 +1,217 @@
+import fs from "fs";
+import { CONFIG } from "../config.js";
+import type { TokenUsage } from "./llmProvider.js";
+
+/**
+ * Identifies which run, scenario and attempt an AI request belongs to
+ */
+export interface UsageContext {
+  /** Orchestrator run identifier */
+  runId?: string;
+  /** Scenario tag */
+  scenario?: string;
+  /** Attempt number within the scenario (1-based) */
+  attempt?: number;
+}
+
+/**
+ * Model prices in USD per 1K tokens
+ */
+export type PriceTable = Record<string, { prompt: number; completion: number }>;
+
+/**
+ * A single recorded AI request
+ */
+interface UsageRecord extends TokenUsage, UsageContext {
+  /** When the request completed */
+  timestamp: string;
+  /** Model that served the request */
+  model: string;
+  /** Estimated cost in USD */
+  cost: number;
+}
+
+/**
+ * Aggregated usage
+ */
+export interface UsageTotals extends TokenUsage {
+  /** Number of AI requests */
+  requests: number;
+  /** Estimated cost in USD */
+  cost: number;
+}
+
+/**
+ * Token and cost limits; unset or 0 means unlimited
+ */
+export interface UsageBudget {
+  /** Maximum total tokens */
+  maxTokens?: number;
+  /** Maximum estimated cost in USD */
+  maxCost?: number;
+}
+
+/**
+ * Raised when a scenario or run goes over its budget
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    message: string,
+    public readonly scope: "scenario" | "run",
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+const DEFAULT_PRICES: PriceTable = {
+  "gpt-4": { prompt: 0.03, completion: 0.06 },
+  "gpt-4-turbo": { prompt: 0.01, completion: 0.03 },
+  "gpt-4o": { prompt: 0.0025, completion: 0.01 },
+  "gpt-4o-mini": { prompt: 0.00015, completion: 0.0006 },
+  "gpt-3.5-turbo": { prompt: 0.0005, completion: 0.0015 }
+};
+
+/**
+ * Loads the price table, merging AI_PRICE_TABLE (a JSON file) over the defaults
+ * @throws {Error} If the configured price table cannot be read
+ */
+function loadPriceTable(): PriceTable {
+  if (!CONFIG.AI_PRICE_TABLE) {
+    return DEFAULT_PRICES;
+  }
+  try {
+    const overrides = JSON.parse(fs.readFileSync(CONFIG.AI_PRICE_TABLE, "utf-8")) as PriceTable;
+    return { ...DEFAULT_PRICES, ...overrides };
+  } catch (error) {
+    throw new Error(
+      `Failed to load price table from ${CONFIG.AI_PRICE_TABLE}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+}
+
+/**
+ * In-memory ledger of token usage and estimated cost
+ */
+export class UsageLedger {
+  private readonly records: UsageRecord[] = [];
+  private prices: PriceTable | undefined;
+
+  /**
+   * Creates a new UsageLedger
+   * @param prices Model price table, or a function loading it when the first cost is estimated
+   */
+  constructor(private readonly priceSource: PriceTable | (() => PriceTable)) {}
+
+  /**
+   * Estimates the cost of a request in USD (0 for models missing from the price table)
+   * @throws {Error} If the price table cannot be loaded
+   */
+  estimateCost(model: string, usage: TokenUsage): number {
+    this.prices ??= typeof this.priceSource === "function" ? this.priceSource() : this.priceSource;
+    const price = this.prices[model];
+    if (!price) {
+      return 0;
+    }
+    return (usage.promptTokens * price.prompt + usage.completionTokens * price.completion) / 1000;
+  }
+
+  /**
+   * Records the usage of one AI request
+   */
+  record(model: string, usage: TokenUsage, context: UsageContext = {}): void {
+    this.records.push({
+      ...context,
+      ...usage,
+      model,
+      timestamp: new Date().toISOString(),
+      cost: this.estimateCost(model, usage)
+    });
+  }
+
+  /**
+   * Sums usage matching the filter
+   */
+  totals(filter: UsageContext = {}): UsageTotals {
+    return this.select(filter).reduce(addRecord, emptyTotals());
+  }
+
+  /**
+   * Sums usage matching the filter, grouped by model
+   */
+  totalsByModel(filter: UsageContext = {}): Record<string, UsageTotals> {
+    const byModel: Record<string, UsageTotals> = {};
+    for (const record of this.select(filter)) {
+      byModel[record.model] = addRecord(byModel[record.model] ?? emptyTotals(), record);
+    }
+    return byModel;
+  }
+
+  /**
+   * Verifies that a scenario and its run are within budget
+   * @throws {BudgetExceededError} If either limit has been exceeded
+   */
+  checkBudget(
+    runId: string,
+    scenario: string,
+    budgets: { scenario?: UsageBudget; run?: UsageBudget }
+  ): void {
+    const scenarioTotals = this.totals({ runId, scenario });
+    const scenarioProblem = exceeded(scenarioTotals, budgets.scenario);
+    if (scenarioProblem) {
+      throw new BudgetExceededError(
+        `Scenario ${scenario} exceeded its budget: ${scenarioProblem}`,
+        "scenario",
+        scenarioTotals
+      );
+    }
+
+    const runTotals = this.totals({ runId });
+    const runProblem = exceeded(runTotals, budgets.run);
+    if (runProblem) {
+      throw new BudgetExceededError(`Run ${runId} exceeded its budget: ${runProblem}`, "run", runTotals);
+    }
+  }
+
+  private select(filter: UsageContext): UsageRecord[] {
+    return this.records.filter(record =>
+      (filter.runId === undefined || record.runId === filter.runId) &&
+      (filter.scenario === undefined || record.scenario === filter.scenario) &&
+      (filter.attempt === undefined || record.attempt === filter.attempt)
+    );
+  }
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): UsageTotals {
+  return {
+    requests: totals.requests + 1,
+    promptTokens: totals.promptTokens + record.promptTokens,
+    completionTokens: totals.completionTokens + record.completionTokens,
+    totalTokens: totals.totalTokens + record.totalTokens,
+    cost: totals.cost + record.cost
+  };
+}
+
+/**
+ * Describes which limit was exceeded, if any
+ */
+function exceeded(totals: UsageTotals, budget: UsageBudget = {}): string | undefined {
+  if (budget.maxTokens && totals.totalTokens > budget.maxTokens) {
+    return `${totals.totalTokens} tokens used, limit ${budget.maxTokens}`;
+  }
+  if (budget.maxCost && totals.cost > budget.maxCost) {
+    return `$${totals.cost.toFixed(4)} spent, limit $${budget.maxCost.toFixed(4)}`;
+  }
+  return undefined;
+}
+
+/**
+ * Process-wide ledger shared by all agents. The price table is loaded on
+ * first use, so a broken AI_PRICE_TABLE only fails the code that needs prices.
+ */
+export const usageLedger = new UsageLedger(loadPriceTable);
@@ -0,0 +1,665 @@
+#!/usr/bin/env node
+import { parseArgs } from "util";
+import type { ParseArgsConfig } from "util";
+import { CONFIG, ConfigError, configFilePath, environmentNames } from "../config.js";
+import { DEFAULT_SUITE_DIR, formatIssue, loadSuites, selectScenarios, SuiteError } from "../orchestrator/suite.js";
+import type { Scenario } from "../orchestrator/suite.js";
+import { parseTagExpression, TagExpressionError } from "../orchestrator/tagExpression.js";
+
+/**
+ * Exit codes:
+ * - 0: success
+ * - 1: a scenario or generation failed
+ * - 2: invalid arguments, tag expression or suite
+ * - 3: any other error (configuration, AI provider, file system)
+ * - 130: interrupted by SIGINT or SIGTERM
+ */
+const EXIT = {
+  ok: 0,
+  failed: 1,
+  usage: 2,
+  error: 3,
+  interrupted: 130
+} as const;
+
+const USAGE = `Usage: ai-agentic <command> [options]
+
+Commands:
+  run [expression]       Generate, run and repair the selected scenarios
+  generate [expression]  Generate the selected scenarios' specs without running them
+  list [expression]      List scenarios
+  pom <prompt>           Generate page objects from a prompt or a page (--url)
+  login [role...]        Log user roles in and save their sessions for the scenarios
+  report [runId]         Show the summary of a past run (default: latest)
+  history [view]         Query the run history: trends, slowest, regenerated, failing or runs
+
+Global options:
+  --json                 Print a single JSON document on stdout; logs go to stderr
+  -h, --help             Show help for a command
+
+An expression selects scenarios by label and tag, e.g. "@smoke and not @slow".
+
+Exit codes: 0 success, 1 failures, 2 invalid input, 3 error, 130 interrupted`;
+
+const SELECTION_OPTIONS = `  -e, --env <env>          Target environment (default: ENV or the config file's defaultEnvironment)
+  -s, --suite <path>       Suite file or directory, repeatable (default: SUITES or ${DEFAULT_SUITE_DIR})
+  -c, --concurrency <n>    Scenarios processed at the same time (default: CONCURRENCY or 1)`;
+
+const COMMAND_USAGE: Record<string, string> = {
+  run: `Usage: ai-agentic run [expression] [options]
+
+Generates, runs and repairs every scenario matching the expression. The run
+summary, JUnit report and HTML report are written to runs/<runId>/summary.json,
+junit.xml and report.html.
+
+Options:
+${SELECTION_OPTIONS}
+  -r, --retries <n>        Attempts per scenario (default: RETRY_ATTEMPTS or 2)
+  -t, --timeout <ms>       Time limit per scenario (default: SCENARIO_TIMEOUT or 5 minutes)
+      --reporter <name>    Playwright reporter (default: list)
+      --junit <path>       Also write the JUnit XML report here (default: REPORT_JUNIT)
+      --summary <path>     Also write the JSON run summary here (default: REPORT_JSON)
+      --html <path>        Also write the HTML report here (default: REPORT_HTML)
+      --bail               Stop the run at the first failed scenario
+      --json               Print the run summary as JSON
+  -h, --help               Show this help`,
+  generate: `Usage: ai-agentic generate [expression] [options]
+
+Generates the spec of every scenario matching the expression and checks it
+against the code policy, without running it. Locked revisions are restored.
+
+Options:
+${SELECTION_OPTIONS}
+      --json               Print the outcome of every scenario as JSON
+  -h, --help               Show this help`,
+  list: `Usage: ai-agentic list [expression] [options]
+
+Lists the scenarios matching the expression, in the order they would run.
+
+Options:
+  -e, --env <env>          Leave out scenarios restricted to other environments or needing
+                           a feature disabled there
+  -s, --suite <path>       Suite file or directory, repeatable (default: SUITES or ${DEFAULT_SUITE_DIR})
+      --json               Print the scenarios as JSON
+  -h, --help               Show this help`,
+  pom: `Usage: ai-agentic pom <prompt> [options]
+       ai-agentic pom --url <url> [options]
+
+Generates page object classes from a description, or from the HTML of a page.
+
+Options:
+  -u, --url <url>          Page to generate page objects for
+  -o, --out <dir>          Output directory (default: the workspace src/pom)
+  -m, --model <model>      AI model (default: AI_MODEL)
+  -e, --env <env>          Environment whose configuration is loaded
+      --json               Print the generated page objects as JSON
+  -h, --help               Show this help`,
+  login: `Usage: ai-agentic login [role...] [options]
+
+Logs user roles in by running their login flows (LOGIN_FLOWS_DIR/<role>.plan.json)
+and saves the sessions scenarios start from to .auth/<env>-<role>.json. A saved
+session is reused until it is older than SESSION_TTL or a cookie expired.
+Without roles, every role the scenarios start with is logged in.
+
+Options:
+  -e, --env <env>          Target environment (default: ENV or the config file's defaultEnvironment)
+  -s, --suite <path>       Suite file or directory, repeatable (default: SUITES or ${DEFAULT_SUITE_DIR})
+      --force              Log in even if the saved session is still valid
+      --json               Print the sessions as JSON
+  -h, --help               Show this help`,
+  report: `Usage: ai-agentic report [runId] [options]
+
+Shows the summary of a past run, or of the latest one.
+
+Options:
+      --html <path>        Render the run's HTML report to this file
+      --json               Print the run summary as JSON
+  -h, --help               Show this help`,
+  history: `Usage: ai-agentic history [view] [options]
+
+Queries the history of past runs (reports/run-history.jsonl).
+
+Views:
+  trends                   Pass rate per scenario, lowest first (default)
+  slowest                  Scenarios by mean duration
+  regenerated              Scenarios by number of generated specs
+  failing                  Scenarios failing in their latest run, and since when
+  runs                     Every run
+
+Options:
+      --tag <tag>          Only this scenario
+  -e, --env <env>          Only runs against this environment
+      --since <date>       Only runs started at or after this date
+      --last <n>           Only the last n runs
+  -l, --limit <n>          Maximum number of scenarios for slowest and regenerated (default: 10)
+      --json               Print the result as JSON
+  -h, --help               Show this help`
+};
+
+type Options = NonNullable<ParseArgsConfig["options"]>;
+
+const COMMON_OPTIONS: Options = {
+  json: { type: "boolean" },
+  help: { type: "boolean", short: "h" }
+};
+
+const SELECTION: Options = {
+  env: { type: "string", short: "e" },
+  suite: { type: "string", short: "s", multiple: true },
+  concurrency: { type: "string", short: "c" }
+};
+
+const COMMAND_OPTIONS: Record<string, Options> = {
+  run: {
+    ...SELECTION,
+    retries: { type: "string", short: "r" },
+    timeout: { type: "string", short: "t" },
+    reporter: { type: "string" },
+    junit: { type: "string" },
+    summary: { type: "string" },
+    html: { type: "string" },
+    bail: { type: "boolean" }
+  },
+  generate: SELECTION,
+  list: {
+    env: SELECTION["env"]!,
+    suite: SELECTION["suite"]!
+  },
+  pom: {
+    url: { type: "string", short: "u" },
+    out: { type: "string", short: "o" },
+    model: { type: "string", short: "m" },
+    env: SELECTION["env"]!
+  },
+  login: {
+    env: SELECTION["env"]!,
+    suite: SELECTION["suite"]!,
+    force: { type: "boolean" }
+  },
+  report: {
+    html: { type: "string" }
+  },
+  history: {
+    tag: { type: "string" },
+    env: SELECTION["env"]!,
+    since: { type: "string" },
+    last: { type: "string" },
+    limit: { type: "string", short: "l" }
+  }
+};
+
+type Values = Record<string, string | boolean | (string | boolean)[] | undefined>;
+
+/**
+ * Invalid command line arguments
+ */
+class UsageError extends Error {
+  constructor(message: string, public readonly details?: unknown) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+/**
+ * What a command produced
+ */
+interface CommandResult {
+  /** Exit code */
+  exitCode: number;
+  /** Document printed with --json */
+  json: unknown;
+  /** Lines printed without --json */
+  lines?: string[];
+}
+
+/**
+ * Reads a positive integer option
+ * @throws {UsageError} If the value is not a positive integer
+ */
+function intOption(values: Values, name: string): number | undefined {
+  const value = values[name];
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (typeof value !== "string" || !Number.isInteger(number) || number < 1) {
+    throw new UsageError(`Invalid --${name}: ${String(value)}`, "Must be a positive integer");
+  }
+  return number;
+}
+
+/**
+ * Validates --env and makes it the environment every module configures itself
+ * for. Must run before any setting is first read.
+ * @throws {UsageError} If the environment is not declared
+ */
+function applyEnvironment(values: Values): string | undefined {
+  const env = typeof values["env"] === "string" ? values["env"].toLowerCase() : undefined;
+  if (env === undefined) {
+    return undefined;
+  }
+  const environments = environmentNames();
+  if (!environments.includes(env)) {
+    throw new UsageError(
+      `Unknown environment: ${env}`,
+      environments.length > 0 ? `Must be one of: ${environments.join(", ")}` : `No environment is declared in ${configFilePath()}`
+    );
+  }
+  process.env["ENV"] = env;
+  return env;
+}
+
+/**
+ * Suite files or directories of the configuration
+ */
+function configuredSuites(): string[] {
+  return CONFIG.SUITES.length > 0 ? [...CONFIG.SUITES] : [DEFAULT_SUITE_DIR];
+}
+
+/**
+ * Suites given with --suite, if any
+ */
+function suiteOption(values: Values): { suites?: string[] } {
+  const suites = [values["suite"] ?? []].flat().filter(suite => typeof suite === "string");
+  return suites.length > 0 ? { suites } : {};
+}
+
+/**
+ * Joins the positionals into a tag expression and checks it, so a malformed
+ * expression is reported before any configuration is loaded
+ * @throws {TagExpressionError} If the expression is malformed
+ */
+function selectionArg(positionals: string[]): string | undefined {
+  const selection = positionals.join(" ").trim() || undefined;
+  if (selection) {
+    parseTagExpression(selection);
+  }
+  return selection;
+}
+
+async function runCommand(values: Values, positionals: string[], signal: AbortSignal): Promise<CommandResult> {
+  const selection = selectionArg(positionals);
+  const concurrency = intOption(values, "concurrency");
+  const retryAttempts = intOption(values, "retries");
+  const scenarioTimeout = intOption(values, "timeout");
+  applyEnvironment(values);
+
+  const { configFromEnv, runSuite, runSucceeded } = await import("../orchestrator/orchestrator.js");
+  const config = configFromEnv();
+  const stats = await runSuite({
+    ...config,
+    reports: {
+      ...config.reports,
+      ...(typeof values["junit"] === "string" ? { junit: values["junit"] } : {}),
+      ...(typeof values["summary"] === "string" ? { json: values["summary"] } : {}),
+      ...(typeof values["html"] === "string" ? { html: values["html"] } : {})
+    },
+    ...suiteOption(values),
+    ...(concurrency ? { concurrency } : {}),
+    ...(retryAttempts ? { retryAttempts } : {}),
+    ...(scenarioTimeout ? { scenarioTimeout } : {}),
+    ...(typeof values["reporter"] === "string" ? { reporter: values["reporter"] } : {}),
+    ...(values["bail"] ? { continueOnFailure: false } : {}),
+    ...(selection ? { selection } : {}),
+    signal
+  });
+  // The summary was already logged
+  return { exitCode: runSucceeded(stats) ? EXIT.ok : EXIT.failed, json: stats };
+}
+
+async function generateCommand(values: Values, positionals: string[], signal: AbortSignal): Promise<CommandResult> {
+  const selection = selectionArg(positionals);
+  const concurrency = intOption(values, "concurrency");
+  applyEnvironment(values);
+
+  const { configFromEnv, generateSuite } = await import("../orchestrator/orchestrator.js");
+  const results = await generateSuite({
+    ...configFromEnv(),
+    ...suiteOption(values),
+    ...(concurrency ? { concurrency } : {}),
+    ...(selection ? { selection } : {}),
+    signal
+  });
+  const lines = results.flatMap(result => [
+    `${result.tag}: ${result.status}` +
+      (result.revision !== undefined ? ` r${result.revision}` : "") +
+      (result.filePath ? ` ${result.filePath}` : ""),
+    ...result.warnings.map(warning => `  warning: ${warning}`),
+    ...(result.error ? result.error.split("\n").map(line => `  ${line}`) : [])
+  ]);
+  lines.push(`${results.filter(result => ["generated", "locked"].includes(result.status)).length}/${results.length} generated`);
+  const failed = results.some(result => !["generated", "locked"].includes(result.status));
+  return { exitCode: failed ? EXIT.failed : EXIT.ok, json: results, lines };
+}
+
+async function listCommand(values: Values, positionals: string[]): Promise<CommandResult> {
+  const selection = selectionArg(positionals);
+  const env = applyEnvironment(values);
+  const expression = selection ? parseTagExpression(selection) : undefined;
+
+  // Listing needs no credentials, and settings are only checked when read
+  const suites = suiteOption(values).suites ?? configuredSuites();
+  const { selected } = selectScenarios(
+    await loadSuites(suites), expression, env, env ? CONFIG.FEATURES : undefined, env ? CONFIG.GUARD.enabled : false);
+
+  const describe = (scenario: Scenario): string => [
+    scenario.tag,
+    scenario.priority,
+    scenario.labels.join(" "),
+    scenario.owner ?? "",
+    scenario.environments ? `[${scenario.environments.join(", ")}]` : "",
+    scenario.session ? `session:${scenario.session}` : "",
+    scenario.prodSafe ? "prod-safe" : "",
+    scenario.description
+  ].filter(Boolean).join("  ");
+  return {
+    exitCode: EXIT.ok,
+    json: selected,
+    lines: [...selected.map(describe), `${selected.length} scenario(s)`]
+  };
+}
+
+async function pomCommand(values: Values, positionals: string[], signal: AbortSignal): Promise<CommandResult> {
+  const url = typeof values["url"] === "string" ? values["url"] : undefined;
+  const description = positionals.join(" ").trim();
+  if (!url && !description) {
+    throw new UsageError("Missing prompt or --url");
+  }
+  if (url) {
+    try {
+      new URL(url);
+    } catch {
+      throw new UsageError(`Invalid --url: ${url}`);
+    }
+  }
+  applyEnvironment(values);
+
+  const { POMGenerator } = await import("../agents/pomGenerator.js");
+  const prompt = url ? await pagePrompt(url, description, signal) : description;
+  const generator = new POMGenerator(undefined, {
+    ...(typeof values["out"] === "string" ? { outputDir: values["out"] } : {}),
+    ...(typeof values["model"] === "string" ? { model: values["model"] } : {})
+  });
+  const poms = await generator.generatePOMs(prompt, { scenario: "pom" });
+  return {
+    exitCode: EXIT.ok,
+    json: poms.map(({ content, ...pom }) => pom),
+    lines: poms.flatMap(pom => [
+      `${pom.className}: ${pom.filePath}`,
+      ...(pom.warnings ?? []).map(warning => `  warning: ${warning}`)
+    ])
+  };
+}
+
+// Most of a page's markup is irrelevant to its page objects; keep the prompt small
+const MAX_PAGE_HTML = 20000;
+const PAGE_FETCH_TIMEOUT = 30000;
+
+/**
+ * Builds a page object prompt from the HTML of a page, without its scripts,
+ * styles and comments
+ * @param signal Cancels the fetch, which also gives up after PAGE_FETCH_TIMEOUT
+ * @throws {Error} If the page cannot be fetched in time
+ */
+async function pagePrompt(url: string, description: string, signal: AbortSignal): Promise<string> {
+  const response = await fetch(url, { signal: AbortSignal.any([signal, AbortSignal.timeout(PAGE_FETCH_TIMEOUT)]) });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: HTTP ${response.status}`);
+  }
+  const html = (await response.text())
+    .replace(/<(script|style|noscript|svg)\b[\s\S]*?<\/\1>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  return [
+    `Create page objects for the page at ${url}.`,
+    ...(description ? [description] : []),
+    "Use locators that match this HTML:",
+    html.slice(0, MAX_PAGE_HTML)
+  ].join("\n\n");
+}
+
+async function loginCommand(values: Values, positionals: string[], signal: AbortSignal): Promise<CommandResult> {
+  applyEnvironment(values);
+  let roles = [...new Set(positionals)];
+  if (roles.length === 0) {
+    const suites = suiteOption(values).suites ?? configuredSuites();
+    const { selected } = selectScenarios(await loadSuites(suites), undefined, CONFIG.ENV, CONFIG.FEATURES, CONFIG.GUARD.enabled);
+    roles = [...new Set(selected.flatMap(scenario => scenario.session ?? []))];
+    if (roles.length === 0) {
+      throw new UsageError("No scenario starts with a session", "Name the roles to log in");
+    }
+  }
+
+  const { sessionManager } = await import("../utils/sessionManager.js");
+  const sessions = [];
+  for (const role of roles) {
+    sessions.push(await sessionManager.ensure(role, { force: values["force"] === true, signal }));
+  }
+  return {
+    exitCode: EXIT.ok,
+    json: sessions,
+    lines: sessions.map(session =>
+      `${session.role}: ${session.refreshed ? "logged in" : "reused"}, valid until ${session.expiresAt}  ${session.storageStatePath}`)
+  };
+}
+
+async function reportCommand(values: Values, positionals: string[]): Promise<CommandResult> {
+  if (positionals.length > 1) {
+    throw new UsageError(`Unexpected argument: ${positionals[1]}`);
+  }
+  const { readRunSummary, renderSummary } = await import("../orchestrator/orchestrator.js");
+  const stats = await readRunSummary(positionals[0] ?? "latest");
+  const lines = renderSummary(stats);
+  if (typeof values["html"] === "string") {
+    const { writeHtmlReport } = await import("../orchestrator/htmlReport.js");
+    await writeHtmlReport(stats, values["html"]);
+    lines.push(`HTML report: ${values["html"]}`);
+  }
+  return { exitCode: EXIT.ok, json: stats, lines };
+}
+
+const HISTORY_VIEWS = ["trends", "slowest", "regenerated", "failing", "runs"];
+
+async function historyCommand(values: Values, positionals: string[]): Promise<CommandResult> {
+  const view = positionals[0] ?? "trends";
+  if (!HISTORY_VIEWS.includes(view) || positionals.length > 1) {
+    throw new UsageError(`Unknown history view: ${positionals.join(" ")}`, `Must be one of: ${HISTORY_VIEWS.join(", ")}`);
+  }
+  const last = intOption(values, "last");
+  const limit = intOption(values, "limit");
+  const filter = {
+    ...(typeof values["tag"] === "string" ? { tag: values["tag"] } : {}),
+    ...(typeof values["env"] === "string" ? { env: values["env"].toLowerCase() } : {}),
+    ...(typeof values["since"] === "string" ? { since: values["since"] } : {}),
+    ...(last ? { last } : {})
+  };
+
+  const { RunHistory } = await import("../orchestrator/runHistory.js");
+  const history = new RunHistory();
+  const percent = (rate: number): string => `${Math.round(rate * 100)}%`;
+  const seconds = (ms: number): string => `${(ms / 1000).toFixed(1)}s`;
+  switch (view) {
+    case "trends": {
+      const trends = await history.passRates(filter);
+      return {
+        exitCode: EXIT.ok,
+        json: trends,
+        lines: trends.map(trend => [
+          trend.tag,
+          `${percent(trend.passRate)} of ${trend.runs}`,
+          `trend ${trend.trend > 0 ? "+" : ""}${percent(trend.trend)}`,
+          trend.recent.map(status => status === "passed" ? "✓" : "✗").join("")
+        ].join("  "))
+      };
+    }
+    case "slowest": {
+      const timings = await history.slowest(filter, limit);
+      return {
+        exitCode: EXIT.ok,
+        json: timings,
+        lines: timings.map(timing =>
+          `${timing.tag}  avg ${seconds(timing.averageDuration)}  max ${seconds(timing.maxDuration)}  ` +
+          `last ${seconds(timing.lastDuration)}  (${timing.runs} runs)`)
+      };
+    }
+    case "regenerated": {
+      const generations = await history.mostRegenerated(filter, limit);
+      return {
+        exitCode: EXIT.ok,
+        json: generations,
+        lines: generations.map(scenario =>
+          `${scenario.tag}  ${scenario.generations} generations in ${scenario.runs} runs  ` +
+          `(${scenario.perRun.toFixed(1)}/run, ${scenario.tokens} tokens)` +
+          (scenario.lastRevision !== undefined ? `  r${scenario.lastRevision}` : ""))
+      };
+    }
+    case "failing": {
+      const failing = await history.failingSince(filter);
+      return {
+        exitCode: EXIT.ok,
+        json: failing,
+        lines: failing.map(scenario =>
+          `${scenario.tag}  failing since ${scenario.since.startTime} (${scenario.failures} runs)` +
+          `  last passed ${scenario.lastPassed?.startTime ?? "never"}` +
+          (scenario.lastError ? `\n  ${scenario.lastError.split("\n")[0]}` : ""))
+      };
+    }
+    default: {
+      const runs = await history.runs(filter);
+      return {
+        exitCode: EXIT.ok,
+        json: runs,
+        lines: runs.map(run => {
+          const passed = run.scenarios.filter(scenario => scenario.status === "passed").length;
+          return `${run.runId}  ${run.env}  ${passed}/${run.scenarios.length} passed  ${seconds(run.duration)}  ` +
+            `${run.tokens} tokens  $${run.cost.toFixed(4)}${run.selection ? `  ${run.selection}` : ""}`;
+        })
+      };
+    }
+  }
+}
+
+const COMMANDS: Record<string, (values: Values, positionals: string[], signal: AbortSignal) => Promise<CommandResult>> = {
+  run: runCommand,
+  generate: generateCommand,
+  list: listCommand,
+  pom: pomCommand,
+  login: loginCommand,
+  report: reportCommand,
+  history: historyCommand
+};
+
+/**
+ * Formats an error for the terminal, with its details
+ */
+function describeError(error: unknown): string[] {
+  if (error instanceof SuiteError) {
+    return [error.message, ...error.issues.map(issue => `  ${formatIssue(issue)}`)];
+  }
+  if (error instanceof ConfigError) {
+    return [error.message, ...error.issues.map(issue => `  ${issue}`)];
+  }
+  if (error instanceof TagExpressionError) {
+    return [error.message];
+  }
+  if (error instanceof Error) {
+    const details = (error as { details?: unknown }).details;
+    return [
+      `${error.name}: ${error.message}`,
+      ...(details !== undefined ? [`  ${typeof details === "string" ? details : JSON.stringify(details)}`] : [])
+    ];
+  }
+  return [String(error)];
+}
+
+/**
+ * Runs the command line and returns the exit code
+ */
+async function main(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+  if (command === undefined || command === "help" || command === "--help" || command === "-h") {
+    const topic = command === "help" ? rest[0] : undefined;
+    if (command === undefined) {
+      console.error(USAGE);
+      return EXIT.usage;
+    }
+    console.log(topic && COMMAND_USAGE[topic] ? COMMAND_USAGE[topic] : USAGE);
+    return EXIT.ok;
+  }
+
+  const handler = COMMANDS[command];
+  if (!handler) {
+    console.error(`Unknown command: ${command}\n\n${USAGE}`);
+    return EXIT.usage;
+  }
+
+  let values: Values;
+  let positionals: string[];
+  try {
+    ({ values, positionals } = parseArgs({
+      args: rest,
+      options: { ...COMMON_OPTIONS, ...COMMAND_OPTIONS[command] },
+      allowPositionals: true,
+      strict: true
+    }));
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : String(error)}\n\n${COMMAND_USAGE[command]}`);
+    return EXIT.usage;
+  }
+  if (values["help"]) {
+    console.log(COMMAND_USAGE[command]);
+    return EXIT.ok;
+  }
+
+  // With --json, stdout carries nothing but the result document
+  const json = values["json"] === true;
+  const stdout = process.stdout.write.bind(process.stdout);
+  if (json) {
+    process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write;
+  }
+
+  // The first signal cancels the command gracefully, the second exits at once
+  const controller = new AbortController();
+  const onSignal = (signal: NodeJS.Signals): void => {
+    if (controller.signal.aborted) {
+      process.exit(EXIT.interrupted);
+    }
+    console.error(`Received ${signal}. Gracefully shutting down...`);
+    controller.abort();
+  };
+  process.on("SIGINT", onSignal);
+  process.on("SIGTERM", onSignal);
+
+  try {
+    const result = await handler(values, positionals, controller.signal);
+    if (json) {
+      stdout(JSON.stringify(result.json, null, 2) + "\n");
+    } else {
+      result.lines?.forEach(line => console.log(line));
+    }
+    return controller.signal.aborted ? EXIT.interrupted : result.exitCode;
+  } catch (error) {
+    const usage = error instanceof UsageError || error instanceof TagExpressionError || error instanceof SuiteError;
+    if (json) {
+      stdout(JSON.stringify({
+        error: {
+          name: error instanceof Error ? error.name : "Error",
+          message: error instanceof Error ? error.message : String(error),
+          ...(error instanceof SuiteError || error instanceof ConfigError ? { issues: error.issues } : {}),
+          ...(error instanceof Error && "details" in error ? { details: error.details } : {})
+        }
+      }, null, 2) + "\n");
+    }
+    describeError(error).forEach(line => console.error(line));
+    if (usage) {
+      console.error(`\nRun 'ai-agentic ${command} --help' for usage.`);
+    }
+    return controller.signal.aborted ? EXIT.interrupted : usage ? EXIT.usage : EXIT.error;
+  } finally {
+    process.off("SIGINT", onSignal);
+    process.off("SIGTERM", onSignal);
+  }
+}
+
+process.exitCode = await main(process.argv.slice(2));
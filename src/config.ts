@@ -1,38 +1,892 @@
 import dotenv from "dotenv";
+import fs from "fs";
+import { registerSecret } from "./utils/redaction.js";
 
 // Load environment variables from .env file
 dotenv.config();
 
-// Define valid environments
-const validEnvironments = ["qa", "uat", "prod"] as const;
-type Environment = typeof validEnvironments[number];
+/**
+ * Config file read when AI_AGENTIC_CONFIG does not name another one
+ */
+export const DEFAULT_CONFIG_FILE = "ai-agentic.config.json";
 
- // Get and validate environment
- const env = (process.env['ENV'] || "qa").toLowerCase();
- if (!validEnvironments.includes(env as Environment)) {
-   throw new Error(`Invalid environment: ${env}. Must be one of: ${validEnvironments.join(", ")}`);
- }
+// Define valid AI providers
+const validProviders = ["openai", "openai-compatible", "mock"] as const;
+type AIProvider = typeof validProviders[number];
 
-// Helper function to get environment variables with validation
-function getEnvVariable(name: string, environment: string): string {
-  const value = process.env[`${name}_${environment.toUpperCase()}`];
-  if (!value) {
-    throw new Error(`Missing required environment variable: ${name}_${environment.toUpperCase()}`);
+// Define valid cassette modes
+const validCassetteModes = ["record", "replay", "passthrough"] as const;
+type CassetteMode = typeof validCassetteModes[number];
+
+/**
+ * An environment tests can run against. Each value can be overridden by an
+ * environment variable, named after the environment in upper case.
+ */
+export interface EnvironmentConfig {
+  /** Base URL of the application (override: BASE_URL_<ENV>) */
+  baseUrl?: string;
+  /**
+   * Names of the environment variables holding the test user's credentials;
+   * the credentials themselves never go into the config file
+   */
+  credentials?: {
+    /** Variable holding the username (default: USERNAME_<ENV>) */
+    username?: string;
+    /** Variable holding the password (default: PASSWORD_<ENV>) */
+    password?: string;
+  };
+  /** Time limits in ms */
+  timeouts?: {
+    /** Each scenario, AI requests included (override: SCENARIO_TIMEOUT; default: 5 minutes) */
+    scenario?: number;
+    /** Each Playwright run of a spec (override: TEST_TIMEOUT; default: 30 seconds) */
+    test?: number;
+    /** Each login run (override: LOGIN_TIMEOUT; default: 60 seconds) */
+    login?: number;
+  };
+  /**
+   * Feature flags of the application; scenarios needing a disabled flag are
+   * left out (override: FEATURE_<FLAG>=true|false)
+   */
+  features?: Record<string, boolean>;
+  /**
+   * Personas besides the test user, by name (letters, numbers and
+   * underscores, e.g. admin or lockedOut). Prompts reference them as
+   * ${USERS.<name>}.
+   */
+  users?: Record<string, PersonaConfig>;
+  /**
+   * Test data sets by name, e.g. products, addresses or coupons, each a JSON
+   * object. Prompts reference their values as ${DATA.<set>.<key>}.
+   */
+  data?: Record<string, Record<string, unknown>>;
+  /** Guard mode, for environments holding real data such as prod */
+  guard?: GuardConfig;
+}
+
+/**
+ * Guard mode of a protected environment. Only scenarios marked prodSafe run
+ * in it, and generated specs that would change data are blocked before they
+ * run.
+ */
+export interface GuardConfig {
+  /** Whether the environment is guarded (default: true for prod, false otherwise) */
+  enabled?: boolean;
+  /**
+   * Words in the target of a click that changes data, matched as whole words
+   * regardless of case (default: checkout, confirm, place order, buy, pay,
+   * purchase, delete, remove)
+   */
+  mutatingActions?: string[];
+  /** Parts of URLs on which submitting a form changes data, e.g. route=account/edit (default: none) */
+  deniedRoutes?: string[];
+  /** Abort browser requests other than GET, HEAD and OPTIONS (default: false) */
+  blockMutatingRequests?: boolean;
+  /** Variable holding the token server runs must confirm (default: CONFIRM_<ENV>) */
+  confirmationToken?: string;
+}
+
+/**
+ * A resolved guard mode
+ */
+export interface Guard {
+  /** Whether the environment is guarded */
+  enabled: boolean;
+  /** Words in the target of a click that changes data */
+  mutatingActions: readonly string[];
+  /** Parts of URLs on which submitting a form changes data */
+  deniedRoutes: readonly string[];
+  /** Whether browser requests other than GET, HEAD and OPTIONS are aborted */
+  blockMutatingRequests: boolean;
+  /** Variable holding the token server runs must confirm */
+  confirmationVariable: string;
+  /** The token (empty if the variable is not set) */
+  confirmationToken: string;
+}
+
+/**
+ * A persona of an environment. Like the test user's, its credentials are
+ * named environment variables; a persona without them does not log in.
+ */
+export interface PersonaConfig {
+  /** Who the persona is, for the AI, e.g. "account locked after failed logins" */
+  description?: string;
+  /** Variable holding the username */
+  username?: string;
+  /** Variable holding the password */
+  password?: string;
+}
+
+/**
+ * A resolved persona
+ */
+export interface Persona {
+  /** Who the persona is (empty if not described) */
+  description: string;
+  /** Username (empty for a persona that does not log in) */
+  username: string;
+  /** Password (empty for a persona that does not log in) */
+  password: string;
+}
+
+/**
+ * Contents of the config file. Every field is optional; the environment
+ * variable named in each comment overrides it.
+ */
+export interface ConfigFile {
+  /** Environment used when ENV is not set (default: qa) */
+  defaultEnvironment?: string;
+  /** Environments by name (letters, numbers, underscores and hyphens) */
+  environments?: Record<string, EnvironmentConfig>;
+  /** AI provider, cassettes, cache and accounting */
+  ai?: {
+    /** openai, openai-compatible or mock (AI_PROVIDER) */
+    provider?: string;
+    /** Base URL of an openai-compatible server (AI_BASE_URL) */
+    baseUrl?: string;
+    /** Default model of every agent (AI_MODEL) */
+    model?: string;
+    /** JSON array of canned completions for the mock provider (AI_MOCK_RESPONSES) */
+    mockResponses?: string;
+    /** record, replay or passthrough (AI_CASSETTE_MODE) */
+    cassetteMode?: string;
+    /** Directory holding recorded completions (AI_CASSETTE_DIR) */
+    cassetteDir?: string;
+    /** Response cache */
+    cache?: {
+      /** Whether completions are cached on disk (AI_CACHE_ENABLED) */
+      enabled?: boolean;
+      /** Directory holding cached completions (AI_CACHE_DIR) */
+      dir?: string;
+      /** Entry time-to-live in seconds (AI_CACHE_TTL) */
+      ttl?: number;
+    };
+    /** JSON file of model prices merged over the defaults (AI_PRICE_TABLE) */
+    priceTable?: string;
+    /** JSONL file recording every AI exchange (AI_AUDIT_LOG) */
+    auditLog?: string;
+  };
+  /** Orchestrator defaults */
+  run?: {
+    /** Scenarios processed at the same time (CONCURRENCY) */
+    concurrency?: number;
+    /** Attempts per scenario (RETRY_ATTEMPTS) */
+    retryAttempts?: number;
+    /** Whether the run goes on after a failed scenario (CONTINUE_ON_FAILURE) */
+    continueOnFailure?: boolean;
+    /** Verbose logging (VERBOSE) */
+    verbose?: boolean;
+    /** Re-runs of a newly generated spec before it is accepted (STABILITY_RUNS) */
+    stabilityRuns?: number;
+    /** Make the re-runs in one Playwright run (STABILITY_REPEAT_EACH) */
+    stabilityRepeatEach?: boolean;
+    /** Suite files or directories (SUITES, comma-separated) */
+    suites?: string[];
+    /** Token/cost limit of each scenario; 0 is unlimited */
+    scenarioBudget?: {
+      /** SCENARIO_MAX_TOKENS */
+      maxTokens?: number;
+      /** SCENARIO_MAX_COST */
+      maxCost?: number;
+    };
+    /** Token/cost limit of the whole run; 0 is unlimited */
+    runBudget?: {
+      /** RUN_MAX_TOKENS */
+      maxTokens?: number;
+      /** RUN_MAX_COST */
+      maxCost?: number;
+    };
+    /** Extra copies of the run reports */
+    reports?: {
+      /** JUnit XML report (REPORT_JUNIT) */
+      junit?: string;
+      /** JSON run summary (REPORT_JSON) */
+      json?: string;
+      /** HTML report (REPORT_HTML) */
+      html?: string;
+    };
+  };
+  /** Code policy allowlist extensions for generated tests */
+  policy?: {
+    /** Hosts besides the BASE_URL host (AI_ALLOWED_HOSTS, comma-separated) */
+    allowedHosts?: string[];
+    /** Modules besides @playwright/test (AI_ALLOWED_IMPORTS, comma-separated) */
+    allowedImports?: string[];
+    /** Globals (AI_ALLOWED_GLOBALS, comma-separated) */
+    allowedGlobals?: string[];
+  };
+  /** Saved logins */
+  sessions?: {
+    /** Directory of login flows, one step plan per role (LOGIN_FLOWS_DIR) */
+    flowsDir?: string;
+    /** Seconds a saved login is reused for (SESSION_TTL) */
+    ttl?: number;
+  };
+  /** Root of generated specs, page objects, run output and reports (AI_WORKSPACE_ROOT) */
+  workspaceRoot?: string;
+}
+
+/**
+ * The resolved configuration
+ */
+export interface Settings {
+  /** Selected environment */
+  ENV: string;
+  /** Base URL of the selected environment */
+  BASE_URL: string;
+  /** Test user of the selected environment */
+  USERNAME: string;
+  /** Password of the test user */
+  PASSWORD: string;
+  /** Time limit of each scenario in ms */
+  SCENARIO_TIMEOUT: number;
+  /** Time limit of each Playwright run of a spec in ms */
+  TEST_TIMEOUT: number;
+  /** Time limit of each login run in ms */
+  LOGIN_TIMEOUT: number;
+  /** Feature flags of the selected environment */
+  FEATURES: Readonly<Record<string, boolean>>;
+  /** Personas of the selected environment, by name */
+  USERS: Readonly<Record<string, Persona>>;
+  /** Test data sets of the selected environment, by name */
+  DATA: Readonly<Record<string, unknown>>;
+  /** Guard mode of the selected environment */
+  GUARD: Readonly<Guard>;
+  /** API key of the hosted OpenAI provider */
+  OPENAI_API_KEY: string;
+  /** AI provider */
+  AI_PROVIDER: AIProvider;
+  /** Base URL of an openai-compatible server */
+  AI_BASE_URL: string;
+  /** Default model override for all agents (optional) */
+  AI_MODEL: string;
+  /** Path to a JSON array of canned responses for the mock provider (optional) */
+  AI_MOCK_RESPONSES: string;
+  /** Whether completions are recorded, replayed or passed through */
+  AI_CASSETTE_MODE: CassetteMode;
+  /** Directory holding recorded completions */
+  AI_CASSETTE_DIR: string;
+  /** Whether AIClient caches completions on disk (default: true) */
+  AI_CACHE_ENABLED: boolean;
+  /** Directory holding cached completions */
+  AI_CACHE_DIR: string;
+  /** Cache entry time-to-live in seconds (default: 7 days) */
+  AI_CACHE_TTL: number;
+  /** Skip cache lookups and force fresh completions */
+  AI_CACHE_BYPASS: boolean;
+  /** JSON file of model prices (USD per 1K tokens) merged over the defaults */
+  AI_PRICE_TABLE: string;
+  /** JSONL file recording every AI exchange */
+  AI_AUDIT_LOG: string;
+  /** Root directory of generated specs, page objects, run output and reports */
+  AI_WORKSPACE_ROOT: string;
+  /** Extra hosts generated tests may navigate to, besides the BASE_URL host */
+  AI_ALLOWED_HOSTS: readonly string[];
+  /** Extra modules generated tests may import, besides @playwright/test */
+  AI_ALLOWED_IMPORTS: readonly string[];
+  /** Extra globals generated tests may reference */
+  AI_ALLOWED_GLOBALS: readonly string[];
+  /** Directory of login flows, one step plan per user role */
+  LOGIN_FLOWS_DIR: string;
+  /** Saved logins are refreshed after this many seconds (default: 1 hour) */
+  SESSION_TTL: number;
+  /** Scenarios processed at the same time */
+  CONCURRENCY: number;
+  /** Attempts per scenario */
+  RETRY_ATTEMPTS: number;
+  /** Whether a run goes on after a failed scenario */
+  CONTINUE_ON_FAILURE: boolean;
+  /** Verbose logging */
+  VERBOSE: boolean;
+  /** Re-runs of a newly generated spec before it is accepted; 0 disables the check */
+  STABILITY_RUNS: number;
+  /** Make the stability runs in one Playwright run with --repeat-each */
+  STABILITY_REPEAT_EACH: boolean;
+  /** Suite files or directories (empty: the default suite directory) */
+  SUITES: readonly string[];
+  /** Token limit of each scenario; 0 is unlimited */
+  SCENARIO_MAX_TOKENS: number;
+  /** Estimated cost limit of each scenario in USD; 0 is unlimited */
+  SCENARIO_MAX_COST: number;
+  /** Token limit of a run; 0 is unlimited */
+  RUN_MAX_TOKENS: number;
+  /** Estimated cost limit of a run in USD; 0 is unlimited */
+  RUN_MAX_COST: number;
+  /** Extra copy of the JUnit report (empty: none) */
+  REPORT_JUNIT: string;
+  /** Extra copy of the JSON run summary (empty: none) */
+  REPORT_JSON: string;
+  /** Extra copy of the HTML report (empty: none) */
+  REPORT_HTML: string;
+}
+
+/**
+ * Custom error for an invalid configuration. Lists every problem found, not
+ * just the one with the setting that was read.
+ */
+export class ConfigError extends Error {
+  constructor(message: string, public readonly issues: string[]) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+// Settings that depend on the selected environment
+const ENVIRONMENT_KEYS = [
+  "ENV", "BASE_URL", "USERNAME", "PASSWORD", "SCENARIO_TIMEOUT", "TEST_TIMEOUT", "LOGIN_TIMEOUT", "FEATURES", "USERS", "DATA", "GUARD"
+] as const;
+type EnvironmentKey = typeof ENVIRONMENT_KEYS[number];
+
+type SettingKind = "string" | "integer" | "number" | "boolean" | "list";
+
+// Where a setting comes from. The environment variable named like the
+// setting overrides the config file, which overrides the default.
+interface SettingSpec {
+  // Path in the config file; absent for settings only read from the environment
+  file?: readonly string[];
+  kind: SettingKind;
+  default: string | number | boolean | readonly string[];
+  // Allowed values of a string setting, compared in lower case
+  oneOf?: readonly string[];
+  // Smallest allowed number (default: 0)
+  min?: number;
+}
+
+const SETTINGS: Record<Exclude<keyof Settings, EnvironmentKey>, SettingSpec> = {
+  OPENAI_API_KEY: { kind: "string", default: "" },
+  AI_PROVIDER: { file: ["ai", "provider"], kind: "string", default: "openai", oneOf: validProviders },
+  AI_BASE_URL: { file: ["ai", "baseUrl"], kind: "string", default: "" },
+  AI_MODEL: { file: ["ai", "model"], kind: "string", default: "" },
+  AI_MOCK_RESPONSES: { file: ["ai", "mockResponses"], kind: "string", default: "" },
+  AI_CASSETTE_MODE: { file: ["ai", "cassetteMode"], kind: "string", default: "passthrough", oneOf: validCassetteModes },
+  AI_CASSETTE_DIR: { file: ["ai", "cassetteDir"], kind: "string", default: "cassettes" },
+  AI_CACHE_ENABLED: { file: ["ai", "cache", "enabled"], kind: "boolean", default: true },
+  AI_CACHE_DIR: { file: ["ai", "cache", "dir"], kind: "string", default: ".ai-cache" },
+  AI_CACHE_TTL: { file: ["ai", "cache", "ttl"], kind: "integer", default: 7 * 24 * 60 * 60, min: 1 },
+  AI_CACHE_BYPASS: { kind: "boolean", default: false },
+  AI_PRICE_TABLE: { file: ["ai", "priceTable"], kind: "string", default: "" },
+  AI_AUDIT_LOG: { file: ["ai", "auditLog"], kind: "string", default: "ai-exchanges.jsonl" },
+  AI_WORKSPACE_ROOT: { file: ["workspaceRoot"], kind: "string", default: "." },
+  AI_ALLOWED_HOSTS: { file: ["policy", "allowedHosts"], kind: "list", default: [] },
+  AI_ALLOWED_IMPORTS: { file: ["policy", "allowedImports"], kind: "list", default: [] },
+  AI_ALLOWED_GLOBALS: { file: ["policy", "allowedGlobals"], kind: "list", default: [] },
+  LOGIN_FLOWS_DIR: { file: ["sessions", "flowsDir"], kind: "string", default: "logins" },
+  SESSION_TTL: { file: ["sessions", "ttl"], kind: "integer", default: 60 * 60, min: 1 },
+  CONCURRENCY: { file: ["run", "concurrency"], kind: "integer", default: 1, min: 1 },
+  RETRY_ATTEMPTS: { file: ["run", "retryAttempts"], kind: "integer", default: 2, min: 1 },
+  CONTINUE_ON_FAILURE: { file: ["run", "continueOnFailure"], kind: "boolean", default: true },
+  VERBOSE: { file: ["run", "verbose"], kind: "boolean", default: false },
+  STABILITY_RUNS: { file: ["run", "stabilityRuns"], kind: "integer", default: 0 },
+  STABILITY_REPEAT_EACH: { file: ["run", "stabilityRepeatEach"], kind: "boolean", default: false },
+  SUITES: { file: ["run", "suites"], kind: "list", default: [] },
+  SCENARIO_MAX_TOKENS: { file: ["run", "scenarioBudget", "maxTokens"], kind: "integer", default: 0 },
+  SCENARIO_MAX_COST: { file: ["run", "scenarioBudget", "maxCost"], kind: "number", default: 0 },
+  RUN_MAX_TOKENS: { file: ["run", "runBudget", "maxTokens"], kind: "integer", default: 0 },
+  RUN_MAX_COST: { file: ["run", "runBudget", "maxCost"], kind: "number", default: 0 },
+  REPORT_JUNIT: { file: ["run", "reports", "junit"], kind: "string", default: "" },
+  REPORT_JSON: { file: ["run", "reports", "json"], kind: "string", default: "" },
+  REPORT_HTML: { file: ["run", "reports", "html"], kind: "string", default: "" }
+};
+
+const ENVIRONMENT_FIELDS: Record<string, readonly string[] | undefined> = {
+  baseUrl: undefined,
+  credentials: ["username", "password"],
+  timeouts: ["scenario", "test", "login"],
+  features: undefined,
+  users: undefined,
+  data: undefined,
+  guard: ["enabled", "mutatingActions", "deniedRoutes", "blockMutatingRequests", "confirmationToken"]
+};
+
+const PERSONA_FIELDS = ["description", "username", "password"];
+
+const DEFAULT_TIMEOUTS = { scenario: 5 * 60 * 1000, test: 30000, login: 60000 };
+
+const DEFAULT_MUTATING_ACTIONS = ["checkout", "confirm", "place order", "buy", "pay", "purchase", "delete", "remove"];
+
+// Environments guarded unless their config says otherwise
+const GUARDED_ENVIRONMENTS = ["prod"];
+
+const NAME_PATTERN = /^[a-z0-9_-]+$/;
+
+// Personas and data sets are referenced as CONFIG.USERS.<name> in generated code
+const IDENTIFIER_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+// A problem and the settings it makes unusable (default: all of them)
+interface Issue {
+  message: string;
+  keys?: readonly (keyof Settings)[];
+}
+
+let cachedFile: { file: ConfigFile; issues: Issue[] } | undefined;
+let cachedConfig: { settings: Settings; issues: Issue[] } | undefined;
+
+/**
+ * Path of the config file
+ */
+export function configFilePath(): string {
+  return process.env["AI_AGENTIC_CONFIG"] || DEFAULT_CONFIG_FILE;
+}
+
+/**
+ * Names of the environments declared in the config file or by a BASE_URL_<ENV>
+ * variable. Reads no credentials, so it works before they are set.
+ */
+export function environmentNames(): string[] {
+  const { file } = readConfigFile();
+  const fromVariables = Object.keys(process.env)
+    .filter(name => name.length > "BASE_URL_".length && name.startsWith("BASE_URL_") && process.env[name])
+    .map(name => name.slice("BASE_URL_".length).toLowerCase());
+  return [...new Set([...Object.keys(file.environments ?? {}), ...fromVariables])];
+}
+
+function configError(issues: Issue[]): ConfigError {
+  const source = fs.existsSync(configFilePath()) ? `${configFilePath()} and the environment` : "the environment";
+  return new ConfigError(
+    `Invalid configuration in ${source} (${issues.length} problem${issues.length === 1 ? "" : "s"})`,
+    issues.map(issue => issue.message)
+  );
+}
+
+/**
+ * Reads and checks the config file once. A missing file is an empty
+ * configuration, unless AI_AGENTIC_CONFIG names it.
+ */
+function readConfigFile(): { file: ConfigFile; issues: Issue[] } {
+  if (cachedFile) {
+    return cachedFile;
+  }
+  const filePath = configFilePath();
+  const issues: Issue[] = [];
+  let value: unknown = {};
+  try {
+    value = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    const missing = (error as NodeJS.ErrnoException).code === "ENOENT";
+    if (!missing || process.env["AI_AGENTIC_CONFIG"]) {
+      issues.push({ message: `${filePath}: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  }
+  if (!isObject(value)) {
+    issues.push({ message: `${filePath}: must be a JSON object` });
+    value = {};
+  }
+  checkConfigFile(value as Record<string, unknown>, issues);
+  cachedFile = { file: value as ConfigFile, issues };
+  return cachedFile;
+}
+
+/**
+ * Reports sections that are not objects, and keys no setting reads, which
+ * are usually typos. Values are checked while resolving.
+ */
+function checkConfigFile(file: Record<string, unknown>, issues: Issue[]): void {
+  const known = new Map<string, Set<string>>([["", new Set(["defaultEnvironment", "environments"])]]);
+  for (const spec of Object.values(SETTINGS)) {
+    spec.file?.forEach((segment, index) => {
+      const section = spec.file?.slice(0, index).join(".") ?? "";
+      known.set(section, (known.get(section) ?? new Set()).add(segment));
+    });
+  }
+  for (const [section, keys] of known) {
+    checkKeys(section ? valueAt(file, section.split(".")) : file, section, [...keys], issues);
+  }
+
+  if (file["defaultEnvironment"] !== undefined && typeof file["defaultEnvironment"] !== "string") {
+    issues.push({ message: "defaultEnvironment: must be a string" });
+  }
+  const environments = file["environments"];
+  if (!isObject(environments)) {
+    return;
+  }
+  for (const [name, environment] of Object.entries(environments)) {
+    const at = `environments.${name}`;
+    if (!NAME_PATTERN.test(name)) {
+      issues.push({ message: `${at}: name must use only lower-case letters, numbers, underscores and hyphens` });
+    }
+    checkKeys(environment, at, Object.keys(ENVIRONMENT_FIELDS), issues);
+    if (!isObject(environment)) {
+      continue;
+    }
+    for (const [field, keys] of Object.entries(ENVIRONMENT_FIELDS)) {
+      if (keys) {
+        checkKeys(environment[field], `${at}.${field}`, keys, issues);
+      }
+    }
+    checkKeys(environment["features"], `${at}.features`, undefined, issues);
+    for (const field of ["users", "data"]) {
+      checkKeys(environment[field], `${at}.${field}`, undefined, issues);
+      for (const [key, value] of Object.entries(isObject(environment[field]) ? environment[field] : {})) {
+        if (!IDENTIFIER_PATTERN.test(key)) {
+          issues.push({ message: `${at}.${field}.${key}: name must use only letters, numbers and underscores` });
+        }
+        checkKeys(value, `${at}.${field}.${key}`, field === "users" ? PERSONA_FIELDS : undefined, issues);
+      }
+    }
+  }
+}
+
+/**
+ * Reports a section that is not an object, and its unknown keys
+ * @param keys Known keys (default: any)
+ */
+function checkKeys(value: unknown, at: string, keys: readonly string[] | undefined, issues: Issue[]): void {
+  if (value === undefined) {
+    return;
+  }
+  if (!isObject(value)) {
+    issues.push({ message: `${at || "config file"}: must be an object` });
+    return;
+  }
+  for (const key of Object.keys(value)) {
+    if (keys && !keys.includes(key)) {
+      issues.push({ message: `${at ? `${at}.` : ""}${key}: is not a known setting` });
+    }
   }
-  return value;
 }
 
-// Get OpenAI API key
-const OPENAI_API_KEY = process.env["OPENAI_API_KEY"];
-if (!OPENAI_API_KEY) {
-  throw new Error("OPENAI_API_KEY environment variable is required");
+/**
+ * Resolves every setting once, collecting problems instead of stopping at the
+ * first, so they can all be reported together
+ */
+function resolveConfig(): { settings: Settings; issues: Issue[] } {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+  const { file, issues: fileIssues } = readConfigFile();
+  const issues = [...fileIssues];
+  const values: Record<string, unknown> = {};
+  for (const [key, spec] of Object.entries(SETTINGS) as [keyof typeof SETTINGS, SettingSpec][]) {
+    values[key] = resolveSetting(key, spec, spec.file ? valueAt(file, spec.file) : undefined, issues);
+  }
+  Object.assign(values, resolveEnvironment(file, issues));
+  const settings = values as unknown as Settings;
+
+  // OpenAI API key is only mandatory for the hosted OpenAI provider,
+  // and not at all when completions are replayed from cassettes
+  if (settings.AI_PROVIDER === "openai" && settings.AI_CASSETTE_MODE !== "replay" && !settings.OPENAI_API_KEY) {
+    issues.push({ message: "OPENAI_API_KEY: required when the AI provider is openai", keys: ["OPENAI_API_KEY"] });
+  }
+  // Base URL is mandatory for OpenAI-compatible servers (llama.cpp, vLLM, ...)
+  if (settings.AI_PROVIDER === "openai-compatible" && !settings.AI_BASE_URL) {
+    issues.push({ message: "ai.baseUrl (AI_BASE_URL): required when the AI provider is openai-compatible", keys: ["AI_BASE_URL"] });
+  }
+
+  // Keep credentials out of logs, prompts and generated code
+  registerSecret(settings.PASSWORD, "PASSWORD");
+  registerSecret(settings.OPENAI_API_KEY, "OPENAI_API_KEY");
+  registerSecret(settings.USERNAME, "USERNAME", "literal");
+  registerSecret(settings.GUARD.confirmationToken, "GUARD.confirmationToken");
+  for (const [name, persona] of Object.entries(settings.USERS)) {
+    registerSecret(persona.password, `USERS.${name}.password`);
+    registerSecret(persona.username, `USERS.${name}.username`, "literal");
+  }
+
+  cachedConfig = { settings, issues };
+  return cachedConfig;
+}
+
+/**
+ * Resolves one setting from its environment variable, the config file or
+ * its default, in that order
+ * @param fileValue Value in the config file, if any
+ */
+function resolveSetting(key: keyof Settings, spec: SettingSpec, fileValue: unknown, issues: Issue[]): unknown {
+  const variable = process.env[key];
+  const source = variable ? key : spec.file ? `${spec.file.join(".")} (${key})` : key;
+  let value: unknown;
+  if (variable) {
+    value = parseVariable(variable, spec.kind);
+  } else if (fileValue !== undefined) {
+    value = spec.kind === "list" && Array.isArray(fileValue) && fileValue.every(item => typeof item === "string")
+      ? fileValue
+      : checkKind(fileValue, spec.kind);
+  } else {
+    return spec.default;
+  }
+
+  let problem: string | undefined;
+  if (value === undefined) {
+    problem = `must be ${describeKind(spec.kind)}`;
+  } else if (spec.oneOf && !spec.oneOf.includes(String(value).toLowerCase())) {
+    problem = `must be one of ${spec.oneOf.join(", ")}`;
+  } else if (typeof value === "number" && value < (spec.min ?? 0)) {
+    problem = `must be at least ${spec.min ?? 0}`;
+  }
+  if (problem) {
+    issues.push({ message: `${source}: ${problem}`, keys: [key] });
+    return spec.default;
+  }
+  return spec.oneOf ? String(value).toLowerCase() : value;
+}
+
+/**
+ * Resolves the settings of the selected environment: ENV, or the config
+ * file's default environment
+ */
+function resolveEnvironment(file: ConfigFile, issues: Issue[]): Pick<Settings, EnvironmentKey> {
+  const env = (process.env["ENV"] || file.defaultEnvironment || "qa").toLowerCase();
+  const suffix = env.toUpperCase().replace(/-/g, "_");
+  const entry: unknown = file.environments?.[env];
+  // Section shapes were checked by checkConfigFile
+  const declared = isObject(entry) ? entry as EnvironmentConfig : {};
+  const names = environmentNames();
+
+  if (!NAME_PATTERN.test(env)) {
+    issues.push({ message: `ENV: invalid environment name ${env}`, keys: ENVIRONMENT_KEYS });
+  } else if (!names.includes(env) && !process.env[`BASE_URL_${suffix}`]) {
+    issues.push({
+      message: `ENV: unknown environment ${env}; declare it in ${configFilePath()} or set BASE_URL_${suffix}` +
+        (names.length > 0 ? ` (declared: ${names.join(", ")})` : ""),
+      keys: ENVIRONMENT_KEYS
+    });
+  }
+
+  const at = `environments.${env}`;
+  const baseUrl = process.env[`BASE_URL_${suffix}`] || (typeof declared.baseUrl === "string" ? declared.baseUrl : "");
+  if (!baseUrl) {
+    issues.push({ message: `${at}.baseUrl (BASE_URL_${suffix}): missing`, keys: ["BASE_URL"] });
+  } else if (!/^https?:\/\/[^/\s]+/.test(baseUrl)) {
+    issues.push({ message: `${at}.baseUrl (BASE_URL_${suffix}): must be an http(s) URL`, keys: ["BASE_URL"] });
+  }
+
+  const credential = (field: "username" | "password", key: "USERNAME" | "PASSWORD"): string => {
+    const configured = declared.credentials?.[field];
+    const variable = typeof configured === "string" && configured ? configured : `${key}_${suffix}`;
+    const value = process.env[variable];
+    if (!value) {
+      issues.push({ message: `${variable}: missing environment variable (${field} of ${env})`, keys: [key] });
+    }
+    return value ?? "";
+  };
+
+  const timeout = (field: keyof typeof DEFAULT_TIMEOUTS, key: EnvironmentKey): number =>
+    resolveSetting(key, {
+      file: [...at.split("."), "timeouts", field],
+      kind: "integer",
+      default: DEFAULT_TIMEOUTS[field],
+      min: 1
+    }, declared.timeouts?.[field], issues) as number;
+
+  const features: Record<string, boolean> = {};
+  for (const [flag, enabled] of Object.entries(isObject(declared.features) ? declared.features : {})) {
+    features[flag] = resolveSetting("FEATURES", {
+      file: [...at.split("."), "features", flag],
+      kind: "boolean",
+      default: false
+    }, enabled, issues) as boolean;
+    const variable = process.env[featureVariable(flag)];
+    if (variable) {
+      const value = parseVariable(variable, "boolean");
+      if (value === undefined) {
+        issues.push({ message: `${featureVariable(flag)}: must be true or false`, keys: ["FEATURES"] });
+      } else {
+        features[flag] = value as boolean;
+      }
+    }
+  }
+
+  const users: Record<string, Persona> = {};
+  for (const [name, persona] of Object.entries(isObject(declared.users) ? declared.users : {})) {
+    const variable = (field: "username" | "password"): string => {
+      const configured = isObject(persona) ? persona[field] : undefined;
+      if (configured === undefined) {
+        return "";
+      }
+      if (typeof configured !== "string" || !configured) {
+        issues.push({ message: `${at}.users.${name}.${field}: must name an environment variable`, keys: ["USERS"] });
+        return "";
+      }
+      const value = process.env[configured];
+      if (!value) {
+        issues.push({ message: `${configured}: missing environment variable (${field} of ${name} in ${env})`, keys: ["USERS"] });
+      }
+      return value ?? "";
+    };
+    if (isObject(persona) && (persona["username"] === undefined) !== (persona["password"] === undefined)) {
+      issues.push({ message: `${at}.users.${name}: needs both a username and a password, or neither`, keys: ["USERS"] });
+    }
+    const description = isObject(persona) ? persona["description"] : undefined;
+    if (description !== undefined && typeof description !== "string") {
+      issues.push({ message: `${at}.users.${name}.description: must be a string`, keys: ["USERS"] });
+    }
+    users[name] = {
+      description: typeof description === "string" ? description : "",
+      username: variable("username"),
+      password: variable("password")
+    };
+  }
+
+  return {
+    ENV: env,
+    BASE_URL: baseUrl,
+    USERNAME: credential("username", "USERNAME"),
+    PASSWORD: credential("password", "PASSWORD"),
+    SCENARIO_TIMEOUT: timeout("scenario", "SCENARIO_TIMEOUT"),
+    TEST_TIMEOUT: timeout("test", "TEST_TIMEOUT"),
+    LOGIN_TIMEOUT: timeout("login", "LOGIN_TIMEOUT"),
+    FEATURES: features,
+    USERS: users,
+    DATA: isObject(declared.data) ? declared.data : {},
+    GUARD: resolveGuard(file, env, issues)
+  };
+}
+
+/**
+ * Guard mode of an environment, from the config file alone, so the server can
+ * check a run against another environment than its own before starting it
+ * @param env Environment name
+ * @throws {ConfigError} If the environment's guard is misconfigured
+ */
+export function environmentGuard(env: string): Guard {
+  const issues: Issue[] = [];
+  const guard = resolveGuard(readConfigFile().file, env, issues);
+  if (issues.length > 0) {
+    throw configError(issues);
+  }
+  registerSecret(guard.confirmationToken, "GUARD.confirmationToken");
+  return guard;
+}
+
+/**
+ * A persona of the selected environment. Generated specs read persona
+ * credentials through it, e.g. persona('admin').password, which type-checks
+ * where CONFIG.USERS.admin would not.
+ * @param name Persona name, as declared in the environment's users
+ * @throws {ConfigError} If the environment declares no such persona
+ */
+export function persona(name: string): Persona {
+  const users = CONFIG.USERS;
+  const found = Object.hasOwn(users, name) ? users[name] : undefined;
+  if (!found) {
+    const declared = Object.keys(users);
+    throw new ConfigError(`Unknown persona ${name} in ${CONFIG.ENV}`, [
+      `${name}: not among the users of ${CONFIG.ENV} (${declared.length > 0 ? `declared: ${declared.join(", ")}` : "none declared"})`
+    ]);
+  }
+  return found;
+}
+
+function resolveGuard(file: ConfigFile, env: string, issues: Issue[]): Guard {
+  const at = `environments.${env}.guard`;
+  const entry: unknown = valueAt(file, ["environments", env, "guard"]);
+  const declared: Record<string, unknown> = isObject(entry) ? entry : {};
+  const field = <T>(name: keyof GuardConfig, kind: SettingKind, fallback: T): T => {
+    const value = declared[name];
+    if (value === undefined) {
+      return fallback;
+    }
+    const valid = kind === "list"
+      ? Array.isArray(value) && value.every(item => typeof item === "string" && item.trim())
+      : checkKind(value, kind) !== undefined && value !== "";
+    if (!valid) {
+      issues.push({
+        message: `${at}.${name}: must be ${kind === "list" ? "a list of non-empty strings" : describeKind(kind)}`,
+        keys: ["GUARD"]
+      });
+      return fallback;
+    }
+    return value as T;
+  };
+
+  const confirmationVariable = field("confirmationToken", "string", `CONFIRM_${env.toUpperCase().replace(/-/g, "_")}`);
+  return {
+    enabled: field("enabled", "boolean", GUARDED_ENVIRONMENTS.includes(env)),
+    mutatingActions: field<readonly string[]>("mutatingActions", "list", DEFAULT_MUTATING_ACTIONS),
+    deniedRoutes: field<readonly string[]>("deniedRoutes", "list", []),
+    blockMutatingRequests: field("blockMutatingRequests", "boolean", false),
+    confirmationVariable,
+    confirmationToken: process.env[confirmationVariable] ?? ""
+  };
+}
+
+/**
+ * Environment variable overriding a feature flag, e.g. FEATURE_NEW_CHECKOUT
+ * for new-checkout
+ */
+function featureVariable(flag: string): string {
+  return `FEATURE_${flag.toUpperCase().replace(/[^A-Z0-9]/g, "_")}`;
+}
+
+function parseVariable(value: string, kind: SettingKind): unknown {
+  switch (kind) {
+    case "string":
+      return value;
+    case "list":
+      return value.split(",").map(item => item.trim()).filter(Boolean);
+    case "boolean":
+      return value === "true" ? true : value === "false" ? false : undefined;
+    default:
+      return value.trim() === "" ? undefined : checkKind(Number(value), kind);
+  }
+}
+
+/**
+ * Returns the value if it is of the kind, undefined otherwise
+ */
+function checkKind(value: unknown, kind: SettingKind): unknown {
+  switch (kind) {
+    case "string":
+      return typeof value === "string" ? value : undefined;
+    case "boolean":
+      return typeof value === "boolean" ? value : undefined;
+    case "integer":
+      return Number.isInteger(value) ? value : undefined;
+    case "number":
+      return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+    default:
+      return undefined;
+  }
+}
+
+function describeKind(kind: SettingKind): string {
+  return {
+    string: "a string",
+    integer: "an integer",
+    number: "a number",
+    boolean: "true or false",
+    list: "a list of strings"
+  }[kind];
+}
+
+function valueAt(value: unknown, keys: readonly string[]): unknown {
+  return keys.reduce<unknown>((current, key) => isObject(current) ? current[key] : undefined, value);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Names of every setting, for listing them without reading the configuration
+ */
+export const SETTING_NAMES: readonly (keyof Settings)[] = [...ENVIRONMENT_KEYS, ...Object.keys(SETTINGS)] as (keyof Settings)[];
+
+/**
+ * Returns a setting, resolving the configuration on first use
+ * @throws {ConfigError} If a problem affects the setting; lists every problem
+ */
+function setting(key: keyof Settings): unknown {
+  const { settings, issues } = resolveConfig();
+  if (issues.some(issue => !issue.keys || issue.keys.includes(key))) {
+    throw configError(issues);
+  }
+  return settings[key];
 }
 
-// Export typed configuration
-export const CONFIG = {
-  ENV: env as Environment,
-  BASE_URL: getEnvVariable("BASE_URL", env),
-  USERNAME: getEnvVariable("USERNAME", env),
-  PASSWORD: getEnvVariable("PASSWORD", env),
-  OPENAI_API_KEY
-} as const;
+/**
+ * The configuration, read from the config file with environment variables
+ * overriding it. Nothing is read until a setting is first used, and reading
+ * a setting only fails if that setting is unusable, so importing this module
+ * never throws: a missing password stops a run, not the web server.
+ */
+export const CONFIG: Readonly<Settings> = new Proxy({} as Settings, {
+  get: (_, key) => typeof key === "string" && SETTING_NAMES.includes(key as keyof Settings)
+    ? setting(key as keyof Settings)
+    : undefined,
+  has: (_, key) => typeof key === "string" && SETTING_NAMES.includes(key as keyof Settings),
+  ownKeys: () => [...SETTING_NAMES],
+  getOwnPropertyDescriptor: (_, key) => typeof key === "string" && SETTING_NAMES.includes(key as keyof Settings)
+    ? { value: setting(key as keyof Settings), enumerable: true, configurable: true, writable: false }
+    : undefined
+});
@@ -0,0 +1,303 @@
+import fs from "fs";
+import path from "path";
+import { queryExchanges } from "../agents/auditLog.js";
+import type { AIExchange } from "../agents/auditLog.js";
+import { TestHistory } from "../agents/testHistory.js";
+import { redactSecrets } from "../utils/redaction.js";
+import { diffLines } from "../utils/textDiff.js";
+import type { AttemptRecord } from "../utils/rerunHandler.js";
+import type { TestAttachment } from "../utils/testExecutor.js";
+import type { RunStats, ScenarioResult } from "./orchestrator.js";
+
+/**
+ * A single static HTML page per run that connects each scenario's prompt to
+ * the specs generated for it, the AI exchanges behind them and the outcome
+ * of their Playwright runs. Screenshots are embedded so the page works
+ * offline on its own; traces and videos are linked relative to the page.
+ */
+
+// Larger screenshots are linked instead of embedded
+const MAX_EMBEDDED_BYTES = 2 * 1024 * 1024;
+
+// Unchanged lines shown around each change of a diff
+const DIFF_CONTEXT = 3;
+
+const STYLES = `
+  body { font-family: Arial, sans-serif; margin: 16px; color: #222; }
+  h1 { font-size: 22px; } h2 { font-size: 18px; margin-top: 28px; } h3 { font-size: 15px; }
+  table { border-collapse: collapse; margin-bottom: 12px; }
+  th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; font-size: 13px; }
+  pre { background: #f6f6f6; padding: 8px; overflow-x: auto; font-size: 12px; white-space: pre-wrap; }
+  details { margin: 6px 0; } summary { cursor: pointer; }
+  section.scenario { border-top: 2px solid #ddd; }
+  div.attempt { border-left: 3px solid #ddd; padding-left: 12px; margin: 12px 0; }
+  .passed, .accepted { color: #080; }
+  .failed, .timedOut, .error { color: #c00; }
+  .aborted { color: #888; }
+  .quarantined, .flaky, .warning { color: #b60; }
+  .diff .add { background: #e6ffec; } .diff .del { background: #ffebe9; } .diff .hunk { color: #888; }
+  img.screenshot { max-width: 100%; border: 1px solid #ccc; margin: 4px 0; }
+`;
+
+/**
+ * Renders a run as a self-contained HTML page
+ * @param stats The run
+ * @param outputPath Where the page will be written; links to artifacts are relative to it
+ */
+export async function renderHtmlReport(stats: RunStats, outputPath: string): Promise<string> {
+  const exchanges = await queryExchanges({ runId: stats.runId });
+  const history = new TestHistory();
+  const sections: string[] = [];
+  for (const scenario of stats.scenarios) {
+    sections.push(await renderScenario(
+      scenario,
+      exchanges.filter(exchange => exchange.scenario === scenario.tag),
+      history,
+      path.dirname(path.resolve(outputPath))
+    ));
+  }
+
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>${escape(`Run ${stats.runId}`)}</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  <h1>Run ${escape(stats.runId)}</h1>
+${renderRunSummary(stats)}
+  <table>
+    <tr><th>Scenario</th><th>Status</th><th>Attempts</th><th>Duration</th><th>Tokens</th></tr>
+${stats.scenarios.map(scenario => `    <tr><td><a href="#${anchor(scenario.tag)}">${escape(scenario.tag)}</a></td>` +
+  `<td>${status(scenario)}</td><td>${scenario.attempts.length}</td>` +
+  `<td>${seconds(scenario.duration)}</td><td>${scenario.usage.totalTokens}</td></tr>`).join("\n")}
+  </table>
+${sections.join("\n")}
+</body>
+</html>
+`;
+}
+
+/**
+ * Renders a run and writes it to a file
+ */
+export async function writeHtmlReport(stats: RunStats, outputPath: string): Promise<void> {
+  const html = await renderHtmlReport(stats, outputPath);
+  await fs.promises.mkdir(path.dirname(path.resolve(outputPath)), { recursive: true });
+  await fs.promises.writeFile(outputPath, html, "utf-8");
+}
+
+function renderRunSummary(stats: RunStats): string {
+  const rows: [string, string][] = [
+    ["Environment", stats.env],
+    ["Selection", stats.selection ?? "all scenarios"],
+    ["Started", stats.startTime],
+    ["Duration", seconds(stats.duration ?? 0)],
+    ["Scenarios", `${stats.total} total, ${stats.passed} passed, ${stats.failed.length} failed, ` +
+      `${stats.timedOut.length} timed out, ${stats.aborted.length} aborted, ${stats.quarantined.length} quarantined`],
+    ["Tests", `${stats.tests.passed} passed, ${stats.tests.failed} failed, ${stats.tests.flaky} flaky, ${stats.tests.skipped} skipped`]
+  ];
+  if (stats.usage) {
+    rows.push(["AI usage", `${stats.usage.totalTokens} tokens in ${stats.usage.requests} requests, est. $${stats.usage.cost.toFixed(4)}`]);
+  }
+  return `  <table>\n${rows.map(([name, value]) => `    <tr><th>${name}</th><td>${escape(value)}</td></tr>`).join("\n")}\n  </table>`;
+}
+
+async function renderScenario(
+  scenario: ScenarioResult,
+  exchanges: AIExchange[],
+  history: TestHistory,
+  reportDir: string
+): Promise<string> {
+  const parts = [
+    `<section class="scenario" id="${anchor(scenario.tag)}">`,
+    `<h2>${escape(scenario.tag)}: ${status(scenario)}</h2>`,
+    `<p>${escape(scenario.description)}</p>`,
+    `<table>`,
+    `<tr><th>Suite</th><td>${escape(scenario.suite)}</td></tr>`,
+    `<tr><th>Labels</th><td>${escape(scenario.labels.join(" ") || "-")}</td></tr>`,
+    `<tr><th>Priority</th><td>${escape(scenario.priority)}${scenario.owner ? `, owner ${escape(scenario.owner)}` : ""}</td></tr>`,
+    `<tr><th>Duration</th><td>${seconds(scenario.duration)}</td></tr>`,
+    `<tr><th>AI usage</th><td>${scenario.usage.totalTokens} tokens in ${scenario.usage.requests} requests, ` +
+      `est. $${scenario.usage.cost.toFixed(4)}${scenario.models.length > 0 ? ` (${escape(scenario.models.join(", "))})` : ""}</td></tr>`,
+    `</table>`,
+    `<h3>Prompt</h3>`,
+    `<pre>${escape(scenario.prompt)}</pre>`
+  ];
+  if (scenario.expandedPrompt !== undefined && scenario.expandedPrompt !== scenario.prompt) {
+    parts.push(`<h3>Interpolated prompt</h3>`, `<pre>${escape(scenario.expandedPrompt)}</pre>`);
+  }
+
+  let previous: { attempt: number; content: string } | undefined;
+  for (const attempt of scenario.attempts) {
+    const content = await specContent(history, scenario.tag, attempt);
+    parts.push(await renderAttempt(
+      attempt,
+      content,
+      previous,
+      exchanges.filter(exchange => exchange.attempt === attempt.attempt),
+      reportDir
+    ));
+    if (content !== undefined) {
+      previous = { attempt: attempt.attempt, content };
+    }
+  }
+  if (scenario.attempts.length === 0) {
+    parts.push(`<p class="aborted">No attempts were made.</p>`);
+  }
+
+  parts.push(`</section>`);
+  return parts.join("\n");
+}
+
+async function renderAttempt(
+  attempt: AttemptRecord,
+  content: string | undefined,
+  previous: { attempt: number; content: string } | undefined,
+  exchanges: AIExchange[],
+  reportDir: string
+): Promise<string> {
+  const parts = [
+    `<div class="attempt">`,
+    `<h3>Attempt ${attempt.attempt}: ${escape(attempt.mode)}` +
+      (attempt.revision !== undefined ? ` r${attempt.revision}` : "") +
+      ` <span class="${attempt.passed ? "passed" : "failed"}">${attempt.passed ? "passed" : "failed"}</span>` +
+      ` in ${seconds(attempt.duration)}</h3>`
+  ];
+  if (attempt.error) {
+    parts.push(`<pre class="error">${escape(attempt.error)}</pre>`);
+  }
+  if (attempt.stability) {
+    const stability = attempt.stability;
+    parts.push(`<p>Stability check: <span class="${stability.verdict}">${stability.verdict}</span>, ` +
+      `${stability.passed}/${stability.runs} runs passed${stability.repeatEach ? " (--repeat-each)" : ""}</p>`);
+  }
+  if (attempt.warnings && attempt.warnings.length > 0) {
+    parts.push(`<p>Validation warnings:</p>`,
+      `<ul class="warning">${attempt.warnings.map(warning => `<li>${escape(warning)}</li>`).join("")}</ul>`);
+  }
+
+  if (content !== undefined) {
+    parts.push(`<details><summary>Generated spec</summary><pre>${escape(content)}</pre></details>`);
+    if (previous) {
+      parts.push(`<details open><summary>Changes since attempt ${previous.attempt}</summary>${renderDiff(previous.content, content)}</details>`);
+    }
+  }
+
+  const execution = attempt.execution;
+  if (execution) {
+    const failed = execution.tests.filter(test => !["passed", "flaky", "skipped"].includes(test.status));
+    parts.push(`<p>Playwright: <span class="${execution.status}">${execution.status}</span>, ` +
+      `${execution.stats.passed} passed, ${execution.stats.failed} failed, ${execution.stats.flaky} flaky, ` +
+      `${execution.stats.skipped} skipped in ${seconds(execution.duration)}</p>`);
+    for (const test of failed) {
+      parts.push(`<p><b>${escape(test.title)}</b> <span class="${test.status}">${test.status}</span></p>`,
+        ...test.errors.map(error => `<pre class="error">${escape(error.message)}` +
+          (error.location ? `\n  at ${escape(error.location.file)}:${error.location.line}:${error.location.column}` : "") +
+          `</pre>`));
+    }
+    for (const error of execution.errors) {
+      parts.push(`<pre class="error">${escape(error.message)}</pre>`);
+    }
+    for (const attachment of execution.tests.flatMap(test => test.attachments)) {
+      parts.push(await renderAttachment(attachment, reportDir));
+    }
+  }
+
+  if (exchanges.length > 0) {
+    parts.push(`<details><summary>AI exchanges (${exchanges.length})</summary>`,
+      ...exchanges.map(renderExchange),
+      `</details>`);
+  }
+
+  parts.push(`</div>`);
+  return parts.join("\n");
+}
+
+function renderDiff(oldText: string, newText: string): string {
+  const lines = diffLines(oldText, newText);
+  if (lines.every(line => line.kind === " ")) {
+    return `<p>No changes</p>`;
+  }
+  const shown = lines.map((_, index) =>
+    lines.slice(Math.max(0, index - DIFF_CONTEXT), index + DIFF_CONTEXT + 1).some(near => near.kind !== " "));
+  const output: string[] = [];
+  lines.forEach((line, index) => {
+    if (!shown[index]) {
+      if (shown[index - 1]) {
+        output.push(`<span class="hunk">…</span>`);
+      }
+      return;
+    }
+    const kind = line.kind === "+" ? "add" : line.kind === "-" ? "del" : "same";
+    output.push(`<span class="${kind}">${line.kind}${escape(line.text)}</span>`);
+  });
+  return `<pre class="diff">${output.join("\n")}</pre>`;
+}
+
+async function renderAttachment(attachment: TestAttachment, reportDir: string): Promise<string> {
+  const link = `<a href="${escape(encodeURI(path.relative(reportDir, attachment.path).split(path.sep).join("/")))}">` +
+    `${escape(attachment.name)}</a>`;
+  if (!attachment.contentType.startsWith("image/")) {
+    return `<p>${link} (${escape(attachment.contentType)})</p>`;
+  }
+  try {
+    const stat = await fs.promises.stat(attachment.path);
+    if (stat.size > MAX_EMBEDDED_BYTES) {
+      return `<p>${link} (${Math.round(stat.size / 1024)} KB, not embedded)</p>`;
+    }
+    const data = await fs.promises.readFile(attachment.path);
+    return `<p>${link}</p><img class="screenshot" alt="${escape(attachment.name)}" ` +
+      `src="data:${escape(attachment.contentType)};base64,${data.toString("base64")}" />`;
+  } catch {
+    return `<p>${link} (missing)</p>`;
+  }
+}
+
+function renderExchange(exchange: AIExchange): string {
+  return [
+    `<details><summary>${escape(exchange.timestamp)} ${escape(exchange.provider)}/${escape(exchange.model)}, ` +
+      `${exchange.usage?.totalTokens ?? 0} tokens, ${exchange.latencyMs}ms${exchange.cached ? ", cached" : ""}` +
+      `${exchange.error ? `, <span class="error">${escape(exchange.error)}</span>` : ""}</summary>`,
+    `<p>Prompt</p><pre>${escape(exchange.prompt)}</pre>`,
+    ...(exchange.completion !== undefined ? [`<p>Completion</p><pre>${escape(exchange.completion)}</pre>`] : []),
+    `</details>`
+  ].join("\n");
+}
+
+/**
+ * The spec an attempt ran, from the test history (secrets masked)
+ */
+async function specContent(history: TestHistory, tag: string, attempt: AttemptRecord): Promise<string | undefined> {
+  if (attempt.revision === undefined) {
+    return undefined;
+  }
+  try {
+    return redactSecrets((await history.get(tag, attempt.revision)).content);
+  } catch {
+    return undefined;
+  }
+}
+
+function status(scenario: ScenarioResult): string {
+  return `<span class="${scenario.status}">${scenario.status}</span>` +
+    (scenario.quarantined ? ` <span class="quarantined">[quarantined]</span>` : "");
+}
+
+function anchor(tag: string): string {
+  return `scenario-${tag.replace(/[^A-Za-z0-9_-]/g, "-")}`;
+}
+
+function seconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function escape(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
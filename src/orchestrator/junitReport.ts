@@ -0,0 +1,169 @@
+import path from "path";
+import { workspace } from "../utils/workspace.js";
+import type { AttemptRecord } from "../utils/rerunHandler.js";
+import type { TestCaseError } from "../utils/testExecutor.js";
+import type { RunStats, ScenarioResult } from "./orchestrator.js";
+
+/**
+ * JUnit XML for CI servers. Every scenario is a testcase, grouped into a
+ * testsuite per suite file:
+ * - failed and timedOut scenarios carry a <failure> with the Playwright error
+ * - aborted scenarios carry an <error>, as nothing is known about them
+ * - quarantined scenarios are <skipped>, so they do not fail the build
+ * <system-out> holds the generated spec and the attempt history.
+ */
+
+// Characters XML 1.0 does not allow, even escaped
+const INVALID_XML_CHARS = /[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu;
+
+/**
+ * Renders a run as a JUnit XML document
+ */
+export function renderJUnitReport(stats: RunStats): string {
+  const suites = new Map<string, ScenarioResult[]>();
+  for (const scenario of stats.scenarios) {
+    suites.set(scenario.suite, [...suites.get(scenario.suite) ?? [], scenario]);
+  }
+
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites ${attributes({
+      name: `ai-agentic ${stats.env}`,
+      ...counts(stats.scenarios),
+      time: seconds(stats.duration ?? 0),
+      timestamp: stats.startTime
+    })}>`
+  ];
+  for (const [suite, scenarios] of suites) {
+    lines.push(
+      `  <testsuite ${attributes({
+        name: suite,
+        ...counts(scenarios),
+        time: seconds(scenarios.reduce((sum, scenario) => sum + scenario.duration, 0)),
+        timestamp: stats.startTime
+      })}>`,
+      "    <properties>",
+      ...Object.entries({ runId: stats.runId, env: stats.env, selection: stats.selection })
+        .filter(([, value]) => value !== undefined)
+        .map(([name, value]) => `      <property ${attributes({ name, value: value! })}/>`),
+      "    </properties>",
+      ...scenarios.flatMap(testcase),
+      "  </testsuite>"
+    );
+  }
+  lines.push("</testsuites>");
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Renders one scenario as a testcase
+ */
+function testcase(scenario: ScenarioResult): string[] {
+  const lines = [`    <testcase ${attributes({
+    name: scenario.tag,
+    classname: scenario.suite,
+    time: seconds(scenario.duration)
+  })}>`];
+
+  const last = scenario.attempts[scenario.attempts.length - 1];
+  if (scenario.quarantined) {
+    lines.push(`      <skipped ${attributes({ message: `Quarantined as flaky (${scenario.status})` })}/>`);
+  } else if (scenario.status === "aborted") {
+    lines.push(`      <error ${attributes({ message: last?.error ?? "Scenario aborted before it finished", type: "aborted" })}/>`);
+  } else if (scenario.status !== "passed") {
+    const errors = last?.execution ? failureErrors(last) : [];
+    const message = scenario.status === "timedOut"
+      ? "Scenario timed out"
+      : errors[0]?.message.split("\n")[0] ?? last?.error ?? "Scenario failed";
+    const body = errors.length > 0
+      ? errors.map(describeError).join("\n\n")
+      : last?.error ?? "";
+    lines.push(`      <failure ${attributes({ message, type: scenario.status })}>${escape(body)}</failure>`);
+  }
+
+  lines.push(`      <system-out>${escape(systemOut(scenario))}</system-out>`, "    </testcase>");
+  return lines;
+}
+
+/**
+ * Errors of the failed tests of an attempt, or of the run if no test failed
+ */
+function failureErrors(attempt: AttemptRecord): TestCaseError[] {
+  const execution = attempt.execution!;
+  const failed = execution.tests.filter(test => !["passed", "flaky", "skipped"].includes(test.status));
+  const errors = failed.flatMap(test => test.errors);
+  return errors.length > 0 ? errors : execution.errors;
+}
+
+/**
+ * Message and stack of an error; Playwright stacks usually start with the message
+ */
+function describeError(error: TestCaseError): string {
+  if (!error.stack) {
+    return error.message;
+  }
+  return error.stack.startsWith(error.message.split("\n")[0]!) ? error.stack : `${error.message}\n${error.stack}`;
+}
+
+/**
+ * Describes a scenario's spec, attempts and attachments
+ */
+function systemOut(scenario: ScenarioResult): string {
+  const lines = [
+    `Scenario: ${scenario.description}`,
+    `Labels: ${scenario.labels.join(" ") || "-"}`,
+    `Priority: ${scenario.priority}${scenario.owner ? `, owner: ${scenario.owner}` : ""}`
+  ];
+  if (scenario.attempts.some(attempt => attempt.revision !== undefined || attempt.execution)) {
+    lines.push(`Spec: ${relative(workspace.specPath(scenario.tag))}`);
+  }
+  lines.push("Attempts:");
+  if (scenario.attempts.length === 0) {
+    lines.push("  none");
+  }
+  for (const attempt of scenario.attempts) {
+    lines.push(`  ${attempt.attempt}. ${attempt.mode}` +
+      (attempt.revision !== undefined ? ` r${attempt.revision}` : "") +
+      ` ${attempt.passed ? "passed" : "failed"} in ${seconds(attempt.duration)}s` +
+      (attempt.stability ? `, stability ${attempt.stability.verdict} ${attempt.stability.passed}/${attempt.stability.runs}` : "") +
+      (attempt.error ? `: ${attempt.error.split("\n")[0]}` : ""));
+  }
+  const attachments = scenario.attempts[scenario.attempts.length - 1]?.execution?.tests.flatMap(test => test.attachments) ?? [];
+  if (attachments.length > 0) {
+    lines.push("Attachments:", ...attachments.map(attachment => `  ${attachment.name}: ${relative(attachment.path)}`));
+  }
+  lines.push(`AI usage: ${scenario.usage.totalTokens} tokens, est. $${scenario.usage.cost.toFixed(4)}` +
+    (scenario.models.length > 0 ? ` (${scenario.models.join(", ")})` : ""));
+  return lines.join("\n");
+}
+
+function counts(scenarios: ScenarioResult[]): Record<string, number> {
+  return {
+    tests: scenarios.length,
+    failures: scenarios.filter(s => !s.quarantined && (s.status === "failed" || s.status === "timedOut")).length,
+    errors: scenarios.filter(s => !s.quarantined && s.status === "aborted").length,
+    skipped: scenarios.filter(s => s.quarantined).length
+  };
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function relative(file: string): string {
+  return path.relative(process.cwd(), file) || file;
+}
+
+function attributes(values: Record<string, string | number>): string {
+  return Object.entries(values).map(([name, value]) => `${name}="${escape(String(value))}"`).join(" ");
+}
+
+function escape(value: string): string {
+  return value
+    .replace(INVALID_XML_CHARS, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -1,7 +1,29 @@
-import { CONFIG } from "../config.js";
-import { runWithRetries } from "../utils/rerunHandler.js";
 import fs from "fs";
+import path from "path";
+import { CONFIG, SETTING_NAMES, environmentNames } from "../config.js";
+import { defaultModel, getCacheStats } from "../agents/aiClient.js";
+import { generateTest } from "../agents/testGenerator.js";
+import { TestHistory } from "../agents/testHistory.js";
+import { BudgetExceededError, usageLedger } from "../agents/usageLedger.js";
+import type { UsageBudget, UsageTotals } from "../agents/usageLedger.js";
+import { enforceCodePolicy, formatViolations, PolicyViolationError } from "../utils/codePolicy.js";
+import { RerunError, runWithRetries } from "../utils/rerunHandler.js";
+import type { AttemptRecord } from "../utils/rerunHandler.js";
+import { describeStability } from "../utils/flakinessGate.js";
+import { Quarantine } from "../utils/quarantine.js";
+import { RESULT_LINE_PREFIX } from "../utils/testExecutor.js";
+import type { ExecutionResult } from "../utils/testExecutor.js";
+import { runPool } from "../utils/workerPool.js";
+import { sessionManager } from "../utils/sessionManager.js";
+import { DEFAULT_SUITE_DIR, loadSuites, selectScenarios } from "./suite.js";
+import type { Priority, Scenario } from "./suite.js";
+import { parseTagExpression } from "./tagExpression.js";
+import { RunHistory } from "./runHistory.js";
+import { renderJUnitReport } from "./junitReport.js";
+import { writeHtmlReport } from "./htmlReport.js";
+import { createRunId, workspace } from "../utils/workspace.js";
 import { createLogger, format, transports } from "winston";
+import { redactFormat, redactSecrets } from "../utils/redaction.js";
 
 /**
  * Custom error for orchestration failures
@@ -14,55 +36,169 @@ export class OrchestrationError extends Error {
 }
 
 /**
- * Test prompt definition
+ * Final status of a scenario:
+ * - timedOut: killed after the scenario timeout
+ * - aborted: cancelled by a signal or a stopped run, or never started
  */
-interface TestPrompt {
-  /** Unique identifier for the test */
+export type ScenarioStatus = "passed" | "failed" | "timedOut" | "aborted";
+
+/**
+ * Outcome of one scenario of a run
+ */
+export interface ScenarioResult {
+  /** Scenario tag */
   tag: string;
-  /** Human-readable test description */
+  /** Human-readable description */
   description: string;
-  /** The test generation prompt */
+  /** Scenario labels */
+  labels: string[];
+  /** Scenario priority */
+  priority: Priority;
+  /** Team or person responsible for the scenario */
+  owner?: string;
+  /** Suite file the scenario is defined in, relative to the working directory */
+  suite: string;
+  /** The prompt as written in the suite (secrets masked) */
   prompt: string;
+  /** The prompt with configuration placeholders filled in, as sent to the generator (secrets masked) */
+  expandedPrompt?: string;
+  /** Final status */
+  status: ScenarioStatus;
+  /** Whether the scenario is quarantined; it then counts as neither passed nor failed */
+  quarantined: boolean;
+  /** Attempts, each a fresh generation, a repair or a locked revision; console output is left out */
+  attempts: AttemptRecord[];
+  /** Time taken by the scenario in ms */
+  duration: number;
+  /** AI token usage and estimated cost of the scenario */
+  usage: UsageTotals;
+  /** AI models the scenario was generated with */
+  models: string[];
 }
 
 /**
  * Test run statistics
  */
-interface RunStats {
+export interface RunStats {
+  /** Unique identifier of the run */
+  runId: string;
+  /** Environment the run targeted */
+  env: string;
+  /** Tag expression the scenarios were selected by (absent: every scenario) */
+  selection?: string;
   /** Total number of scenarios */
   total: number;
   /** Number of passed scenarios */
   passed: number;
   /** Array of failed scenario tags */
   failed: string[];
-  /** Start time of the run */
-  startTime: Date;
-  /** End time of the run */
-  endTime?: Date;
+  /** Tags of scenarios killed after the scenario timeout */
+  timedOut: string[];
+  /** Tags of scenarios cancelled before they finished or started */
+  aborted: string[];
+  /** Quarantined scenario tags; they run but count as neither passed nor failed */
+  quarantined: string[];
+  /** Start time of the run (ISO 8601) */
+  startTime: string;
+  /** End time of the run (ISO 8601) */
+  endTime?: string;
   /** Duration in milliseconds */
   duration?: number;
+  /** Outcome of every scenario, in the order they finished */
+  scenarios: ScenarioResult[];
+  /** Playwright test counts over the final attempt of every scenario */
+  tests: ExecutionResult["stats"];
+  /** AI response cache hits and misses */
+  cache?: {
+    hits: number;
+    misses: number;
+  };
+  /** AI token usage and estimated cost, overall and per model */
+  usage?: UsageTotals & {
+    byModel: Record<string, UsageTotals>;
+  };
 }
 
 /**
  * Orchestrator configuration
  */
-interface OrchestratorConfig {
-  /** Maximum concurrent test runs */
+export interface OrchestratorConfig {
+  /** Maximum concurrent scenarios; a new one starts as soon as one finishes */
   concurrency?: number;
-  /** Timeout for each scenario in ms */
+  /** Timeout for each scenario in ms; cancels its AI requests and kills its Playwright run */
   scenarioTimeout?: number;
+  /** Time limit of each Playwright run of a spec in ms */
+  testTimeout?: number;
   /** Number of retry attempts */
   retryAttempts?: number;
   /** Whether to continue on failure */
   continueOnFailure?: boolean;
   /** Whether to enable verbose logging */
   verbose?: boolean;
+  /** Token/cost limit for each scenario (unset fields are unlimited) */
+  scenarioBudget?: UsageBudget;
+  /** Token/cost limit for the whole run (unset fields are unlimited) */
+  runBudget?: UsageBudget;
+  /** Times a newly generated or repaired spec is re-run after passing; 0 disables the check */
+  stabilityRuns?: number;
+  /** Make the stability runs in one Playwright run with --repeat-each */
+  stabilityRepeatEach?: boolean;
+  /** Suite files or directories to load scenarios from */
+  suites?: string[];
+  /** Playwright reporter of every spec run */
+  reporter?: string;
+  /**
+   * Extra copies of the run reports for CI, written besides the ones in the
+   * run's folder (default: none)
+   */
+  reports?: {
+    /** JUnit XML report, one testcase per scenario */
+    junit?: string;
+    /** JSON run summary */
+    json?: string;
+    /** Self-contained HTML report */
+    html?: string;
+  };
+}
+
+/**
+ * Options of a single run or generation pass
+ */
+export interface RunSuiteOptions extends OrchestratorConfig {
+  /** Tag expression selecting scenarios, e.g. "@smoke and not @slow" (default: every scenario) */
+  selection?: string;
+  /** Aborts every scenario in flight; the rest are never started */
+  signal?: AbortSignal;
+}
+
+/**
+ * Outcome of generating one scenario's spec without running it:
+ * - generated: a new revision passed the code policy
+ * - locked: a locked revision was restored instead of generating
+ * - blocked: the new or locked revision violates the code policy and was removed
+ * - failed: generation failed
+ * - aborted: cancelled by a signal, or never started
+ */
+export interface GeneratedScenario {
+  /** Scenario tag */
+  tag: string;
+  /** Generation status */
+  status: "generated" | "locked" | "blocked" | "failed" | "aborted";
+  /** Generated spec (absent if none was written or it was blocked) */
+  filePath?: string;
+  /** Revision of the spec in the test history */
+  revision?: number;
+  /** Generator warnings */
+  warnings: string[];
+  /** Failure message */
+  error?: string;
 }
 
 // Configure logger
 const logger = createLogger({
   level: "debug", // Force debug level
   format: format.combine(
+    redactFormat(),
     format.timestamp(),
     format.colorize(),
     format.printf(({ timestamp, level, message, ...meta }) => {
@@ -73,262 +209,765 @@ const logger = createLogger({
   transports: [
     new transports.Console({
       level: "debug",
-      handleExceptions: true,
       format: format.combine(
         format.colorize(),
         format.simple()
       )
     }),
-    new transports.File({ 
+    new transports.File({
       filename: "error.log",
-      level: "error",
-      handleExceptions: true
+      level: "error"
     }),
-    new transports.File({ 
+    new transports.File({
       filename: "orchestrator.log",
       level: "debug"
     })
   ]
 });
 
-// Load prompts
-const promptsPath = new URL("../../prompts/regressionPrompts.json", import.meta.url);
-const prompts: TestPrompt[] = JSON.parse(fs.readFileSync(promptsPath, "utf-8"));
-
-// Default configuration
-const DEFAULT_CONFIG: Required<OrchestratorConfig> = {
+/**
+ * Default configuration
+ */
+export const DEFAULT_CONFIG: Required<OrchestratorConfig> = {
   concurrency: 1,
   scenarioTimeout: 5 * 60 * 1000, // 5 minutes
+  testTimeout: 30000,
   retryAttempts: 2,
   continueOnFailure: true,
-  verbose: false
+  verbose: false,
+  scenarioBudget: {},
+  runBudget: {},
+  stabilityRuns: 0,
+  stabilityRepeatEach: false,
+  suites: [DEFAULT_SUITE_DIR],
+  reporter: "list",
+  reports: {}
 };
 
 /**
- * Process and validate command line arguments
- * @throws {OrchestrationError} If environment is invalid
+ * Reads the orchestrator configuration of the selected environment from the
+ * config file and the environment variables overriding it
+ * @throws {ConfigError} If the configuration is invalid
  */
-function parseArgs(): { tagToRun: string | undefined; env: string } {
-  const tagToRun = process.argv[2];
-  const envArg = process.argv[3]?.toLowerCase();
+export function configFromEnv(): OrchestratorConfig {
+  return {
+    concurrency: CONFIG.CONCURRENCY,
+    scenarioTimeout: CONFIG.SCENARIO_TIMEOUT,
+    testTimeout: CONFIG.TEST_TIMEOUT,
+    retryAttempts: CONFIG.RETRY_ATTEMPTS,
+    continueOnFailure: CONFIG.CONTINUE_ON_FAILURE,
+    verbose: CONFIG.VERBOSE,
+    scenarioBudget: {
+      maxTokens: CONFIG.SCENARIO_MAX_TOKENS || undefined,
+      maxCost: CONFIG.SCENARIO_MAX_COST || undefined
+    },
+    runBudget: {
+      maxTokens: CONFIG.RUN_MAX_TOKENS || undefined,
+      maxCost: CONFIG.RUN_MAX_COST || undefined
+    },
+    stabilityRuns: CONFIG.STABILITY_RUNS,
+    stabilityRepeatEach: CONFIG.STABILITY_REPEAT_EACH,
+    suites: CONFIG.SUITES.length > 0 ? [...CONFIG.SUITES] : DEFAULT_CONFIG.suites,
+    reports: {
+      ...(CONFIG.REPORT_JUNIT ? { junit: CONFIG.REPORT_JUNIT } : {}),
+      ...(CONFIG.REPORT_JSON ? { json: CONFIG.REPORT_JSON } : {}),
+      ...(CONFIG.REPORT_HTML ? { html: CONFIG.REPORT_HTML } : {})
+    }
+  };
+}
 
-  if (envArg && !["qa", "uat", "prod"].includes(envArg)) {
-    throw new OrchestrationError(
-      `Invalid environment: ${envArg}`,
-      `Must be one of: qa, uat, prod`
-    );
-  }
+// Configuration keys whose values never go into a prompt. They are replaced by
+// a symbolic CONFIG.<KEY> reference that generated code resolves at runtime.
+const CREDENTIAL_KEYS: readonly string[] = ["USERNAME", "PASSWORD", "OPENAI_API_KEY", "USERS", "GUARD"];
 
-  if (envArg) {
-    process.env["ENV"] = envArg;
-  }
+// Fields of a persona a prompt can reference on their own
+const PERSONA_FIELDS: readonly string[] = ["username", "password", "description"];
 
-  return { tagToRun, env: process.env["ENV"] || "qa" };
+/**
+ * Replace placeholders in a prompt:
+ * - ${CONFIG.<KEY>}: the setting, or a symbolic CONFIG.<KEY> reference for credentials
+ * - ${USERS.<name>}: the persona, with symbolic references to its credentials;
+ *   ${USERS.<name>.username} and .password are the references alone
+ * - ${DATA.<set>.<key>...}: the test data value, JSON for objects and lists
+ * @throws {OrchestrationError} If a placeholder references something that does not exist
+ */
+function interpolateConfigPlaceholders(template: string): string {
+  return template
+    .replace(/\$\{CONFIG\.([A-Z0-9_]+)\}/g, (_, key) => {
+      if (!(key in CONFIG)) {
+        throw new OrchestrationError(
+          `Unknown configuration key: ${key}`,
+          `Available keys: ${SETTING_NAMES.join(", ")}`
+        );
+      }
+      if (CREDENTIAL_KEYS.includes(key)) {
+        return `CONFIG.${key}`;
+      }
+      return placeholderValue(CONFIG[key as keyof typeof CONFIG]);
+    })
+    .replace(/\$\{USERS\.([^}]*)\}/g, (_, reference: string) => {
+      const [name = "", field, ...rest] = reference.split(".");
+      const persona = Object.hasOwn(CONFIG.USERS, name) ? CONFIG.USERS[name] : undefined;
+      if (!persona) {
+        const available = Object.keys(CONFIG.USERS);
+        throw new OrchestrationError(
+          `Unknown user: ${name}`,
+          available.length > 0 ? `Users of ${CONFIG.ENV}: ${available.join(", ")}` : `${CONFIG.ENV} declares no users`
+        );
+      }
+      if (field !== undefined && (!PERSONA_FIELDS.includes(field) || rest.length > 0)) {
+        throw new OrchestrationError(`Unknown user field: ${reference}`, `Fields: ${PERSONA_FIELDS.join(", ")}`);
+      }
+      if (field === "description") {
+        return persona.description;
+      }
+      if (field !== undefined) {
+        return `CONFIG.USERS.${name}.${field}`;
+      }
+      const who = `the ${name} user${persona.description ? ` (${persona.description})` : ""}`;
+      return persona.username
+        ? `${who} with username CONFIG.USERS.${name}.username and password CONFIG.USERS.${name}.password`
+        : `${who}, who does not log in`;
+    })
+    .replace(/\$\{DATA\.([^}]*)\}/g, (_, reference: string) => {
+      let value: unknown = CONFIG.DATA;
+      for (const key of reference.split(".")) {
+        value = typeof value === "object" && value !== null && Object.hasOwn(value, key)
+          ? (value as Record<string, unknown>)[key]
+          : undefined;
+      }
+      if (value === undefined) {
+        const available = dataPaths(CONFIG.DATA);
+        throw new OrchestrationError(
+          `Unknown test data: ${reference}`,
+          available.length > 0 ? `Test data of ${CONFIG.ENV}: ${available.join(", ")}` : `${CONFIG.ENV} declares no test data`
+        );
+      }
+      return placeholderValue(value);
+    });
+}
+
+function placeholderValue(value: unknown): string {
+  return typeof value === "object" && value !== null ? JSON.stringify(value) : String(value ?? "");
 }
 
 /**
- * Replace configuration placeholders in template string
- * @throws {OrchestrationError} If configuration key is unknown
+ * The values of every test data set, e.g. products.laptop
  */
-function interpolateConfigPlaceholders(template: string): string {
-  return template.replace(/\$\{CONFIG\.([A-Z0-9_]+)\}/g, (_, key) => {
-    if (!(key in CONFIG)) {
-      throw new OrchestrationError(
-        `Unknown configuration key: ${key}`,
-        `Available keys: ${Object.keys(CONFIG).join(", ")}`
-      );
-    }
-    return CONFIG[key as keyof typeof CONFIG] || "";
-  });
+function dataPaths(data: Readonly<Record<string, unknown>>): string[] {
+  return Object.entries(data).flatMap(([set, values]) =>
+    typeof values === "object" && values !== null ? Object.keys(values).map(key => `${set}.${key}`) : [set]);
+}
+
+/**
+ * Loads the suites and picks the scenarios to run in the configured environment
+ * @throws {SuiteError} If a suite is unreadable or invalid
+ * @throws {TagExpressionError} If the selection is malformed
+ */
+async function loadScenarios(suites: string[], selection: string | undefined): Promise<Scenario[]> {
+  const expression = selection?.trim() ? parseTagExpression(selection) : undefined;
+  const scenarios = await loadSuites(suites);
+  const declared = environmentNames();
+  const undeclared = [...new Set(scenarios.flatMap(scenario => scenario.environments ?? []))]
+    .filter(env => !declared.includes(env));
+  if (undeclared.length > 0) {
+    logger.warn(`Scenarios are restricted to undeclared environments: ${undeclared.join(", ")}`);
+  }
+
+  if (CONFIG.GUARD.enabled) {
+    logger.warn(`${CONFIG.ENV} is guarded: only prod-safe scenarios run, and specs that change data are blocked`);
+  }
+  const { selected, excluded } = selectScenarios(scenarios, expression, CONFIG.ENV, CONFIG.FEATURES, CONFIG.GUARD.enabled);
+  if (excluded.length > 0) {
+    logger.info(`Skipping scenarios not meant for ${CONFIG.ENV}: ${excluded.map(scenario => scenario.tag).join(", ")}`);
+  }
+  return selected;
 }
 
 /**
  * Run a single test scenario
- * @param prompt The test prompt to run
+ * @param scenario The scenario to run; its timeout, attempts and model override the configuration
  * @param config Orchestrator configuration
+ * @param runId Run the scenario's AI usage is accounted to
+ * @param loginErrors Roles whose login failed before the scenarios started, with the error
  * @param signal Optional abort signal
+ * @returns The scenario's status, and the attempts it took
+ * @throws {OrchestrationError} If the run budget is exceeded
  */
 async function runScenario(
-  prompt: TestPrompt,
+  scenario: Scenario,
   config: Required<OrchestratorConfig>,
+  runId: string,
+  loginErrors: ReadonlyMap<string, string>,
   signal?: AbortSignal
-): Promise<boolean> {
+): Promise<{ status: ScenarioStatus; attempts: AttemptRecord[] }> {
   const startTime = Date.now();
-  console.log(`Debug: Starting scenario: ${prompt.tag}`);
-  console.log(`Debug: Description: ${prompt.description}`);
-  console.log(`Debug: Raw prompt: ${prompt.prompt}`);
-  logger.info(`Running scenario: ${prompt.tag} - ${prompt.description}`);
+
+  // Cancelled by the run's signal or by the scenario timeout, whichever comes first
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = (): void => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    onAbort();
+  }
+  signal?.addEventListener("abort", onAbort, { once: true });
+  const timeout = scenario.timeout ?? config.scenarioTimeout;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort(new OrchestrationError(`Scenario timed out after ${timeout}ms`));
+  }, timeout);
+
+  console.log(`Debug: Starting scenario: ${scenario.tag}`);
+  console.log(`Debug: Description: ${scenario.description}`);
+  console.log(`Debug: Raw prompt: ${redactSecrets(scenario.prompt)}`);
+  logger.info(`Running scenario: ${scenario.tag} - ${scenario.description}`);
 
   try {
-    if (signal?.aborted) {
+    if (controller.signal.aborted) {
       throw new OrchestrationError("Scenario aborted by user");
     }
 
     // Validate prompt
-    if (!prompt.prompt.trim()) {
+    if (!scenario.prompt.trim()) {
       throw new OrchestrationError("Empty prompt");
     }
 
-    const expandedPrompt = interpolateConfigPlaceholders(prompt.prompt);
-    const timeoutPromise = new Promise((_, reject) => {
-      setTimeout(() => {
-        reject(new OrchestrationError(`Scenario timed out after ${config.scenarioTimeout}ms`));
-      }, config.scenarioTimeout);
-    });
+    if (scenario.session) {
+      const loginError = loginErrors.get(scenario.session);
+      if (loginError) {
+        throw new OrchestrationError(loginError);
+      }
+      // Refreshes the saved login if it expired since the run started
+      await sessionManager.ensure(scenario.session, { runId, signal: controller.signal });
+    }
 
-    await Promise.race([
-      runWithRetries(expandedPrompt, prompt.tag, config.retryAttempts),
-      timeoutPromise
-    ]);
+    const expandedPrompt = interpolateConfigPlaceholders(scenario.prompt);
+    const attempts = await runWithRetries(expandedPrompt, scenario.tag, scenario.retryAttempts ?? config.retryAttempts, {
+      reporter: config.reporter,
+      timeout: config.testTimeout,
+      runId,
+      budget: { scenario: config.scenarioBudget, run: config.runBudget },
+      stability: { runs: config.stabilityRuns, repeatEach: config.stabilityRepeatEach },
+      signal: controller.signal,
+      ...(scenario.model ? { model: scenario.model } : {}),
+      ...(scenario.session ? { session: scenario.session } : {})
+    });
 
     const duration = Date.now() - startTime;
-    logger.info(`Scenario ${prompt.tag} passed in ${duration}ms`);
-    return true;
+    logger.info(`Scenario ${scenario.tag} passed in ${duration}ms (${describeAttempts(attempts)})`, {
+      usage: usageLedger.totals({ runId, scenario: scenario.tag })
+    });
+    return { status: "passed", attempts };
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    logger.error(`Scenario ${prompt.tag} failed: ${errorMessage}`);
-    return false;
+    const attempts = error instanceof RerunError ? error.attempts : [];
+    const exceeded = error instanceof BudgetExceededError ? error : error instanceof RerunError ? error.budgetExceeded : undefined;
+    if (exceeded) {
+      const spent = exceeded.details as UsageTotals;
+      const budgetError = new OrchestrationError(
+        exceeded.message,
+        `${spent.totalTokens} tokens in ${spent.requests} requests, est. $${spent.cost.toFixed(4)}`
+      );
+      if (exceeded.scope === "run") {
+        throw budgetError;
+      }
+      logger.error(`Scenario ${scenario.tag} aborted: ${budgetError.message}` +
+        (attempts.length > 0 ? ` (${describeAttempts(attempts)})` : ""));
+      return { status: "failed", attempts };
+    }
+    const status: ScenarioStatus = timedOut ? "timedOut" : controller.signal.aborted ? "aborted" : "failed";
+    const errorMessage = timedOut
+      ? `Scenario timed out after ${timeout}ms`
+      : error instanceof OrchestrationError && typeof error.details === "string"
+        ? `${error.message} (${error.details})`
+        : error instanceof Error ? error.message : String(error);
+    logger.error(`Scenario ${scenario.tag} ${status === "failed" ? "failed" : status === "timedOut" ? "timed out" : "aborted"}: ` +
+      errorMessage + (attempts.length > 0 ? ` (${describeAttempts(attempts)})` : ""));
+    return { status, attempts };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
   }
 }
 
 /**
- * Main orchestration function
- * @param config Optional configuration overrides
+ * Logs in every role the scenarios start with, once, before any of them runs
+ * @returns Roles whose login failed, with the error
  */
-async function main(config: OrchestratorConfig = {}) {
-  console.log('Main function started');
-  process.stdout.write('Starting orchestrator...\n');
-  
-  const startTime = new Date();
-  const effectiveConfig = { ...DEFAULT_CONFIG, ...config };
-  const controller = new AbortController();
+async function prepareSessions(scenarios: Scenario[], runId: string, signal: AbortSignal): Promise<Map<string, string>> {
+  const loginErrors = new Map<string, string>();
+  const roles = [...new Set(scenarios.flatMap(scenario => scenario.session ?? []))];
+  for (const role of roles) {
+    if (signal.aborted) {
+      break;
+    }
+    try {
+      const session = await sessionManager.ensure(role, { runId, signal });
+      logger.info(`${session.refreshed ? "Logged in" : "Reusing login"} as ${role}, valid until ${session.expiresAt}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const details = error instanceof Error && "details" in error ? error.details : undefined;
+      loginErrors.set(role, details !== undefined ? `${message} (${typeof details === "string" ? details : JSON.stringify(details)})` : message);
+      logger.error(`Login as ${role} failed; its scenarios will fail: ${loginErrors.get(role)}`);
+    }
+  }
+  return loginErrors;
+}
 
+/**
+ * Records a scenario's outcome without its console output, which was
+ * streamed live and would bloat the summary
+ */
+function scenarioResult(
+  scenario: Scenario,
+  runId: string,
+  status: ScenarioStatus,
+  quarantined: boolean,
+  attempts: AttemptRecord[],
+  duration: number
+): ScenarioResult {
+  const usageFilter = { runId, scenario: scenario.tag };
+  let expandedPrompt: string | undefined;
   try {
-    const { tagToRun, env } = parseArgs();
-    logger.info(`Starting test run in ${env} environment with tag ${tagToRun || 'ALL'}`);
-
-    // Enhanced logging
-    console.log(`Debug: Starting test run with tag: ${tagToRun}`);
-    console.log(`Debug: Environment: ${env}`);
-    console.log(`Debug: Loaded ${prompts.length} prompts`);
-    
-    // Verify config
-    const configDebug = {
-      ...CONFIG,
-      // Mask sensitive data
-      OPENAI_API_KEY: CONFIG.OPENAI_API_KEY ? '***' : undefined,
-      PASSWORD: CONFIG.PASSWORD ? '***' : undefined
-    };
-    
-    console.log('Debug: Configuration:', configDebug);
-    logger.info('Using configuration:', configDebug);
-
-    const scenariosToRun = tagToRun 
-      ? prompts.filter(p => p.tag === tagToRun)
-      : prompts;
-
-    if (scenariosToRun.length === 0) {
-      logger.warn(`No scenarios found${tagToRun ? ` for tag: ${tagToRun}` : ""}`);
-      return;
-    }
+    expandedPrompt = redactSecrets(interpolateConfigPlaceholders(scenario.prompt));
+  } catch {
+    // Unknown placeholders already failed the scenario
+  }
+  return {
+    tag: scenario.tag,
+    description: scenario.description,
+    labels: scenario.labels,
+    priority: scenario.priority,
+    ...(scenario.owner ? { owner: scenario.owner } : {}),
+    suite: path.relative(process.cwd(), scenario.source.file) || scenario.source.file,
+    prompt: redactSecrets(scenario.prompt),
+    ...(expandedPrompt !== undefined ? { expandedPrompt } : {}),
+    status,
+    quarantined,
+    attempts: attempts.map(({ execution, ...attempt }) => ({
+      ...attempt,
+      ...(execution ? { execution: { ...execution, output: "" } } : {})
+    })),
+    duration,
+    usage: usageLedger.totals(usageFilter),
+    models: Object.keys(usageLedger.totalsByModel(usageFilter))
+  };
+}
 
-    const stats: RunStats = {
-      total: scenariosToRun.length,
-      passed: 0,
-      failed: [],
-      startTime,
-    };
-
-    // Set up signal handlers
-    process.once('SIGINT', () => {
-      logger.warn('Received SIGINT. Gracefully shutting down...');
-      controller.abort();
-    });
+/**
+ * Prints a scenario's structured result on a single line for the web UI
+ * (see RESULT_LINE_PREFIX)
+ */
+function publishResult(result: ScenarioResult): void {
+  console.log(RESULT_LINE_PREFIX + JSON.stringify(result));
+}
 
-    process.once('SIGTERM', () => {
-      logger.warn('Received SIGTERM. Gracefully shutting down...');
-      controller.abort();
-    });
+/**
+ * Summarizes attempts as e.g. "1 fresh failed, 2 repair passed (accepted, 5/5 runs passed (100%))"
+ */
+function describeAttempts(attempts: AttemptRecord[]): string {
+  return attempts
+    .map(a => `${a.attempt} ${a.mode} ${a.passed ? "passed" : "failed"}` +
+      (a.stability ? ` (${describeStability(a.stability)})` : ""))
+    .join(", ");
+}
+
+/**
+ * Fills in end time, cache and usage figures
+ */
+function finishStats(stats: RunStats): void {
+  const endTime = new Date();
+  stats.endTime = endTime.toISOString();
+  stats.duration = endTime.getTime() - new Date(stats.startTime).getTime();
+  stats.cache = getCacheStats();
+  stats.usage = {
+    ...usageLedger.totals({ runId: stats.runId }),
+    byModel: usageLedger.totalsByModel({ runId: stats.runId })
+  };
+}
 
-    // Run scenarios with concurrency control
-    const chunks = [];
-    for (let i = 0; i < scenariosToRun.length; i += effectiveConfig.concurrency) {
-      chunks.push(scenariosToRun.slice(i, i + effectiveConfig.concurrency));
+/**
+ * Formats a run summary, one line per entry
+ */
+export function renderSummary(stats: RunStats): string[] {
+  const lines = [
+    `📊 Test Run Summary (${stats.runId}, ${stats.env}${stats.selection ? `, ${stats.selection}` : ""})`,
+    `Duration: ${(stats.duration ?? 0) / 1000}s`,
+    `Total: ${stats.total}`,
+    `Passed: ${stats.passed}`,
+    `Failed: ${stats.failed.length}`,
+    `Timed out: ${stats.timedOut.length}`,
+    `Aborted: ${stats.aborted.length}`,
+    `Quarantined: ${stats.quarantined.length}`,
+    `Tests: ${stats.tests.passed} passed, ${stats.tests.failed} failed, ` +
+      `${stats.tests.flaky} flaky, ${stats.tests.skipped} skipped`,
+    `Passed after repair: ${stats.scenarios
+      .filter(scenario => scenario.attempts.some(a => a.passed && a.mode === "repair")).length}`
+  ];
+  for (const scenario of stats.scenarios) {
+    lines.push(`  ${scenario.tag}: ${scenario.status}${scenario.quarantined ? " [quarantined]" : ""}` +
+      (scenario.attempts.length > 0 ? ` (${describeAttempts(scenario.attempts)})` : ""));
+  }
+  if (stats.cache) {
+    lines.push(`AI cache: ${stats.cache.hits} hits, ${stats.cache.misses} misses`);
+  }
+  if (stats.usage) {
+    lines.push(`AI usage: ${stats.usage.totalTokens} tokens in ${stats.usage.requests} requests, est. $${stats.usage.cost.toFixed(4)}`);
+    for (const [model, totals] of Object.entries(stats.usage.byModel)) {
+      lines.push(`  ${model}: ${totals.totalTokens} tokens, est. $${totals.cost.toFixed(4)}`);
     }
+  }
+  return lines;
+}
 
-    for (const chunk of chunks) {
-      const chunkPromises = chunk.map(async (scenario) => {
-        const result = await runScenario(scenario, effectiveConfig, controller.signal);
-        return { scenario, passed: result };
-      });
+/**
+ * Whether every scenario of a run passed or is quarantined
+ */
+export function runSucceeded(stats: RunStats): boolean {
+  return stats.failed.length + stats.timedOut.length + stats.aborted.length === 0;
+}
+
+/**
+ * Generates, runs and repairs the selected scenarios, then writes the run
+ * summary to the run's folder (see workspace.summaryPath), even if the run
+ * is aborted.
+ * @param options Selection, configuration overrides and abort signal
+ * @returns The run statistics; check runSucceeded for the outcome
+ * @throws {SuiteError} If a suite is unreadable or invalid
+ * @throws {TagExpressionError} If the selection is malformed
+ * @throws {OrchestrationError} If the run budget is exceeded
+ */
+export async function runSuite(options: RunSuiteOptions = {}): Promise<RunStats> {
+  const { selection, signal, ...config } = options;
+  const effectiveConfig = { ...DEFAULT_CONFIG, ...config };
+  const startTime = new Date();
+  logger.info(`Starting test run in ${CONFIG.ENV} environment with tag ${selection || 'ALL'}`);
+
+  const scenariosToRun = await loadScenarios(effectiveConfig.suites, selection);
+
+  // Enhanced logging
+  console.log(`Debug: Starting test run with tag: ${selection}`);
+  console.log(`Debug: Environment: ${CONFIG.ENV}`);
+  console.log(`Debug: Selected ${scenariosToRun.length} scenarios`);
+
+  // Only the settings that shape the run: credentials, personas and test data stay out of the logs
+  logger.info('Using configuration', {
+    env: CONFIG.ENV,
+    baseUrl: CONFIG.BASE_URL,
+    provider: CONFIG.AI_PROVIDER,
+    model: defaultModel(),
+    cassetteMode: CONFIG.AI_CASSETTE_MODE,
+    cache: CONFIG.AI_CACHE_ENABLED,
+    features: CONFIG.FEATURES,
+    users: Object.keys(CONFIG.USERS),
+    guarded: CONFIG.GUARD.enabled,
+    concurrency: effectiveConfig.concurrency,
+    retryAttempts: effectiveConfig.retryAttempts
+  });
+
+  const stats: RunStats = {
+    runId: createRunId(startTime),
+    env: CONFIG.ENV,
+    ...(selection ? { selection } : {}),
+    total: scenariosToRun.length,
+    passed: 0,
+    failed: [],
+    timedOut: [],
+    aborted: [],
+    quarantined: [],
+    scenarios: [],
+    tests: { passed: 0, failed: 0, flaky: 0, skipped: 0 },
+    startTime: startTime.toISOString()
+  };
+
+  if (scenariosToRun.length === 0) {
+    logger.warn(`No scenarios found${selection ? ` for tag: ${selection}` : ""}`);
+    finishStats(stats);
+    return stats;
+  }
+
+  // Aborted by the caller, by the run budget, or by the first failure unless continueOnFailure
+  const controller = new AbortController();
+  const onAbort = (): void => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    onAbort();
+  }
+  signal?.addEventListener("abort", onAbort, { once: true });
 
-      const chunkResults = await Promise.all(chunkPromises);
-
-      for (const { scenario, passed } of chunkResults) {
-        if (passed) {
-          stats.passed++;
-        } else {
-          stats.failed.push(scenario.tag);
-          if (!effectiveConfig.continueOnFailure) {
-            throw new OrchestrationError(
-              "Test run aborted due to failure",
-              `Failed scenario: ${scenario.tag}`
-            );
-          }
+  try {
+    // Quarantined scenarios still run, but are reported apart and cannot fail the run
+    const quarantine = new Quarantine();
+    const quarantinedAtStart = await quarantine.tags();
+
+    // Scenarios share one login per role instead of each logging in through the UI
+    const loginErrors = await prepareSessions(scenariosToRun, stats.runId, controller.signal);
+
+    // Run scenarios in a worker pool: the next one starts as soon as a slot frees up
+    let stopped = false;
+    const notStarted = await runPool(scenariosToRun, effectiveConfig.concurrency, async (scenario) => {
+      const scenarioStart = Date.now();
+      let result: { status: ScenarioStatus; attempts: AttemptRecord[] };
+      try {
+        result = await runScenario(scenario, effectiveConfig, stats.runId, loginErrors, controller.signal);
+      } catch (error) {
+        // The run budget is shared, so the scenarios in flight cannot finish either
+        controller.abort(error);
+        throw error;
+      }
+      const { status, attempts } = result;
+
+      const execution = attempts[attempts.length - 1]?.execution;
+      if (execution) {
+        stats.tests.passed += execution.stats.passed;
+        stats.tests.failed += execution.stats.failed;
+        stats.tests.flaky += execution.stats.flaky;
+        stats.tests.skipped += execution.stats.skipped;
+      }
+
+      const last = attempts[attempts.length - 1];
+      if (status === "passed" && last?.stability?.verdict === "flaky") {
+        await quarantine.add(scenario.tag, last.stability, last.revision);
+        logger.warn(`Scenario ${scenario.tag} is flaky and was quarantined (${describeStability(last.stability)})`);
+      } else if (status === "passed" && last?.stability?.verdict === "accepted" && quarantinedAtStart.has(scenario.tag)) {
+        await quarantine.remove(scenario.tag);
+        logger.info(`Scenario ${scenario.tag} is stable again and was released from quarantine`);
+      }
+      const quarantined = quarantinedAtStart.has(scenario.tag) || last?.stability?.verdict === "flaky";
+
+      const scenarioOutcome = scenarioResult(scenario, stats.runId, status, quarantined, attempts, Date.now() - scenarioStart);
+      stats.scenarios.push(scenarioOutcome);
+      publishResult(scenarioOutcome);
+      if (quarantined) {
+        stats.quarantined.push(scenario.tag);
+      } else if (status === "passed") {
+        stats.passed++;
+      } else if (status === "timedOut") {
+        stats.timedOut.push(scenario.tag);
+      } else if (status === "aborted") {
+        stats.aborted.push(scenario.tag);
+      } else {
+        stats.failed.push(scenario.tag);
+        if (!effectiveConfig.continueOnFailure && !stopped) {
+          // Scenarios still in flight are aborted, the rest are never started
+          stopped = true;
+          logger.error(`Test run aborted due to failure of ${scenario.tag}`);
+          controller.abort(new OrchestrationError("Test run aborted due to failure", `Failed scenario: ${scenario.tag}`));
         }
       }
+    }, controller.signal);
+
+    for (const scenario of notStarted) {
+      const scenarioOutcome = scenarioResult(scenario, stats.runId, "aborted", false, [], 0);
+      stats.aborted.push(scenario.tag);
+      stats.scenarios.push(scenarioOutcome);
+      publishResult(scenarioOutcome);
     }
 
-    // Calculate final statistics
-    stats.endTime = new Date();
-    stats.duration = stats.endTime.getTime() - stats.startTime.getTime();
-
-    // Log summary
-    logger.info("\n📊 Test Run Summary");
-    logger.info(`Duration: ${stats.duration / 1000}s`);
-    logger.info(`Total: ${stats.total}`);
-    logger.info(`Passed: ${stats.passed}`);
-    logger.info(`Failed: ${stats.failed.length}`);
-    
+    return stats;
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+    finishStats(stats);
+    renderSummary(stats).forEach(line => logger.info(line));
+    if (stats.timedOut.length > 0) {
+      logger.error(`Timed out scenarios: ${stats.timedOut.join(", ")}`);
+    }
+    if (stats.aborted.length > 0) {
+      logger.error(`Aborted scenarios: ${stats.aborted.join(", ")}`);
+    }
     if (stats.failed.length > 0) {
-      logger.error("Failed scenarios:", stats.failed.join(", "));
-      process.exit(1);
+      logger.error(`Failed scenarios: ${stats.failed.join(", ")}`);
     }
+    await writeRunReports(stats, effectiveConfig.reports);
+    await recordRunHistory(stats);
+  }
+}
 
-    logger.info("✅ Test run completed successfully");
-  } catch (error) {
-    if (error instanceof OrchestrationError) {
-      logger.error(`Orchestration error: ${error.message}`);
-      if (error.details) {
-        logger.error(`Details: ${error.details}`);
+/**
+ * Generates the specs of the selected scenarios without running them. Every
+ * spec still has to pass the code policy; a locked revision is restored
+ * instead of generating.
+ * @param options Selection, configuration overrides and abort signal
+ * @returns The outcome of every selected scenario, in selection order
+ * @throws {SuiteError} If a suite is unreadable or invalid
+ * @throws {TagExpressionError} If the selection is malformed
+ * @throws {OrchestrationError} If the run budget is exceeded
+ */
+export async function generateSuite(options: RunSuiteOptions = {}): Promise<GeneratedScenario[]> {
+  const { selection, signal, ...config } = options;
+  const effectiveConfig = { ...DEFAULT_CONFIG, ...config };
+  const scenarios = await loadScenarios(effectiveConfig.suites, selection);
+  const runId = createRunId();
+  const history = new TestHistory();
+  const results = new Map<string, GeneratedScenario>();
+  logger.info(`Generating ${scenarios.length} scenarios in ${CONFIG.ENV} environment`, { runId });
+
+  const controller = new AbortController();
+  const onAbort = (): void => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    onAbort();
+  }
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    const notStarted = await runPool(scenarios, effectiveConfig.concurrency, async (scenario) => {
+      try {
+        results.set(scenario.tag, await generateScenario(scenario, effectiveConfig, runId, history, controller.signal));
+      } catch (error) {
+        if (error instanceof BudgetExceededError && error.scope === "run") {
+          controller.abort(error);
+          throw new OrchestrationError(error.message, error.details);
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        const status = controller.signal.aborted ? "aborted" : "failed";
+        logger.error(`Generation of ${scenario.tag} ${status}: ${message}`);
+        results.set(scenario.tag, { tag: scenario.tag, status, warnings: [], error: message });
+      }
+    }, controller.signal);
+
+    for (const scenario of notStarted) {
+      results.set(scenario.tag, { tag: scenario.tag, status: "aborted", warnings: [], error: "Not started" });
+    }
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
+  return scenarios.flatMap(scenario => results.get(scenario.tag) ?? []);
+}
+
+/**
+ * Generates one scenario's spec and checks it against the code policy
+ * @throws {BudgetExceededError} If the scenario or run budget is exceeded
+ */
+async function generateScenario(
+  scenario: Scenario,
+  config: Required<OrchestratorConfig>,
+  runId: string,
+  history: TestHistory,
+  signal: AbortSignal
+): Promise<GeneratedScenario> {
+  // A spec that breaks the policy is removed again, whether it was generated or restored
+  const blocked = async (filePath: string, revision: number | undefined): Promise<string | undefined> => {
+    try {
+      await enforceCodePolicy(filePath);
+      return undefined;
+    } catch (error) {
+      if (!(error instanceof PolicyViolationError)) {
+        throw error;
+      }
+      if (revision !== undefined) {
+        await history.setResult(scenario.tag, revision, "blocked");
       }
-    } else {
-      logger.error("Unexpected error:", error);
+      logger.error(`Spec of ${scenario.tag} blocked by code policy`, { violations: formatViolations(error.violations) });
+      return formatViolations(error.violations).join("\n");
     }
-    process.exit(1);
+  };
+
+  const prompt = interpolateConfigPlaceholders(scenario.prompt);
+  const { locked, released } = await history.resolveLock(scenario.tag, prompt);
+  if (released !== undefined) {
+    logger.warn(`Prompt changed, released lock on revision ${released}`, { tag: scenario.tag });
   }
+  if (locked) {
+    const filePath = workspace.specPath(scenario.tag);
+    const revision = locked.record.revision;
+    await fs.promises.mkdir(workspace.specsDir, { recursive: true });
+    await fs.promises.writeFile(filePath, locked.content, "utf-8");
+    const violations = await blocked(filePath, revision);
+    if (violations) {
+      return { tag: scenario.tag, status: "blocked", revision, warnings: [], error: violations };
+    }
+    logger.info(`Restored locked revision ${revision} of ${scenario.tag}`);
+    return { tag: scenario.tag, status: "locked", filePath, revision, warnings: [] };
+  }
+
+  const budget = { scenario: config.scenarioBudget, run: config.runBudget };
+  usageLedger.checkBudget(runId, scenario.tag, budget);
+  const result = await generateTest(prompt, scenario.tag, {
+    signal,
+    ...(scenario.model ? { model: scenario.model } : {}),
+    ...(scenario.session ? { session: scenario.session } : {}),
+    context: { runId, scenario: scenario.tag, attempt: 1 }
+  });
+  const generated = {
+    tag: scenario.tag,
+    ...(result.revision !== undefined ? { revision: result.revision } : {}),
+    warnings: result.warnings ?? []
+  };
+
+  const violations = await blocked(result.filePath, result.revision);
+  if (violations) {
+    return { ...generated, status: "blocked", error: violations };
+  }
+  logger.info(`Generated ${scenario.tag}` + (result.revision !== undefined ? ` r${result.revision}` : ""));
+  return { ...generated, status: "generated", filePath: result.filePath };
 }
 
-// Handle uncaught errors
-process.on("unhandledRejection", (error) => {
-  logger.error("❌ Unhandled rejection:", error);
-  process.exit(1);
-});
+/**
+ * Writes a run's JSON summary, JUnit report and HTML report to its folder,
+ * and copies them to the configured report paths
+ */
+async function writeRunReports(stats: RunStats, reports: Required<OrchestratorConfig>["reports"]): Promise<void> {
+  const summary = JSON.stringify(stats, null, 2) + "\n";
+  const junit = renderJUnitReport(stats);
+  // The HTML report links artifacts relative to itself, so each copy is rendered for its location
+  const targets = [
+    { filePath: workspace.summaryPath(stats.runId), write: (file: string) => fs.promises.writeFile(file, summary, "utf-8") },
+    { filePath: workspace.junitPath(stats.runId), write: (file: string) => fs.promises.writeFile(file, junit, "utf-8") },
+    { filePath: workspace.htmlReportPath(stats.runId), write: (file: string) => writeHtmlReport(stats, file) },
+    ...(reports.json ? [{ filePath: reports.json, write: (file: string) => fs.promises.writeFile(file, summary, "utf-8") }] : []),
+    ...(reports.junit ? [{ filePath: reports.junit, write: (file: string) => fs.promises.writeFile(file, junit, "utf-8") }] : []),
+    ...(reports.html ? [{ filePath: reports.html, write: (file: string) => writeHtmlReport(stats, file) }] : [])
+  ];
+
+  for (const { filePath, write } of targets) {
+    try {
+      await fs.promises.mkdir(path.dirname(path.resolve(filePath)), { recursive: true });
+      await write(filePath);
+    } catch (error) {
+      logger.error(`Failed to write run report ${filePath}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+  logger.info(`Run reports written to ${path.relative(process.cwd(), workspace.runDir(stats.runId))}` +
+    [reports.json, reports.junit, reports.html].filter(Boolean).map(report => `, ${report}`).join(""));
+}
 
-process.on("uncaughtException", (error) => {
-  logger.error("❌ Uncaught exception:", error);
-  process.exit(1);
-});
+/**
+ * Appends a run to the run history. A history that cannot be written must not
+ * fail a run that already finished.
+ */
+async function recordRunHistory(stats: RunStats): Promise<void> {
+  try {
+    await new RunHistory().record(stats);
+  } catch (error) {
+    logger.error(error instanceof Error ? error.message : String(error), {
+      details: error instanceof Error && "details" in error ? error.details : undefined
+    });
+  }
+}
 
-// Run the orchestrator
-console.log('Starting main execution...');
-main({
-  concurrency: Number(process.env["CONCURRENCY"]) || DEFAULT_CONFIG.concurrency,
-  scenarioTimeout: Number(process.env["SCENARIO_TIMEOUT"]) || DEFAULT_CONFIG.scenarioTimeout,
-  retryAttempts: Number(process.env["RETRY_ATTEMPTS"]) || DEFAULT_CONFIG.retryAttempts,
-  continueOnFailure: process.env["CONTINUE_ON_FAILURE"] !== "false",
-  verbose: process.env["VERBOSE"] === "true"
-}).catch((error) => {
-  console.error("Fatal error:", error);
-  process.exit(1);
-});
+/**
+ * Reads the summary of a past run
+ * @param runId Run identifier, or "latest" for the most recent run with a summary
+ * @throws {OrchestrationError} If there is no such run
+ */
+export async function readRunSummary(runId = "latest"): Promise<RunStats> {
+  let id = runId;
+  if (runId === "latest") {
+    const runs = await fs.promises.readdir(workspace.runsDir).catch(() => [] as string[]);
+    const finished = runs.filter(run => fs.existsSync(workspace.summaryPath(run))).sort();
+    const latest = finished[finished.length - 1];
+    if (!latest) {
+      throw new OrchestrationError("No run summaries found", workspace.runsDir);
+    }
+    id = latest;
+  }
+
+  try {
+    return JSON.parse(await fs.promises.readFile(workspace.summaryPath(id), "utf-8")) as RunStats;
+  } catch (error) {
+    throw new OrchestrationError(
+      `No summary for run ${id}`,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
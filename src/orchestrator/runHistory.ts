@@ -0,0 +1,389 @@
+import fs from "fs";
+import path from "path";
+import { workspace } from "../utils/workspace.js";
+import type { RunStats, ScenarioStatus } from "./orchestrator.js";
+
+/**
+ * Outcome of one scenario in one run, as kept in the run history
+ */
+export interface ScenarioRunRecord {
+  /** Scenario tag */
+  tag: string;
+  /** Final status */
+  status: ScenarioStatus;
+  /** Whether the scenario was quarantined */
+  quarantined: boolean;
+  /** Time taken by the scenario in ms */
+  duration: number;
+  /** Number of attempts */
+  attempts: number;
+  /** Number of specs generated, fresh or repaired; locked revisions are not generated */
+  generations: number;
+  /** Revision of the spec the last attempt ran */
+  revision?: number;
+  /** AI models the scenario was generated with */
+  models: string[];
+  /** AI tokens used */
+  tokens: number;
+  /** Estimated AI cost in USD */
+  cost: number;
+  /** Failure message of the last attempt */
+  error?: string;
+}
+
+/**
+ * One orchestrator run, as kept in the run history
+ */
+export interface RunRecord {
+  /** Unique identifier of the run */
+  runId: string;
+  /** Environment the run targeted */
+  env: string;
+  /** Tag expression the scenarios were selected by */
+  selection?: string;
+  /** Start time of the run (ISO 8601) */
+  startTime: string;
+  /** Duration in ms */
+  duration: number;
+  /** AI tokens used by the whole run */
+  tokens: number;
+  /** Estimated AI cost of the whole run in USD */
+  cost: number;
+  /** Outcome of every scenario */
+  scenarios: ScenarioRunRecord[];
+}
+
+/**
+ * Narrows the runs a query looks at
+ */
+export interface HistoryFilter {
+  /** Only this scenario */
+  tag?: string;
+  /** Only runs against this environment */
+  env?: string;
+  /** Only runs started at or after this time (ISO 8601 or any Date-parsable string) */
+  since?: string;
+  /** Only the most recent runs, after the other filters */
+  last?: number;
+}
+
+/**
+ * A reference to a scenario's outcome in a run
+ */
+export interface RunReference {
+  /** Run identifier */
+  runId: string;
+  /** Start time of the run */
+  startTime: string;
+}
+
+/**
+ * Pass rate of a scenario over the selected runs. Aborted outcomes say
+ * nothing about the scenario and are left out.
+ */
+export interface PassRateTrend {
+  /** Scenario tag */
+  tag: string;
+  /** Number of runs the scenario finished in */
+  runs: number;
+  /** Number of them it passed */
+  passed: number;
+  /** passed / runs, between 0 and 1 */
+  passRate: number;
+  /**
+   * Pass rate of the newer half of the runs minus that of the older half,
+   * between -1 and 1; positive means improving
+   */
+  trend: number;
+  /** Statuses of the last runs, oldest first */
+  recent: ScenarioStatus[];
+}
+
+/**
+ * Durations of a scenario over the selected runs
+ */
+export interface ScenarioTiming {
+  /** Scenario tag */
+  tag: string;
+  /** Number of runs the scenario finished in */
+  runs: number;
+  /** Mean duration in ms */
+  averageDuration: number;
+  /** Longest duration in ms */
+  maxDuration: number;
+  /** Duration in the latest run in ms */
+  lastDuration: number;
+}
+
+/**
+ * How often a scenario's spec was generated over the selected runs
+ */
+export interface ScenarioGenerations {
+  /** Scenario tag */
+  tag: string;
+  /** Number of runs the scenario ran in */
+  runs: number;
+  /** Specs generated in total, fresh or repaired */
+  generations: number;
+  /** Specs generated per run */
+  perRun: number;
+  /** AI tokens used in total */
+  tokens: number;
+  /** Revision run in the latest run */
+  lastRevision?: number;
+}
+
+/**
+ * A scenario whose latest outcome is a failure
+ */
+export interface FailingScenario {
+  /** Scenario tag */
+  tag: string;
+  /** First run of the current streak of failures */
+  since: RunReference;
+  /** Number of runs failed in a row */
+  failures: number;
+  /** Last run the scenario passed in, if any */
+  lastPassed?: RunReference;
+  /** Failure message of the latest run */
+  lastError?: string;
+}
+
+/**
+ * Custom error for run history reads and writes
+ */
+export class RunHistoryError extends Error {
+  constructor(message: string, public readonly details?: unknown) {
+    super(message);
+    this.name = "RunHistoryError";
+  }
+}
+
+// Number of statuses kept in a pass rate trend
+const RECENT_RUNS = 10;
+
+/**
+ * History of every orchestrator run, one JSON line per run. Runs are only
+ * ever appended, so the file doubles as an audit trail.
+ */
+export class RunHistory {
+  /**
+   * Creates a new RunHistory
+   * @param filePath JSON lines file holding the history (default: the workspace run history)
+   */
+  constructor(private readonly filePath: string = workspace.runHistoryPath) {}
+
+  /**
+   * Appends a finished run
+   * @returns The record that was stored
+   */
+  async record(stats: RunStats): Promise<RunRecord> {
+    const record = toRunRecord(stats);
+    try {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.appendFile(this.filePath, JSON.stringify(record) + "\n", "utf-8");
+    } catch (error) {
+      throw new RunHistoryError(
+        `Failed to write run history ${this.filePath}`,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+    return record;
+  }
+
+  /**
+   * Returns the runs matching the filter, oldest first. With a tag, each run
+   * only holds that scenario and runs without it are left out.
+   * @throws {RunHistoryError} If the history is unreadable
+   */
+  async runs(filter: HistoryFilter = {}): Promise<RunRecord[]> {
+    const since = filter.since !== undefined ? new Date(filter.since).getTime() : undefined;
+    if (since !== undefined && Number.isNaN(since)) {
+      throw new RunHistoryError(`Invalid date: ${filter.since}`);
+    }
+
+    const runs = (await this.load())
+      .filter(run =>
+        (filter.env === undefined || run.env === filter.env) &&
+        (since === undefined || new Date(run.startTime).getTime() >= since)
+      )
+      .map(run => filter.tag === undefined
+        ? run
+        : { ...run, scenarios: run.scenarios.filter(scenario => scenario.tag === filter.tag) })
+      .filter(run => run.scenarios.length > 0);
+    return filter.last !== undefined ? runs.slice(-filter.last) : runs;
+  }
+
+  /**
+   * Pass rate per scenario, lowest first
+   */
+  async passRates(filter: HistoryFilter = {}): Promise<PassRateTrend[]> {
+    const trends = [...byScenario(await this.runs(filter), true)].map(([tag, outcomes]) => {
+      const passed = outcomes.filter(({ scenario }) => scenario.status === "passed").length;
+      const half = Math.floor(outcomes.length / 2);
+      return {
+        tag,
+        runs: outcomes.length,
+        passed,
+        passRate: passed / outcomes.length,
+        trend: half > 0 ? passRate(outcomes.slice(-half)) - passRate(outcomes.slice(0, half)) : 0,
+        recent: outcomes.slice(-RECENT_RUNS).map(({ scenario }) => scenario.status)
+      };
+    });
+    return trends.sort((a, b) => a.passRate - b.passRate || a.tag.localeCompare(b.tag));
+  }
+
+  /**
+   * Scenarios by mean duration, slowest first
+   * @param limit Maximum number of scenarios
+   */
+  async slowest(filter: HistoryFilter = {}, limit = 10): Promise<ScenarioTiming[]> {
+    const timings = [...byScenario(await this.runs(filter), true)].map(([tag, outcomes]) => {
+      const durations = outcomes.map(({ scenario }) => scenario.duration);
+      return {
+        tag,
+        runs: outcomes.length,
+        averageDuration: Math.round(durations.reduce((sum, duration) => sum + duration, 0) / durations.length),
+        maxDuration: Math.max(...durations),
+        lastDuration: durations[durations.length - 1]!
+      };
+    });
+    return timings.sort((a, b) => b.averageDuration - a.averageDuration).slice(0, limit);
+  }
+
+  /**
+   * Scenarios by number of generated specs, most first
+   * @param limit Maximum number of scenarios
+   */
+  async mostRegenerated(filter: HistoryFilter = {}, limit = 10): Promise<ScenarioGenerations[]> {
+    const generations = [...byScenario(await this.runs(filter), false)].map(([tag, outcomes]) => {
+      const total = outcomes.reduce((sum, { scenario }) => sum + scenario.generations, 0);
+      const lastRevision = outcomes[outcomes.length - 1]!.scenario.revision;
+      return {
+        tag,
+        runs: outcomes.length,
+        generations: total,
+        perRun: total / outcomes.length,
+        tokens: outcomes.reduce((sum, { scenario }) => sum + scenario.tokens, 0),
+        ...(lastRevision !== undefined ? { lastRevision } : {})
+      };
+    });
+    return generations
+      .filter(scenario => scenario.generations > 0)
+      .sort((a, b) => b.generations - a.generations || b.perRun - a.perRun)
+      .slice(0, limit);
+  }
+
+  /**
+   * Scenarios whose latest outcome is a failure, longest failing first
+   */
+  async failingSince(filter: HistoryFilter = {}): Promise<FailingScenario[]> {
+    const failing: FailingScenario[] = [];
+    for (const [tag, outcomes] of byScenario(await this.runs(filter), true)) {
+      let lastPass = outcomes.length - 1;
+      while (lastPass >= 0 && outcomes[lastPass]!.scenario.status !== "passed") {
+        lastPass--;
+      }
+      const streak = outcomes.slice(lastPass + 1);
+      const first = streak[0];
+      const latest = streak[streak.length - 1];
+      if (!first || !latest) {
+        continue;
+      }
+      const passedIn = outcomes[lastPass]?.run;
+      failing.push({
+        tag,
+        since: reference(first.run),
+        failures: streak.length,
+        ...(passedIn ? { lastPassed: reference(passedIn) } : {}),
+        ...(latest.scenario.error ? { lastError: latest.scenario.error } : {})
+      });
+    }
+    return failing.sort((a, b) => a.since.startTime.localeCompare(b.since.startTime) || a.tag.localeCompare(b.tag));
+  }
+
+  private async load(): Promise<RunRecord[]> {
+    let raw: string;
+    try {
+      raw = await fs.promises.readFile(this.filePath, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw new RunHistoryError(
+        `Failed to read run history ${this.filePath}`,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+
+    return raw.split("\n").flatMap((line, index) => {
+      if (!line.trim()) {
+        return [];
+      }
+      try {
+        return [JSON.parse(line) as RunRecord];
+      } catch {
+        throw new RunHistoryError(`Corrupt run history ${this.filePath}`, `Line ${index + 1} is not valid JSON`);
+      }
+    });
+  }
+}
+
+/**
+ * Reduces run statistics to what the history keeps
+ */
+function toRunRecord(stats: RunStats): RunRecord {
+  return {
+    runId: stats.runId,
+    env: stats.env,
+    ...(stats.selection ? { selection: stats.selection } : {}),
+    startTime: stats.startTime,
+    duration: stats.duration ?? 0,
+    tokens: stats.usage?.totalTokens ?? 0,
+    cost: stats.usage?.cost ?? 0,
+    scenarios: stats.scenarios.map(scenario => {
+      const last = scenario.attempts[scenario.attempts.length - 1];
+      return {
+        tag: scenario.tag,
+        status: scenario.status,
+        quarantined: scenario.quarantined,
+        duration: scenario.duration,
+        attempts: scenario.attempts.length,
+        generations: scenario.attempts.filter(attempt => attempt.mode !== "locked").length,
+        ...(last?.revision !== undefined ? { revision: last.revision } : {}),
+        models: scenario.models,
+        tokens: scenario.usage.totalTokens,
+        cost: scenario.usage.cost,
+        ...(last?.error ? { error: last.error.slice(0, 500) } : {})
+      };
+    })
+  };
+}
+
+/**
+ * Groups scenario outcomes by tag, oldest first
+ * @param finishedOnly Leave out aborted outcomes
+ */
+function byScenario(
+  runs: RunRecord[],
+  finishedOnly: boolean
+): Map<string, { run: RunRecord; scenario: ScenarioRunRecord }[]> {
+  const grouped = new Map<string, { run: RunRecord; scenario: ScenarioRunRecord }[]>();
+  for (const run of runs) {
+    for (const scenario of run.scenarios) {
+      if (finishedOnly && scenario.status === "aborted") {
+        continue;
+      }
+      grouped.set(scenario.tag, [...grouped.get(scenario.tag) ?? [], { run, scenario }]);
+    }
+  }
+  return grouped;
+}
+
+function passRate(outcomes: { scenario: ScenarioRunRecord }[]): number {
+  return outcomes.filter(({ scenario }) => scenario.status === "passed").length / outcomes.length;
+}
+
+function reference(run: RunRecord): RunReference {
+  return { runId: run.runId, startTime: run.startTime };
+}
@@ -0,0 +1,440 @@
+import fs from "fs";
+import path from "path";
+import { isMap, isNode, isScalar, isSeq, LineCounter, parseDocument } from "yaml";
+import type { Document } from "yaml";
+import { matchesTagExpression } from "./tagExpression.js";
+import type { TagExpression } from "./tagExpression.js";
+
+/**
+ * Scenario suites, in YAML or JSON. A suite file is either a list of
+ * scenarios (the legacy format) or an object:
+ *
+ *   name: checkout
+ *   defaults:              # used where a scenario does not set the field
+ *     labels: ["@checkout"]  # added to the scenario's own labels
+ *     owner: shop-team
+ *     session: user        # start logged in as this user role
+ *   scenarios:
+ *     - tag: checkout_guest
+ *       description: Guest checkout with a single product
+ *       prompt: Open ${CONFIG.BASE_URL}, add a product to the cart, ...
+ *       labels: ["@smoke"]
+ *       priority: high
+ *       timeout: 120000
+ *       retryAttempts: 3
+ *       environments: [qa, uat]
+ *       features: [guest-checkout]
+ *       prodSafe: false    # true lets it run in guarded environments such as prod
+ *       model: gpt-4o
+ */
+
+/** Scenario priority; higher priorities are started first */
+export type Priority = "critical" | "high" | "medium" | "low";
+
+/**
+ * A scenario loaded from a suite file
+ */
+export interface Scenario {
+  /** Unique identifier, also the name of the generated spec */
+  tag: string;
+  /** Human-readable description */
+  description: string;
+  /** The test generation prompt */
+  prompt: string;
+  /** Labels for tag expressions, each starting with @ */
+  labels: string[];
+  /** Priority (default: medium) */
+  priority: Priority;
+  /** Team or person responsible for the scenario */
+  owner?: string;
+  /** Scenario timeout in ms (overrides SCENARIO_TIMEOUT) */
+  timeout?: number;
+  /** Maximum generation attempts (overrides RETRY_ATTEMPTS) */
+  retryAttempts?: number;
+  /** Environments the scenario may run in, by name (default: all) */
+  environments?: string[];
+  /** Feature flags the scenario needs; it is left out of environments where one is disabled */
+  features?: string[];
+  /** Whether the scenario only reads data, so it may run in guarded environments such as prod (default: false) */
+  prodSafe?: boolean;
+  /** AI model used to generate the scenario (overrides AI_MODEL) */
+  model?: string;
+  /** User role whose saved login the scenario starts with, instead of logging in itself */
+  session?: string;
+  /** Where the scenario is defined */
+  source: SourceLocation;
+}
+
+/**
+ * A position in a suite file
+ */
+export interface SourceLocation {
+  /** Suite file */
+  file: string;
+  /** 1-based line */
+  line: number;
+  /** 1-based column */
+  column: number;
+}
+
+/**
+ * A problem found while loading a suite
+ */
+export interface SuiteIssue extends SourceLocation {
+  /** Path of the offending value, e.g. scenarios[2].timeout */
+  path: string;
+  /** What is wrong */
+  message: string;
+}
+
+/**
+ * Custom error for unreadable or invalid suites
+ */
+export class SuiteError extends Error {
+  constructor(message: string, public readonly issues: SuiteIssue[] = []) {
+    super(message);
+    this.name = "SuiteError";
+  }
+}
+
+/**
+ * Where suites are loaded from by default, relative to the working directory
+ */
+export const DEFAULT_SUITE_DIR = "prompts";
+
+/**
+ * Order in which priorities are started
+ */
+export const PRIORITIES: readonly Priority[] = ["critical", "high", "medium", "low"];
+
+const SUITE_EXTENSIONS = [".yaml", ".yml", ".json"];
+const SUITE_KEYS = ["name", "defaults", "scenarios"];
+const OVERRIDE_KEYS = ["labels", "priority", "owner", "timeout", "retryAttempts", "environments", "features", "prodSafe", "model", "session"];
+const SCENARIO_KEYS = ["tag", "description", "prompt", ...OVERRIDE_KEYS];
+
+type PathSegment = string | number;
+
+/**
+ * Loads scenarios from suite files and directories (searched recursively
+ * for .yaml, .yml and .json files)
+ * @param sources Suite files or directories
+ * @returns Every scenario, in file order
+ * @throws {SuiteError} With every schema problem, located by file and line
+ */
+export async function loadSuites(sources: string | string[]): Promise<Scenario[]> {
+  const files: string[] = [];
+  for (const source of [sources].flat()) {
+    files.push(...await suiteFiles(source));
+  }
+
+  const scenarios: Scenario[] = [];
+  const issues: SuiteIssue[] = [];
+  for (const file of files) {
+    const loaded = parseSuite(await fs.promises.readFile(file, "utf-8"), file);
+    scenarios.push(...loaded.scenarios);
+    issues.push(...loaded.issues);
+  }
+
+  const seen = new Map<string, Scenario>();
+  for (const scenario of scenarios) {
+    const first = seen.get(scenario.tag);
+    if (first) {
+      issues.push({
+        ...scenario.source,
+        path: "tag",
+        message: `duplicate tag ${scenario.tag}, first defined at ${formatLocation(first.source)}`
+      });
+    } else {
+      seen.set(scenario.tag, scenario);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new SuiteError(`Invalid scenario suite (${issues.length} problem${issues.length === 1 ? "" : "s"})`, issues);
+  }
+  return scenarios;
+}
+
+/**
+ * Parses and validates one suite file
+ * @param text File content
+ * @param file File name used in scenario sources and issues
+ */
+export function parseSuite(text: string, file: string): { scenarios: Scenario[]; issues: SuiteIssue[] } {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(text, { lineCounter, prettyErrors: false });
+  const locate = (offset: number): SourceLocation => {
+    const { line, col } = lineCounter.linePos(offset);
+    return { file, line, column: col };
+  };
+
+  if (doc.errors.length > 0) {
+    return {
+      scenarios: [],
+      issues: doc.errors.map(error => ({ ...locate(error.pos[0]), path: "", message: error.message.split("\n")[0]! }))
+    };
+  }
+
+  const issues: SuiteIssue[] = [];
+  const report = (at: PathSegment[], message: string): void => {
+    issues.push({ ...locate(offsetOf(doc, at)), path: formatPath(at), message });
+  };
+
+  const root: unknown = doc.toJS();
+  let list: unknown;
+  let defaults: Record<string, unknown> = {};
+  let base: PathSegment[] = [];
+  if (Array.isArray(root)) {
+    list = root;
+  } else if (isObject(root)) {
+    unknownKeys(root, SUITE_KEYS, [], report);
+    if (root["name"] !== undefined && typeof root["name"] !== "string") {
+      report(["name"], "must be a string");
+    }
+    if (root["defaults"] !== undefined) {
+      if (isObject(root["defaults"])) {
+        defaults = root["defaults"];
+        unknownKeys(defaults, OVERRIDE_KEYS, ["defaults"], report);
+        validateOverrides(defaults, ["defaults"], report);
+      } else {
+        report(["defaults"], "must be an object");
+      }
+    }
+    list = root["scenarios"];
+    base = ["scenarios"];
+    if (!Array.isArray(list)) {
+      report(root["scenarios"] === undefined ? [] : base,
+        root["scenarios"] === undefined ? "missing scenarios" : "must be a list of scenarios");
+      return { scenarios: [], issues };
+    }
+  } else {
+    report([], "suite must be a list of scenarios or an object with a scenarios list");
+    return { scenarios: [], issues };
+  }
+
+  const scenarios: Scenario[] = [];
+  (list as unknown[]).forEach((entry, index) => {
+    const at = [...base, index];
+    if (!isObject(entry)) {
+      report(at, "must be an object");
+      return;
+    }
+    const before = issues.length;
+    unknownKeys(entry, SCENARIO_KEYS, at, report);
+    for (const key of ["tag", "description", "prompt"]) {
+      if (entry[key] === undefined) {
+        report(at, `missing ${key}`);
+      } else if (typeof entry[key] !== "string" || !entry[key].trim()) {
+        report([...at, key], "must be a non-empty string");
+      }
+    }
+    if (typeof entry["tag"] === "string" && entry["tag"].trim() && !/^[a-zA-Z0-9_-]+$/.test(entry["tag"])) {
+      report([...at, "tag"], "use only letters, numbers, underscores, and hyphens");
+    }
+    validateOverrides(entry, at, report);
+    if (issues.length > before) {
+      return;
+    }
+
+    const merged = { ...defaults, ...entry };
+    scenarios.push({
+      tag: entry["tag"] as string,
+      description: entry["description"] as string,
+      prompt: entry["prompt"] as string,
+      labels: [...new Set([
+        ...((defaults["labels"] as string[] | undefined) ?? []),
+        ...((entry["labels"] as string[] | undefined) ?? [])
+      ].map(normalizeLabel))],
+      priority: (merged["priority"] as Priority | undefined) ?? "medium",
+      ...(merged["owner"] !== undefined ? { owner: merged["owner"] as string } : {}),
+      ...(merged["timeout"] !== undefined ? { timeout: merged["timeout"] as number } : {}),
+      ...(merged["retryAttempts"] !== undefined ? { retryAttempts: merged["retryAttempts"] as number } : {}),
+      ...(merged["environments"] !== undefined ? { environments: merged["environments"] as string[] } : {}),
+      ...(merged["features"] !== undefined ? { features: merged["features"] as string[] } : {}),
+      ...(merged["prodSafe"] !== undefined ? { prodSafe: merged["prodSafe"] as boolean } : {}),
+      ...(merged["model"] !== undefined ? { model: merged["model"] as string } : {}),
+      ...(merged["session"] !== undefined ? { session: merged["session"] as string } : {}),
+      source: locate(offsetOf(doc, at))
+    });
+  });
+
+  return { scenarios, issues };
+}
+
+/**
+ * Validates the fields a scenario can override
+ */
+function validateOverrides(
+  value: Record<string, unknown>,
+  at: PathSegment[],
+  report: (at: PathSegment[], message: string) => void
+): void {
+  const labels = value["labels"];
+  if (labels !== undefined) {
+    if (!Array.isArray(labels)) {
+      report([...at, "labels"], "must be a list of strings");
+    } else {
+      labels.forEach((label, index) => {
+        if (typeof label !== "string" || !/^@?[\w.:-]+$/.test(label)) {
+          report([...at, "labels", index], "must be a name like @smoke (letters, numbers, _ . : -)");
+        }
+      });
+    }
+  }
+  if (value["priority"] !== undefined && !PRIORITIES.includes(value["priority"] as Priority)) {
+    report([...at, "priority"], `must be one of ${PRIORITIES.join(", ")}`);
+  }
+  for (const key of ["owner", "model"]) {
+    if (value[key] !== undefined && (typeof value[key] !== "string" || !value[key].trim())) {
+      report([...at, key], "must be a non-empty string");
+    }
+  }
+  const session = value["session"];
+  if (session !== undefined && (typeof session !== "string" || !/^[a-zA-Z0-9_-]+$/.test(session))) {
+    report([...at, "session"], "must be a role name (letters, numbers, _ -)");
+  }
+  if (value["prodSafe"] !== undefined && typeof value["prodSafe"] !== "boolean") {
+    report([...at, "prodSafe"], "must be true or false");
+  }
+  for (const key of ["timeout", "retryAttempts"]) {
+    const field = value[key];
+    if (field !== undefined && (typeof field !== "number" || !Number.isInteger(field) || field < 1)) {
+      report([...at, key], "must be a positive integer");
+    }
+  }
+  // Environments are declared in the config file, which suites are read without
+  const names: [string, RegExp, string][] = [
+    ["environments", /^[a-z0-9_-]+$/, "must be an environment name (lower-case letters, numbers, _ -)"],
+    ["features", /^[a-zA-Z0-9_-]+$/, "must be a feature flag name (letters, numbers, _ -)"]
+  ];
+  for (const [key, pattern, message] of names) {
+    const list = value[key];
+    if (list === undefined) {
+      continue;
+    }
+    if (!Array.isArray(list) || list.length === 0) {
+      report([...at, key], "must be a non-empty list");
+    } else {
+      list.forEach((name, index) => {
+        if (typeof name !== "string" || !pattern.test(name)) {
+          report([...at, key, index], message);
+        }
+      });
+    }
+  }
+}
+
+function unknownKeys(
+  value: Record<string, unknown>,
+  known: string[],
+  at: PathSegment[],
+  report: (at: PathSegment[], message: string) => void
+): void {
+  for (const key of Object.keys(value)) {
+    if (!known.includes(key)) {
+      report([...at, key], `unknown field (expected one of ${known.join(", ")})`);
+    }
+  }
+}
+
+/**
+ * Returns the offset of the value at a path (the key, for a map entry), or
+ * of its closest existing parent
+ */
+function offsetOf(doc: Document, at: PathSegment[]): number {
+  for (let length = at.length; length > 0; length--) {
+    const parent = length === 1 ? doc.contents : doc.getIn(at.slice(0, length - 1), true);
+    const last = at[length - 1];
+    if (isMap(parent)) {
+      const key = parent.items.find(item => isScalar(item.key) && item.key.value === last)?.key;
+      if (isNode(key) && key.range) {
+        return key.range[0];
+      }
+    } else if (isSeq(parent) && typeof last === "number") {
+      const item = parent.items[last];
+      if (isNode(item) && item.range) {
+        return item.range[0];
+      }
+    }
+  }
+  return isNode(doc.contents) && doc.contents.range ? doc.contents.range[0] : 0;
+}
+
+function normalizeLabel(label: string): string {
+  return label.startsWith("@") ? label : `@${label}`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function formatPath(at: PathSegment[]): string {
+  return at.reduce<string>((text, segment) =>
+    typeof segment === "number" ? `${text}[${segment}]` : text ? `${text}.${segment}` : segment, "");
+}
+
+function formatLocation(location: SourceLocation): string {
+  return `${path.relative(process.cwd(), location.file) || location.file}:${location.line}:${location.column}`;
+}
+
+/**
+ * Formats an issue as "file:line:column path: message"
+ */
+export function formatIssue(issue: SuiteIssue): string {
+  return `${formatLocation(issue)} ${issue.path ? `${issue.path}: ` : ""}${issue.message}`;
+}
+
+/**
+ * Picks the scenarios to run: those matching the expression that may run in
+ * the environment, higher priorities first. The sort is stable, so suite
+ * order is kept within a priority.
+ * @param scenarios Loaded scenarios
+ * @param expression Tag expression (default: every scenario)
+ * @param env Target environment (default: keep scenarios of every environment)
+ * @param features Feature flags of the target environment; flags it does not
+ *     declare are disabled (default: keep scenarios needing any flag)
+ * @param guarded Whether the target environment is guarded, so only prod-safe
+ *     scenarios may run in it (default: false)
+ * @returns The scenarios to run, and the matching ones restricted to other
+ *     environments, needing a disabled feature or not prod-safe
+ */
+export function selectScenarios(
+  scenarios: readonly Scenario[],
+  expression: TagExpression | undefined,
+  env?: string,
+  features?: Readonly<Record<string, boolean>>,
+  guarded = false
+): { selected: Scenario[]; excluded: Scenario[] } {
+  const matching = expression
+    ? scenarios.filter(scenario => matchesTagExpression(expression, scenario))
+    : [...scenarios];
+  const excluded = matching.filter(scenario =>
+    (env && scenario.environments && !scenario.environments.includes(env)) ||
+    (features && scenario.features?.some(feature => !features[feature])) ||
+    (guarded && !scenario.prodSafe));
+  const selected = matching
+    .filter(scenario => !excluded.includes(scenario))
+    .sort((a, b) => PRIORITIES.indexOf(a.priority) - PRIORITIES.indexOf(b.priority));
+  return { selected, excluded };
+}
+
+/**
+ * Lists the suite files of a file or directory, sorted by path
+ * @throws {SuiteError} If the source does not exist
+ */
+async function suiteFiles(source: string): Promise<string[]> {
+  let stat: fs.Stats;
+  try {
+    stat = await fs.promises.stat(source);
+  } catch {
+    throw new SuiteError(`Suite not found: ${source}`);
+  }
+  if (!stat.isDirectory()) {
+    return [source];
+  }
+  const entries = await fs.promises.readdir(source, { recursive: true, withFileTypes: true });
+  return entries
+    .filter(entry => entry.isFile() && SUITE_EXTENSIONS.includes(path.extname(entry.name).toLowerCase()))
+    .map(entry => path.join(entry.parentPath, entry.name))
+    .sort();
+}
@@ -0,0 +1,152 @@
+/**
+ * Boolean expressions that select scenarios, e.g. "@smoke and not @slow".
+ *
+ * expression := term ("or" term)*
+ * term       := factor ("and" factor)*
+ * factor     := "not" factor | "(" expression ")" | atom
+ *
+ * An atom starting with @ matches a scenario label (case-insensitive);
+ * any other atom matches a scenario tag exactly, so a bare tag still
+ * selects a single scenario.
+ */
+
+/**
+ * Parsed tag expression
+ */
+export type TagExpression =
+  | { kind: "label"; label: string }
+  | { kind: "tag"; tag: string }
+  | { kind: "not"; operand: TagExpression }
+  | { kind: "and" | "or"; left: TagExpression; right: TagExpression };
+
+/**
+ * What a tag expression is matched against
+ */
+export interface TagTarget {
+  /** Scenario tag */
+  tag: string;
+  /** Scenario labels, including the leading @ */
+  labels: readonly string[];
+}
+
+/**
+ * Custom error for malformed tag expressions
+ */
+export class TagExpressionError extends Error {
+  constructor(message: string, public readonly details?: unknown) {
+    super(message);
+    this.name = "TagExpressionError";
+  }
+}
+
+interface Token {
+  /** Operator, parenthesis or atom text */
+  text: string;
+  /** 0-based offset in the source */
+  offset: number;
+}
+
+const KEYWORDS = ["and", "or", "not"];
+
+/**
+ * Parses a tag expression
+ * @throws {TagExpressionError} If the expression is malformed
+ */
+export function parseTagExpression(source: string): TagExpression {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+  const isKeyword = (token: Token | undefined, keyword: string): boolean =>
+    token !== undefined && token.text.toLowerCase() === keyword;
+  const fail = (message: string, token: Token | undefined): never => {
+    const offset = token?.offset ?? source.length;
+    throw new TagExpressionError(`${message} at position ${offset + 1} of "${source}"`, { offset });
+  };
+
+  const parseExpression = (): TagExpression => {
+    let left = parseTerm();
+    while (isKeyword(peek(), "or")) {
+      position++;
+      left = { kind: "or", left, right: parseTerm() };
+    }
+    return left;
+  };
+
+  const parseTerm = (): TagExpression => {
+    let left = parseFactor();
+    while (isKeyword(peek(), "and")) {
+      position++;
+      left = { kind: "and", left, right: parseFactor() };
+    }
+    return left;
+  };
+
+  const parseFactor = (): TagExpression => {
+    const token = peek();
+    if (token === undefined) {
+      return fail("Expected a label, tag, 'not' or '('", token);
+    }
+    if (isKeyword(token, "not")) {
+      position++;
+      return { kind: "not", operand: parseFactor() };
+    }
+    if (token.text === "(") {
+      position++;
+      const inner = parseExpression();
+      if (peek()?.text !== ")") {
+        fail("Expected ')'", peek());
+      }
+      position++;
+      return inner;
+    }
+    if (token.text === ")" || KEYWORDS.includes(token.text.toLowerCase())) {
+      return fail(`Unexpected '${token.text}'`, token);
+    }
+    position++;
+    if (token.text.startsWith("@")) {
+      if (token.text.length === 1) {
+        fail("Expected a label name after '@'", token);
+      }
+      return { kind: "label", label: token.text.toLowerCase() };
+    }
+    return { kind: "tag", tag: token.text };
+  };
+
+  if (tokens.length === 0) {
+    throw new TagExpressionError("Tag expression is empty");
+  }
+  const expression = parseExpression();
+  if (position < tokens.length) {
+    fail(`Unexpected '${tokens[position]!.text}'`, tokens[position]);
+  }
+  return expression;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:([()])|([^\s()]+))/gy;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null && match[0].length > 0) {
+    tokens.push({ text: match[1] ?? match[2]!, offset: match.index + match[0].length - (match[1] ?? match[2]!).length });
+  }
+  return tokens;
+}
+
+/**
+ * Checks whether a scenario is selected by an expression
+ */
+export function matchesTagExpression(expression: TagExpression, target: TagTarget): boolean {
+  switch (expression.kind) {
+    case "label":
+      return target.labels.some(label => label.toLowerCase() === expression.label);
+    case "tag":
+      return target.tag === expression.tag;
+    case "not":
+      return !matchesTagExpression(expression.operand, target);
+    case "and":
+      return matchesTagExpression(expression.left, target) && matchesTagExpression(expression.right, target);
+    case "or":
+      return matchesTagExpression(expression.left, target) || matchesTagExpression(expression.right, target);
+  }
+}
@@ -3,10 +3,17 @@ import type { Request, Response } from "express";
 import path from "path";
 import bodyParser from "body-parser";
 import { spawn, ChildProcess } from "child_process";
+import crypto from "crypto";
 import dotenv from "dotenv";
 import helmet from "helmet";
 import cors from "cors";
 import { createLogger, format, transports } from "winston";
+import { CONFIG, ConfigError, configFilePath, environmentGuard, environmentNames } from "../config.js";
+import type { Guard } from "../config.js";
+import { redactFormat, redactSecrets } from "../utils/redaction.js";
+import { RESULT_LINE_PREFIX } from "../utils/testExecutor.js";
+import { RunHistory, RunHistoryError } from "../orchestrator/runHistory.js";
+import type { HistoryFilter } from "../orchestrator/runHistory.js";
 
 // Load environment variables
 dotenv.config();
@@ -20,6 +27,16 @@ interface RunRequest {
   prompt: string;
   tag: string;
   env?: string;
+  /** Confirmation token, required for guarded environments */
+  confirm?: string;
+}
+
+interface HistoryQuery {
+  tag?: string;
+  env?: string;
+  since?: string;
+  last?: string;
+  limit?: string;
 }
 
 interface ErrorResponse {
@@ -30,6 +47,7 @@ interface ErrorResponse {
 // Configure logger
 const logger = createLogger({
   format: format.combine(
+    redactFormat(),
     format.timestamp(),
     format.json()
   ),
@@ -99,10 +117,24 @@ app.get("/events", (req: Request, res: SSEClient) => {
   });
 });
 
+// Environments a run can target: declared in the config file or given a BASE_URL_<ENV> variable
+app.get("/environments", (_req: Request, res: Response): void => {
+  try {
+    const environments = environmentNames().map(name => ({ name, guarded: environmentGuard(name).enabled }));
+    res.json({ default: CONFIG.ENV, environments });
+  } catch (error) {
+    logger.error('Error in /environments endpoint:', error);
+    res.status(500).json({
+      error: "Invalid configuration",
+      details: error instanceof ConfigError ? error.issues : error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
 // Run test endpoint
 app.post("/run", (req: Request<{}, any, RunRequest>, res: Response): Response | void => {
   try {
-    const { prompt, tag, env } = req.body;
+    const { prompt, tag, env, confirm } = req.body;
 
     if (!prompt || !tag) {
       const error: ErrorResponse = { error: "Missing required fields" };
@@ -111,27 +143,43 @@ app.post("/run", (req: Request<{}, any, RunRequest>, res: Response): Response |
       return res.status(400).json(error);
     }
 
-    if (env) {
-      if (!["qa", "uat", "prod"].includes(env)) {
-        return res.status(400).json({
-          error: "Invalid environment",
-          details: `env must be one of: qa, uat, prod`
-        });
-      }
-      process.env['ENV'] = env;
+    const environments = environmentNames();
+    if (env && !environments.includes(env)) {
+      return res.status(400).json({
+        error: "Invalid environment",
+        details: environments.length > 0
+          ? `env must be one of: ${environments.join(", ")}`
+          : `no environment is declared in ${configFilePath()}`
+      });
     }
 
+    // Guarded environments hold real data, so runs against them must be confirmed
+    const target = env || CONFIG.ENV;
+    const guard = environmentGuard(target);
+    if (guard.enabled && !isConfirmed(confirm, guard)) {
+      return res.status(403).json({
+        error: "Run not confirmed",
+        details: guard.confirmationToken
+          ? `${target} is guarded; confirm the run with the token in ${guard.confirmationVariable}`
+          : `${target} is guarded and ${guard.confirmationVariable} is not set, so runs against it cannot be started here`
+      });
+    }
+    logger.info(`Starting ${tag} in ${target}${guard.enabled ? " (guarded, confirmed)" : ""}`);
+
     const args = ["run", "ai:run", tag];
     const child = spawn("npm", args, {
-      env: process.env,
+      env: { ...process.env, ...(env ? { ENV: env } : {}) },
       stdio: ['ignore', 'pipe', 'pipe']
     });
 
     activeProcesses.add(child);
 
+    // Scenario results arrive as prefixed JSON lines, so read stdout line by line
+    let pending = "";
     child.stdout.on("data", (data) => {
-      broadcast(String(data));
-      logger.debug(String(data));
+      const lines = (pending + String(data)).split("\n");
+      pending = lines.pop() ?? "";
+      lines.forEach(handleOutputLine);
     });
 
     child.stderr.on("data", (data) => {
@@ -141,6 +189,9 @@ app.post("/run", (req: Request<{}, any, RunRequest>, res: Response): Response |
     });
 
     child.on("close", (code) => {
+      if (pending) {
+        handleOutputLine(pending);
+      }
       const message = `Process exited with code ${code}`;
       broadcast(message);
       logger.info(message);
@@ -157,9 +208,91 @@ app.post("/run", (req: Request<{}, any, RunRequest>, res: Response): Response |
   }
 });
 
+/**
+ * Whether a run is confirmed with the guard's token, compared in constant time
+ */
+function isConfirmed(confirm: unknown, guard: Guard): boolean {
+  if (!guard.confirmationToken || typeof confirm !== "string") {
+    return false;
+  }
+  const digest = (value: string): Buffer => crypto.createHash("sha256").update(value).digest();
+  return crypto.timingSafeEqual(digest(confirm), digest(guard.confirmationToken));
+}
+
+// Created on first request, so a broken configuration only fails the history endpoint
+let runHistory: RunHistory | undefined;
+const HISTORY_VIEWS = ["runs", "trends", "slowest", "regenerated", "failing"];
+
+// Run history endpoint: /history/<view>?tag=&env=&since=&last=&limit=
+app.get("/history/:view", async (req: Request<{ view: string }, any, any, HistoryQuery>, res: Response): Promise<Response | void> => {
+  try {
+    const { view } = req.params;
+    if (!HISTORY_VIEWS.includes(view)) {
+      return res.status(404).json({
+        error: "Unknown history view",
+        details: `view must be one of: ${HISTORY_VIEWS.join(", ")}`
+      });
+    }
+
+    const { tag, env, since, last, limit } = req.query;
+    for (const [name, value] of Object.entries({ last, limit })) {
+      if (value !== undefined && !/^[1-9]\d*$/.test(value)) {
+        return res.status(400).json({ error: `Invalid ${name}`, details: `${name} must be a positive integer` });
+      }
+    }
+    if (since !== undefined && Number.isNaN(new Date(since).getTime())) {
+      return res.status(400).json({ error: "Invalid since", details: "since must be a date, e.g. 2024-05-01" });
+    }
+    const filter: HistoryFilter = {
+      ...(typeof tag === "string" ? { tag } : {}),
+      ...(typeof env === "string" ? { env } : {}),
+      ...(typeof since === "string" ? { since } : {}),
+      ...(last ? { last: Number(last) } : {})
+    };
+    const max = limit ? Number(limit) : undefined;
+
+    runHistory ??= new RunHistory();
+    switch (view) {
+      case "runs":
+        return res.json(await runHistory.runs(filter));
+      case "trends":
+        return res.json(await runHistory.passRates(filter));
+      case "slowest":
+        return res.json(await runHistory.slowest(filter, max));
+      case "regenerated":
+        return res.json(await runHistory.mostRegenerated(filter, max));
+      default:
+        return res.json(await runHistory.failingSince(filter));
+    }
+  } catch (error) {
+    logger.error('Error in /history endpoint:', error);
+    res.status(500).json({
+      error: error instanceof RunHistoryError ? error.message : "Internal server error",
+      details: error instanceof RunHistoryError ? error.details : error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+/**
+ * Forwards a line of orchestrator output: scenario results become `result`
+ * events, everything else a log message
+ */
+function handleOutputLine(line: string): void {
+  if (line.startsWith(RESULT_LINE_PREFIX)) {
+    broadcast(line.slice(RESULT_LINE_PREFIX.length), "result");
+    return;
+  }
+  if (line.trim()) {
+    broadcast(line);
+    logger.debug(line);
+  }
+}
+
 // Broadcast message to all connected clients
-function broadcast(message: string): void {
-  const formattedMessage = `data: ${message.trim()}\n\n`;
+function broadcast(message: string, event?: string): void {
+  // Every line of a multi-line message needs its own data: field
+  const data = redactSecrets(message.trim()).split("\n").map(line => `data: ${line}`).join("\n");
+  const formattedMessage = `${event ? `event: ${event}\n` : ""}${data}\n\n`;
   clients.forEach(client => {
     try {
       client.write(formattedMessage);
@@ -0,0 +1,84 @@
+import { queryExchanges } from "../agents/auditLog.js";
+import type { AIExchange, ExchangeFilter } from "../agents/auditLog.js";
+
+/**
+ * Command line options for the audit query
+ */
+interface QueryArgs {
+  filter: ExchangeFilter;
+  /** Print raw JSONL instead of a readable listing */
+  json: boolean;
+  /** Include prompt and completion text */
+  full: boolean;
+}
+
+const USAGE = `Usage: npm run ai:audit -- [--run <runId>] [--tag <scenario>] [--full] [--json]`;
+
+/**
+ * Parses command line arguments
+ * @throws {Error} If an option is unknown or missing its value
+ */
+function parseArgs(argv: string[]): QueryArgs {
+  const args: QueryArgs = { filter: {}, json: false, full: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case "--run":
+      case "--tag": {
+        const value = argv[++i];
+        if (!value) {
+          throw new Error(`Missing value for ${arg}`);
+        }
+        if (arg === "--run") {
+          args.filter.runId = value;
+        } else {
+          args.filter.scenario = value;
+        }
+        break;
+      }
+      case "--json":
+        args.json = true;
+        break;
+      case "--full":
+        args.full = true;
+        break;
+      default:
+        throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+  return args;
+}
+
+/**
+ * Formats one exchange for the terminal
+ */
+function describe(exchange: AIExchange, full: boolean): string {
+  const lines = [
+    `${exchange.timestamp}  ${exchange.runId ?? "-"}  ${exchange.scenario ?? "-"}#${exchange.attempt ?? "-"}`,
+    `  ${exchange.provider}/${exchange.model}  system=${exchange.systemPromptVersion}  ` +
+      `${exchange.usage?.totalTokens ?? 0} tokens  ${exchange.latencyMs}ms${exchange.cached ? "  (cached)" : ""}`,
+    `  output: ${exchange.outputPath ?? "-"}`
+  ];
+  if (exchange.error) {
+    lines.push(`  error: ${exchange.error}`);
+  }
+  if (full) {
+    lines.push("  --- prompt ---", exchange.prompt, "  --- completion ---", exchange.completion ?? "");
+  }
+  return lines.join("\n");
+}
+
+try {
+  const args = parseArgs(process.argv.slice(2));
+  const exchanges = await queryExchanges(args.filter);
+  if (args.json) {
+    exchanges.forEach(exchange => console.log(JSON.stringify(exchange)));
+  } else {
+    exchanges.forEach(exchange => console.log(describe(exchange, args.full) + "\n"));
+    console.log(`${exchanges.length} exchange(s)`);
+  }
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error));
+  console.error(USAGE);
+  process.exit(1);
+}
@@ -0,0 +1,542 @@
+import fs from "fs";
+import path from "path";
+import ts from "typescript";
+import { CONFIG } from "../config.js";
+import { SAFE_METHODS } from "./requestGuard.js";
+import { workspace } from "./workspace.js";
+
+/**
+ * What AI-generated test code is allowed to do
+ */
+export interface CodePolicy {
+  /** Bare module specifiers that may be imported */
+  allowedImports: string[];
+  /** Directories the project modules are looked up in */
+  projectRoots: string[];
+  /** Project modules relative imports may target, relative to a project root and without extension */
+  allowedModules: string[];
+  /** Globals that may be referenced without being declared or imported */
+  allowedGlobals: string[];
+  /** Hosts that navigation and API requests may target */
+  allowedHosts: string[];
+  /** Actions that change data are forbidden, in guarded environments (default: allowed) */
+  guard?: MutationGuard;
+}
+
+/**
+ * What a spec may not do in a guarded environment
+ */
+export interface MutationGuard {
+  /** Words in the target of a click that changes data, e.g. checkout or delete */
+  mutatingActions: string[];
+  /** Parts of URLs on which submitting a form changes data */
+  deniedRoutes: string[];
+  /** Whether the spec must block mutating requests with guardRequests() */
+  requireRequestGuard: boolean;
+}
+
+/**
+ * Policy rules a violation can break
+ */
+export type PolicyRule = "import" | "global" | "dynamic-code" | "navigation" | "mutation";
+
+/**
+ * A single policy violation
+ */
+export interface PolicyViolation {
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+  /** Rule that was broken */
+  rule: PolicyRule;
+  /** Human-readable explanation */
+  message: string;
+}
+
+/**
+ * Raised when generated code violates the policy
+ */
+export class PolicyViolationError extends Error {
+  constructor(message: string, public readonly violations: PolicyViolation[]) {
+    super(message);
+    this.name = "PolicyViolationError";
+  }
+}
+
+const DEFAULT_IMPORTS = ["@playwright/test"];
+
+// The helpers generated specs are told to use; everything else in the project stays off limits
+const DEFAULT_MODULES = ["src/utils/safeActions", "src/config", "src/utils/sessionState", "src/utils/requestGuard"];
+
+const DEFAULT_GLOBALS = [
+  "undefined", "NaN", "Infinity", "console",
+  "Array", "Boolean", "Date", "Error", "JSON", "Map", "Math", "Number", "Object",
+  "Promise", "RegExp", "Set", "String", "Symbol", "URL", "URLSearchParams",
+  "parseInt", "parseFloat", "isNaN", "encodeURIComponent", "decodeURIComponent",
+  "setTimeout", "clearTimeout",
+  // Only meaningful inside page.evaluate callbacks, which run in the browser
+  "document", "window"
+];
+
+// Calls that execute strings as code
+const DYNAMIC_CODE_CALLS = ["eval", "Function", "require"];
+// Calls that execute a string first argument as code
+const STRING_TIMER_CALLS = ["setTimeout", "setInterval"];
+// Properties that reach the Function constructor or the prototype chain, e.g. [].constructor.constructor("code")
+const DYNAMIC_CODE_PROPERTIES = ["constructor", "__proto__"];
+// Methods that run code in the page, by the index of the argument that must be an inline function
+const PAGE_CODE_METHODS = new Map([
+  ["evaluate", 0], ["evaluateHandle", 0], ["evaluateAll", 0], ["addInitScript", 0], ["$eval", 1], ["$$eval", 1]
+]);
+// Methods whose first argument is a URL the test navigates to or requests
+const NAVIGATION_METHODS = ["goto", "waitForURL"];
+const REQUEST_METHODS = ["get", "post", "put", "patch", "delete", "head", "fetch"];
+// Request methods that change data
+const MUTATING_REQUEST_METHODS = ["post", "put", "patch", "delete"];
+// Methods and helpers that click their target
+const CLICK_METHODS = ["click", "dblclick", "tap"];
+const CLICK_HELPERS = ["clickSafe"];
+// Targets that submit the form they belong to
+const SUBMIT_TARGET = /\b(?:submit|button|save|continue|send|register|update|apply)\b/i;
+
+/**
+ * Builds the policy from configuration: navigation is limited to the host of
+ * CONFIG.BASE_URL plus AI_ALLOWED_HOSTS, relative imports to the framework
+ * helpers, and the import/global allowlists are extended by AI_ALLOWED_IMPORTS
+ * and AI_ALLOWED_GLOBALS. In a guarded environment, specs may not change data
+ * either.
+ */
+export function defaultPolicy(): CodePolicy {
+  const hosts = [...CONFIG.AI_ALLOWED_HOSTS];
+  try {
+    hosts.push(new URL(CONFIG.BASE_URL).host);
+  } catch {
+    // A BASE_URL that is not a URL allows no extra host
+  }
+  return {
+    allowedImports: [...DEFAULT_IMPORTS, ...CONFIG.AI_ALLOWED_IMPORTS],
+    projectRoots: [process.cwd(), workspace.root],
+    allowedModules: [...DEFAULT_MODULES],
+    allowedGlobals: [...DEFAULT_GLOBALS, ...CONFIG.AI_ALLOWED_GLOBALS],
+    allowedHosts: hosts,
+    ...(CONFIG.GUARD.enabled ? {
+      guard: {
+        mutatingActions: [...CONFIG.GUARD.mutatingActions],
+        deniedRoutes: [...CONFIG.GUARD.deniedRoutes],
+        requireRequestGuard: CONFIG.GUARD.blockMutatingRequests
+      }
+    } : {})
+  };
+}
+
+/**
+ * Statically checks test code against the policy
+ * @param code Source code of the spec
+ * @param filePath Location of the spec (resolves relative imports)
+ * @param policy Policy to enforce
+ * @returns Violations in source order; empty if the code is allowed
+ */
+export function checkCodePolicy(code: string, filePath: string, policy: CodePolicy): PolicyViolation[] {
+  const sourceFile = ts.createSourceFile(filePath, code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  const violations: PolicyViolation[] = [];
+  const declared = collectDeclaredNames(sourceFile);
+  const guard = policy.guard;
+  const mutatingAction = guard && guard.mutatingActions.length > 0
+    ? new RegExp(`\\b(?:${guard.mutatingActions.map(escapeRegExp).join("|")})\\b`, "i")
+    : undefined;
+  // Any mention of a denied route, in a navigation, URL assertion or link, puts its forms off limits
+  const fileTexts = guard && guard.deniedRoutes.length > 0 ? literalTexts(sourceFile) : [];
+  const deniedRoute = guard?.deniedRoutes.find(route => fileTexts.some(text => text.includes(route)));
+  let requestsGuarded = false;
+
+  const report = (node: ts.Node, rule: PolicyRule, message: string): void => {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+    violations.push({ line: line + 1, column: character + 1, rule, message });
+  };
+
+  const checkSpecifier = (node: ts.Node, specifier: string): void => {
+    if (specifier.startsWith(".")) {
+      const resolved = path.resolve(path.dirname(filePath), specifier).replace(/\.[cm]?[jt]s$/, "");
+      const allowed = policy.projectRoots.some(root =>
+        policy.allowedModules.includes(path.relative(root, resolved).split(path.sep).join("/")));
+      if (!allowed) {
+        report(node, "import",
+          `Relative import '${specifier}' is not allowed (allowed: ${policy.allowedModules.join(", ") || "none"})`);
+      }
+    } else if (!policy.allowedImports.includes(specifier)) {
+      report(node, "import", `Import of '${specifier}' is not allowed`);
+    }
+  };
+
+  /**
+   * @param requests Whether the call loads the URL, so a computed one could reach any host
+   */
+  const checkUrl = (node: ts.Expression, method: string, requests: boolean): void => {
+    if (extendsBaseUrl(node)) {
+      return;
+    }
+    const url = literalText(node);
+    if (url === undefined) {
+      if (requests) {
+        report(node, "navigation", `${method}() needs a string literal URL, or one that starts with CONFIG.BASE_URL followed by a path`);
+      }
+      return;
+    }
+    const absolute = /^[a-z][a-z0-9+.-]*:/i.test(url);
+    if (!absolute && !url.startsWith("//")) {
+      // Relative URLs resolve against the page or the configured baseURL
+      return;
+    }
+    if (!ts.isStringLiteral(node) && !ts.isNoSubstitutionTemplateLiteral(node) && !/^[^/]*\/\/[^/?#]*[/?#]/.test(url)) {
+      report(node, "navigation", `${method}() to a URL whose host is computed is not allowed`);
+      return;
+    }
+    let host: string;
+    try {
+      host = new URL(url, "https://relative.invalid").host;
+    } catch {
+      report(node, "navigation", `${method}() to unparseable URL '${url}'`);
+      return;
+    }
+    if (!policy.allowedHosts.includes(host)) {
+      report(node, "navigation", `${method}() to host '${host}' is not allowed (allowed: ${policy.allowedHosts.join(", ") || "none"})`);
+    }
+  };
+
+  const visit = (node: ts.Node): void => {
+    // Type-only constructs never run
+    if (ts.isTypeNode(node) || ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) {
+      return;
+    }
+
+    if ((ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) &&
+        node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+      checkSpecifier(node.moduleSpecifier, node.moduleSpecifier.text);
+    } else if (ts.isImportEqualsDeclaration(node)) {
+      report(node, "dynamic-code", "import = require() is not allowed");
+    } else if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+      checkCall(node);
+    } else if (ts.isPropertyAccessExpression(node) && DYNAMIC_CODE_PROPERTIES.includes(node.name.text)) {
+      report(node.name, "dynamic-code", `Access to .${node.name.text} is not allowed`);
+    } else if (ts.isElementAccessExpression(node) && isComputedName(node.argumentExpression)) {
+      report(node.argumentExpression, "dynamic-code", "Property names built from strings are not allowed");
+    } else if ((ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) &&
+               DYNAMIC_CODE_PROPERTIES.includes(node.text)) {
+      report(node, "dynamic-code", `'${node.text}' is not allowed as a string`);
+    } else if (ts.isIdentifier(node) && isValueReference(node) && !declared.has(node.text)) {
+      if (DYNAMIC_CODE_CALLS.includes(node.text)) {
+        // Direct calls are reported by checkCall; this catches aliasing such as (0, eval)(code)
+        const parent = node.parent;
+        if (!((ts.isCallExpression(parent) || ts.isNewExpression(parent)) && parent.expression === node)) {
+          report(node, "dynamic-code", `Reference to ${node.text} is not allowed`);
+        }
+      } else if (!policy.allowedGlobals.includes(node.text)) {
+        report(node, "global", `Global '${node.text}' is not allowed`);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  const checkMutation = (node: ts.CallExpression | ts.NewExpression, method: string, target: ts.Node[]): void => {
+    // Identifiers such as checkoutButton are matched as words ("checkout Button")
+    const texts = target.flatMap(part => [...literalTexts(part), ...identifierNames(part)]);
+    const mutating = mutatingAction && texts.find(text => mutatingAction.test(splitWords(text)));
+    if (mutating) {
+      report(node, "mutation", `${method}() on '${mutating}' may change data, which this environment forbids`);
+    } else if (deniedRoute && (method === "press" || texts.some(text => SUBMIT_TARGET.test(splitWords(text))))) {
+      report(node, "mutation", `${method}() may submit a form on denied route '${deniedRoute}'`);
+    }
+  };
+
+  const checkCall = (node: ts.CallExpression | ts.NewExpression): void => {
+    const callee = node.expression;
+    const args = node.arguments ?? ts.factory.createNodeArray<ts.Expression>();
+    const firstArg = args[0];
+
+    if (ts.isIdentifier(callee) && callee.text === "guardRequests") {
+      requestsGuarded = true;
+    }
+    if (guard && ts.isIdentifier(callee) && CLICK_HELPERS.includes(callee.text)) {
+      checkMutation(node, callee.text, args.slice(1));
+    }
+    if (guard && ts.isPropertyAccessExpression(callee)) {
+      const method = callee.name.text;
+      if (CLICK_METHODS.includes(method)) {
+        checkMutation(node, method, [callee.expression]);
+      } else if (method === "press" && firstArg && literalText(firstArg) === "Enter") {
+        checkMutation(node, method, [callee.expression]);
+      } else if ((method === "submit" || method === "requestSubmit") && deniedRoute) {
+        report(node, "mutation", `${method}() submits a form on denied route '${deniedRoute}'`);
+      } else if (MUTATING_REQUEST_METHODS.includes(method) && isRequestContext(callee.expression)) {
+        report(node, "mutation", `request.${method}() changes data, which this environment forbids`);
+      } else if (method === "fetch" && isRequestContext(callee.expression) && !isSafeFetch(args[1])) {
+        report(node, "mutation", "request.fetch() with a method other than GET, HEAD or OPTIONS may change data");
+      }
+    }
+
+    if (callee.kind === ts.SyntaxKind.ImportKeyword) {
+      report(node, "dynamic-code", "Dynamic import() is not allowed");
+      return;
+    }
+    if (ts.isIdentifier(callee) && !declared.has(callee.text)) {
+      if (DYNAMIC_CODE_CALLS.includes(callee.text)) {
+        report(node, "dynamic-code", `${callee.text}() executes dynamic code`);
+      } else if (STRING_TIMER_CALLS.includes(callee.text) && firstArg && literalText(firstArg) !== undefined) {
+        report(node, "dynamic-code", `${callee.text}() with a string argument executes dynamic code`);
+      }
+    }
+    if (ts.isPropertyAccessExpression(callee) && firstArg) {
+      const method = callee.name.text;
+      if (NAVIGATION_METHODS.includes(method)) {
+        checkUrl(firstArg, method, method === "goto");
+      } else if (REQUEST_METHODS.includes(method) && isRequestContext(callee.expression)) {
+        checkUrl(firstArg, `request.${method}`, true);
+      }
+    }
+    const codeIndex = ts.isPropertyAccessExpression(callee) ? PAGE_CODE_METHODS.get(callee.name.text) : undefined;
+    if (ts.isPropertyAccessExpression(callee) && codeIndex !== undefined) {
+      const code = args[codeIndex];
+      if (code && !ts.isArrowFunction(code) && !ts.isFunctionExpression(code)) {
+        report(code, "dynamic-code", `${callee.name.text}() must be given an inline function, not a string or other value`);
+      }
+    }
+  };
+
+  visit(sourceFile);
+  if (guard?.requireRequestGuard && !requestsGuarded) {
+    violations.unshift({
+      line: 1,
+      column: 1,
+      rule: "mutation",
+      message: "Spec must block mutating requests: call guardRequests(context) from test.beforeEach"
+    });
+  }
+  return violations;
+}
+
+/**
+ * Reads a spec from disk and blocks it if it violates the policy. A blocked
+ * spec is deleted, so no later Playwright run picks it up; the test history
+ * keeps its revision for review.
+ * @throws {PolicyViolationError} Listing every violation with its line number
+ */
+export async function enforceCodePolicy(filePath: string, policy: CodePolicy = defaultPolicy()): Promise<void> {
+  const code = await fs.promises.readFile(filePath, "utf-8");
+  const violations = checkCodePolicy(code, filePath, policy);
+  if (violations.length > 0) {
+    await fs.promises.rm(filePath, { force: true });
+    const relativePath = path.relative(process.cwd(), filePath);
+    throw new PolicyViolationError(
+      `Generated test violates the code policy and was removed:\n` +
+        formatViolations(violations).map(v => `  ${relativePath}:${v}`).join("\n"),
+      violations
+    );
+  }
+}
+
+/**
+ * Formats violations as "line:column [rule] message" strings
+ */
+export function formatViolations(violations: PolicyViolation[]): string[] {
+  return violations.map(v => `${v.line}:${v.column} [${v.rule}] ${v.message}`);
+}
+
+/**
+ * Returns the text of a string literal or substitution-free template, or
+ * the leading text of a template that starts with a literal scheme
+ */
+function literalText(node: ts.Node): string | undefined {
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return node.text;
+  }
+  if (ts.isTemplateExpression(node) && node.head.text) {
+    return node.head.text;
+  }
+  return undefined;
+}
+
+/**
+ * Whether an expression is CONFIG.BASE_URL, or appends a path, query or
+ * fragment to it (which keeps the configured host)
+ */
+function extendsBaseUrl(node: ts.Expression): boolean {
+  const isBaseUrl = (expression: ts.Expression): boolean =>
+    ts.isPropertyAccessExpression(expression) && ts.isIdentifier(expression.expression) &&
+    expression.expression.text === "CONFIG" && expression.name.text === "BASE_URL";
+  const startsPath = (text: string | undefined): boolean => text !== undefined && /^[/?#]/.test(text);
+
+  if (isBaseUrl(node)) {
+    return true;
+  }
+  if (ts.isTemplateExpression(node)) {
+    const [first] = node.templateSpans;
+    return node.head.text === "" && first !== undefined && isBaseUrl(first.expression) && startsPath(first.literal.text);
+  }
+  if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+    return isBaseUrl(node.left) ? startsPath(leadingText(node.right)) : extendsBaseUrl(node.left);
+  }
+  return ts.isParenthesizedExpression(node) && extendsBaseUrl(node.expression);
+}
+
+/**
+ * Returns the literal text a string expression starts with, if known
+ */
+function leadingText(node: ts.Expression): string | undefined {
+  if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+    return leadingText(node.left);
+  }
+  return ts.isParenthesizedExpression(node) ? leadingText(node.expression) : literalText(node);
+}
+
+/**
+ * Whether an element access builds its property name from strings, as in
+ * value["con" + "structor"] or value[`${name}`]
+ */
+function isComputedName(argument: ts.Expression): boolean {
+  return !ts.isStringLiteral(argument) && !ts.isNoSubstitutionTemplateLiteral(argument) &&
+    literalTexts(argument).length > 0;
+}
+
+/**
+ * Returns the text of every string literal and template in a node, templates
+ * without their substitutions
+ */
+function literalTexts(node: ts.Node): string[] {
+  const texts: string[] = [];
+  const visit = (child: ts.Node): void => {
+    if (ts.isStringLiteral(child) || ts.isNoSubstitutionTemplateLiteral(child)) {
+      texts.push(child.text);
+    } else if (ts.isTemplateExpression(child)) {
+      texts.push([child.head.text, ...child.templateSpans.map(span => span.literal.text)].join(" "));
+    }
+    ts.forEachChild(child, visit);
+  };
+  visit(node);
+  return texts;
+}
+
+/**
+ * Returns the name of every identifier in a node
+ */
+function identifierNames(node: ts.Node): string[] {
+  const names: string[] = [];
+  const visit = (child: ts.Node): void => {
+    if (ts.isIdentifier(child)) {
+      names.push(child.text);
+    }
+    ts.forEachChild(child, visit);
+  };
+  visit(node);
+  return names;
+}
+
+/**
+ * Splits camelCase and snake_case into words, so word patterns match them
+ */
+function splitWords(text: string): string {
+  return text.replace(/([a-z0-9])([A-Z])/g, "$1 $2").replace(/_/g, " ");
+}
+
+/**
+ * Whether the options of request.fetch() keep a read-only method
+ * (fetch defaults to GET)
+ */
+function isSafeFetch(options: ts.Expression | undefined): boolean {
+  if (!options) {
+    return true;
+  }
+  if (!ts.isObjectLiteralExpression(options)) {
+    return false;
+  }
+  const method = options.properties.find(property =>
+    ts.isPropertyAssignment(property) && ts.isIdentifier(property.name) && property.name.text === "method");
+  if (!method) {
+    return !options.properties.some(ts.isSpreadAssignment);
+  }
+  const value = ts.isPropertyAssignment(method) ? literalText(method.initializer) : undefined;
+  return value !== undefined && SAFE_METHODS.includes(value.toUpperCase());
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\s+/g, "\\s+");
+}
+
+/**
+ * Whether an expression looks like a Playwright APIRequestContext
+ * (request, page.request, context.request, ...)
+ */
+function isRequestContext(expression: ts.Expression): boolean {
+  if (ts.isIdentifier(expression)) {
+    return /request/i.test(expression.text);
+  }
+  return ts.isPropertyAccessExpression(expression) && expression.name.text === "request";
+}
+
+/**
+ * Collects every name declared anywhere in the file. Scope is ignored on
+ * purpose: the check only needs to know whether a name is a global.
+ */
+function collectDeclaredNames(sourceFile: ts.SourceFile): Set<string> {
+  const names = new Set<string>();
+  const addBinding = (name: ts.BindingName): void => {
+    if (ts.isIdentifier(name)) {
+      names.add(name.text);
+    } else {
+      name.elements.forEach(element => {
+        if (!ts.isOmittedExpression(element)) {
+          addBinding(element.name);
+        }
+      });
+    }
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isVariableDeclaration(node) || ts.isParameter(node) || ts.isBindingElement(node)) {
+      addBinding(node.name);
+    } else if ((ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node) || ts.isEnumDeclaration(node) ||
+                ts.isFunctionExpression(node) || ts.isClassExpression(node)) && node.name) {
+      names.add(node.name.text);
+    } else if (ts.isImportClause(node) && node.name) {
+      names.add(node.name.text);
+    } else if (ts.isImportSpecifier(node) || ts.isNamespaceImport(node)) {
+      names.add(node.name.text);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return names;
+}
+
+/**
+ * Whether an identifier reads a runtime value (as opposed to naming a
+ * property, a declaration, a label or a type)
+ */
+function isValueReference(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  if ((ts.isPropertyAccessExpression(parent) && parent.name === node) ||
+      (ts.isQualifiedName(parent) && parent.right === node)) {
+    return false;
+  }
+  if ((ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent) || ts.isMethodDeclaration(parent) ||
+       ts.isGetAccessorDeclaration(parent) || ts.isSetAccessorDeclaration(parent) ||
+       ts.isPropertySignature(parent) || ts.isMethodSignature(parent) || ts.isEnumMember(parent)) &&
+      parent.name === node) {
+    return false;
+  }
+  if (ts.isBindingElement(parent) && parent.propertyName === node) {
+    return false;
+  }
+  if (ts.isLabeledStatement(parent) || ts.isBreakOrContinueStatement(parent) ||
+      ts.isImportSpecifier(parent) || ts.isExportSpecifier(parent) || ts.isImportClause(parent) ||
+      ts.isNamespaceImport(parent)) {
+    return false;
+  }
+  // Declarations themselves are not references
+  if ((ts.isVariableDeclaration(parent) || ts.isParameter(parent) || ts.isFunctionDeclaration(parent) ||
+       ts.isClassDeclaration(parent) || ts.isFunctionExpression(parent) || ts.isClassExpression(parent) ||
+       ts.isBindingElement(parent) || ts.isEnumDeclaration(parent)) && parent.name === node) {
+    return false;
+  }
+  return true;
+}
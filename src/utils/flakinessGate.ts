@@ -0,0 +1,124 @@
+import { executeTests } from "./testExecutor.js";
+import type { ExecutionOptions, ExecutionResult } from "./testExecutor.js";
+
+/**
+ * Verdict of a stability check:
+ * - accepted: every run passed
+ * - flaky: some runs passed, some failed
+ * - failed: no run passed
+ */
+export type StabilityVerdict = "accepted" | "flaky" | "failed";
+
+/**
+ * Options for a stability check
+ */
+export interface StabilityOptions {
+  /** Number of times to re-run a spec that just passed; 0 disables the check (default: 0) */
+  runs?: number;
+  /** Run the spec once with --repeat-each instead of in separate processes (default: false) */
+  repeatEach?: boolean;
+}
+
+/**
+ * Outcome of a stability check
+ */
+export interface StabilitySummary {
+  /** Verdict derived from the pass rate */
+  verdict: StabilityVerdict;
+  /**
+   * Number of samples: spec runs, or individual test runs with repeatEach,
+   * where a spec with several tests yields several samples per repetition
+   */
+  runs: number;
+  /** Number of samples that passed */
+  passed: number;
+  /** passed / runs, between 0 and 1 */
+  passRate: number;
+  /** Whether the runs were made with --repeat-each */
+  repeatEach: boolean;
+  /** Total time of the check in ms */
+  duration: number;
+}
+
+/**
+ * Outcome of a stability check with the run to repair from
+ */
+export interface StabilityResult extends StabilitySummary {
+  /** Result of the last run that failed, if any */
+  lastFailure?: ExecutionResult;
+}
+
+const DEFAULT_OPTIONS: Required<StabilityOptions> = {
+  runs: 0,
+  repeatEach: false
+};
+
+/**
+ * Re-runs a spec that passed once to tell stable specs from racy ones.
+ * Playwright retries are disabled so a pass on retry does not hide a failure.
+ * @param specPath Spec file to re-run
+ * @param options Stability options
+ * @param executionOptions Execution options for the k-th run (1-based; always 1 with repeatEach)
+ * @returns The verdict, or undefined if the check is disabled
+ */
+export async function checkStability(
+  specPath: string,
+  options: StabilityOptions,
+  executionOptions: (run: number) => ExecutionOptions
+): Promise<StabilityResult | undefined> {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  if (opts.runs <= 0) {
+    return undefined;
+  }
+
+  const startTime = Date.now();
+  let runs = 0;
+  let passed = 0;
+  let lastFailure: ExecutionResult | undefined;
+
+  if (opts.repeatEach) {
+    const base = executionOptions(1);
+    const execution = await executeTests(specPath, {
+      ...base,
+      retries: 0,
+      // Every repetition gets the time a single run would have
+      timeout: (base.timeout ?? 30000) * opts.runs,
+      extraArgs: [...(base.extraArgs ?? []), `--repeat-each=${opts.runs}`]
+    });
+    runs = Math.max(execution.tests.length, opts.runs);
+    passed = execution.tests.filter(test => test.status === "passed").length;
+    if (execution.status !== "passed") {
+      lastFailure = execution;
+    }
+  } else {
+    for (let run = 1; run <= opts.runs; run++) {
+      const execution = await executeTests(specPath, { ...executionOptions(run), retries: 0 });
+      runs++;
+      if (execution.status === "passed") {
+        passed++;
+      } else {
+        lastFailure = execution;
+      }
+      if (execution.status === "aborted") {
+        break;
+      }
+    }
+  }
+
+  return {
+    verdict: passed === runs ? "accepted" : passed === 0 ? "failed" : "flaky",
+    runs,
+    passed,
+    passRate: runs > 0 ? passed / runs : 0,
+    repeatEach: opts.repeatEach,
+    duration: Date.now() - startTime,
+    ...(lastFailure ? { lastFailure } : {})
+  };
+}
+
+/**
+ * Formats a stability result as e.g. "flaky, 3/5 runs passed (60%)"
+ */
+export function describeStability(result: StabilitySummary): string {
+  return `${result.verdict}, ${result.passed}/${result.runs} runs passed (${Math.round(result.passRate * 100)}%)`;
+}
@@ -0,0 +1,126 @@
+import fs from "fs";
+import path from "path";
+import { workspace } from "./workspace.js";
+import type { StabilitySummary } from "./flakinessGate.js";
+
+/**
+ * A scenario held in quarantine
+ */
+export interface QuarantineEntry {
+  /** Scenario tag */
+  tag: string;
+  /** When the scenario was quarantined */
+  since: string;
+  /** When the entry was last updated */
+  updatedAt: string;
+  /** Revision of the spec that was found flaky */
+  revision?: number;
+  /** Pass rate of the stability check, between 0 and 1 */
+  passRate: number;
+  /** Number of samples of the stability check */
+  runs: number;
+  /** Why the scenario is quarantined */
+  reason: string;
+}
+
+/**
+ * Custom error for quarantine list reads and writes
+ */
+export class QuarantineError extends Error {
+  constructor(message: string, public readonly details?: unknown) {
+    super(message);
+    this.name = "QuarantineError";
+  }
+}
+
+/**
+ * Scenarios whose generated specs were found flaky. The orchestrator still
+ * runs them but reports them apart and does not fail the build on them.
+ */
+export class Quarantine {
+  // Serializes read-modify-write cycles of scenarios finishing at the same time
+  private pending: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Creates a new Quarantine
+   * @param filePath JSON file holding the list (default: the workspace quarantine file)
+   */
+  constructor(private readonly filePath: string = workspace.quarantinePath) {}
+
+  /**
+   * Returns all quarantined scenarios
+   */
+  async list(): Promise<QuarantineEntry[]> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.filePath, "utf-8")) as QuarantineEntry[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw new QuarantineError(
+        `Failed to read quarantine list ${this.filePath}`,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  /**
+   * Returns the tags of all quarantined scenarios
+   */
+  async tags(): Promise<Set<string>> {
+    return new Set((await this.list()).map(entry => entry.tag));
+  }
+
+  /**
+   * Quarantines a scenario, or updates its entry with a new stability result
+   */
+  async add(tag: string, stability: StabilitySummary, revision?: number): Promise<QuarantineEntry> {
+    return this.serialize(async () => {
+      const entries = await this.list();
+      const now = new Date().toISOString();
+      const existing = entries.find(entry => entry.tag === tag);
+      const entry: QuarantineEntry = {
+        tag,
+        since: existing?.since ?? now,
+        updatedAt: now,
+        ...(revision !== undefined ? { revision } : {}),
+        passRate: stability.passRate,
+        runs: stability.runs,
+        reason: `${stability.passed}/${stability.runs} stability runs passed`
+      };
+      await this.save([...entries.filter(e => e.tag !== tag), entry]);
+      return entry;
+    });
+  }
+
+  /**
+   * Releases a scenario from quarantine
+   * @returns Whether it was quarantined
+   */
+  async remove(tag: string): Promise<boolean> {
+    return this.serialize(async () => {
+      const entries = await this.list();
+      const remaining = entries.filter(entry => entry.tag !== tag);
+      if (remaining.length === entries.length) {
+        return false;
+      }
+      await this.save(remaining);
+      return true;
+    });
+  }
+
+  private serialize<T>(change: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(change);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  private async save(entries: QuarantineEntry[]): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.writeFile(
+      this.filePath,
+      JSON.stringify([...entries].sort((a, b) => a.tag.localeCompare(b.tag)), null, 2) + "\n",
+      "utf-8"
+    );
+  }
+}
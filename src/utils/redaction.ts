@@ -0,0 +1,119 @@
+import { format } from "winston";
+
+/**
+ * How a secret is detected:
+ * - substring: the value must never appear anywhere (passwords, API keys)
+ * - literal: the value must not appear as a quoted string literal in code
+ *   (usernames, which are often short words that also occur in URLs)
+ */
+type SecretMatch = "substring" | "literal";
+
+interface SecretEntry {
+  /** Name reported instead of the value, e.g. PASSWORD */
+  label: string;
+  /** The secret value */
+  value: string;
+  /** How the value is detected */
+  match: SecretMatch;
+}
+
+/** Replacement for masked values */
+export const REDACTED = "***";
+
+// Values shorter than this would mask ordinary words
+const MIN_SECRET_LENGTH = 3;
+
+// Environment variables whose values are always treated as secrets
+const SECRET_ENV_PATTERN = /(PASSWORD|SECRET|TOKEN|API_KEY)/i;
+
+const registered = new Map<string, SecretEntry>();
+
+/**
+ * Registers a value that must never leave the machine
+ * @param value The secret value
+ * @param label Name reported in place of the value
+ * @param match How the value is detected (default: substring)
+ */
+export function registerSecret(value: string | undefined, label: string, match: SecretMatch = "substring"): void {
+  if (!value || value.length < MIN_SECRET_LENGTH) {
+    return;
+  }
+  registered.set(value, { label, value, match });
+}
+
+/**
+ * Returns all known secrets, longest first so overlapping values mask fully.
+ * Secret-looking environment variables are picked up on every call, so values
+ * loaded by dotenv after this module was imported are covered too.
+ */
+function knownSecrets(): SecretEntry[] {
+  const secrets = new Map(registered);
+  for (const [name, value] of Object.entries(process.env)) {
+    if (value && value.length >= MIN_SECRET_LENGTH && SECRET_ENV_PATTERN.test(name) && !secrets.has(value)) {
+      secrets.set(value, { label: name, value, match: "substring" });
+    }
+  }
+  return [...secrets.values()].sort((a, b) => b.value.length - a.value.length);
+}
+
+/**
+ * Masks every known substring secret in a text
+ */
+export function redactSecrets(text: string): string {
+  let result = text;
+  for (const secret of knownSecrets()) {
+    if (secret.match === "substring") {
+      result = result.split(secret.value).join(REDACTED);
+    }
+  }
+  return result;
+}
+
+/**
+ * Deep-copies a value, masking secrets in every string it contains
+ */
+export function redactValue<T>(value: T): T {
+  if (typeof value === "string") {
+    return redactSecrets(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item)) as T;
+  }
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    if (value instanceof Error) {
+      return redactSecrets(value.message) as T;
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redactValue(item)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Finds secrets that appear literally in source code
+ * @returns Labels of the leaked secrets (never the values themselves)
+ */
+export function findSecretLiterals(code: string): string[] {
+  const leaked = new Set<string>();
+  for (const secret of knownSecrets()) {
+    const found = secret.match === "substring"
+      ? code.includes(secret.value)
+      : ["'", '"', "`"].some(quote => code.includes(`${quote}${secret.value}${quote}`));
+    if (found) {
+      leaked.add(secret.label);
+    }
+  }
+  return [...leaked];
+}
+
+/**
+ * Winston format that masks secrets in the message and all metadata.
+ * Must come first in a logger's format chain.
+ */
+export const redactFormat = format(info => {
+  for (const key of Object.keys(info)) {
+    info[key] = redactValue(info[key]);
+  }
+  return info;
+});
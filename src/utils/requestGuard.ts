@@ -0,0 +1,21 @@
+import type { BrowserContext } from "@playwright/test";
+import { CONFIG } from "../config.js";
+
+/**
+ * Request methods that do not change data
+ */
+export const SAFE_METHODS: readonly string[] = ["GET", "HEAD", "OPTIONS"];
+
+/**
+ * Aborts the browser's requests that could change data, when the guard of
+ * the environment the test runs against blocks them. Generated specs call it
+ * from test.beforeEach; elsewhere it lets every request through.
+ * @param context Browser context of the test
+ */
+export async function guardRequests(context: BrowserContext): Promise<void> {
+  if (!CONFIG.GUARD.enabled || !CONFIG.GUARD.blockMutatingRequests) {
+    return;
+  }
+  await context.route("**/*", route =>
+    SAFE_METHODS.includes(route.request().method()) ? route.fallback() : route.abort("blockedbyclient"));
+}
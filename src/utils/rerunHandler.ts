@@ -1,13 +1,24 @@
 import { generateTest } from "../agents/testGenerator.js";
-import { execSync } from "child_process";
-import type { ExecSyncOptions } from "child_process";
+import type { RepairContext } from "../agents/testGenerator.js";
+import { TestHistory } from "../agents/testHistory.js";
+import { BudgetExceededError, usageLedger } from "../agents/usageLedger.js";
+import type { UsageBudget } from "../agents/usageLedger.js";
+import fs from "fs";
 import path from "path";
 import { createLogger, format, transports } from "winston";
+import { redactFormat, redactSecrets } from "./redaction.js";
+import { enforceCodePolicy, formatViolations, PolicyViolationError } from "./codePolicy.js";
+import { checkStability, describeStability } from "./flakinessGate.js";
+import type { StabilityOptions, StabilitySummary } from "./flakinessGate.js";
+import { executeTests } from "./testExecutor.js";
+import { workspace } from "./workspace.js";
+import type { ExecutionOptions, ExecutionResult } from "./testExecutor.js";
 
 // Configure logger
 const logger = createLogger({
   level: "debug",
   format: format.combine(
+    redactFormat(),
     format.timestamp(),
     format.colorize(),
     format.printf(({ timestamp, level, message, ...meta }) => {
@@ -26,69 +37,338 @@ interface RunOptions {
   timeout?: number;
   workers?: number;
   retries?: number;
+  /** Orchestrator run the AI usage is accounted to */
+  runId?: string;
+  /** Token/cost limits enforced before and after each generation */
+  budget?: { scenario?: UsageBudget; run?: UsageBudget };
+  /** Re-runs a freshly generated or repaired spec after it passed (default: disabled) */
+  stability?: StabilityOptions;
+  /** Cancels AI requests and kills Playwright; no further attempts are made */
+  signal?: AbortSignal;
+  /** AI model to generate with (default: AI_MODEL) */
+  model?: string;
+  /** User role whose saved login generated specs start with */
+  session?: string;
 }
 
 /**
- * Runs a test with automatic retries on failure
+ * Outcome of one attempt at a scenario
+ */
+export interface AttemptRecord {
+  /** 1-based attempt number */
+  attempt: number;
+  /**
+   * How the spec was obtained:
+   * - fresh: generated from the prompt alone
+   * - repair: generated from the prompt and the previous attempt's failure
+   * - locked: a locked revision, run without generating
+   */
+  mode: "fresh" | "repair" | "locked";
+  /** Revision of the spec in the test history */
+  revision?: number;
+  /** Whether the test passed */
+  passed: boolean;
+  /** Failure message */
+  error?: string;
+  /** Generator warnings, such as syntax validation findings */
+  warnings?: string[];
+  /** Time taken by the attempt in ms */
+  duration: number;
+  /** Playwright result (absent if the spec was never run) */
+  execution?: ExecutionResult;
+  /** Stability check of a spec that passed (absent if the check is disabled) */
+  stability?: StabilitySummary;
+}
+
+/**
+ * Raised when every attempt at a scenario failed
+ */
+export class RerunError extends Error {
+  /**
+   * @param budgetExceeded Set when the attempts stopped because the scenario or run went over budget
+   */
+  constructor(
+    message: string,
+    public readonly attempts: AttemptRecord[],
+    public readonly budgetExceeded?: BudgetExceededError
+  ) {
+    super(message);
+    this.name = "RerunError";
+  }
+}
+
+/**
+ * A Playwright run that did not pass, with its structured result
+ */
+class TestRunError extends Error {
+  constructor(message: string, public readonly execution: ExecutionResult) {
+    super(message);
+    this.name = "TestRunError";
+  }
+}
+
+/**
+ * Runs a spec and fails unless every test in it passed
+ * @throws {TestRunError} If the run did not pass
+ */
+async function runSpec(testPath: string, options: ExecutionOptions): Promise<ExecutionResult> {
+  const execution = await executeTests(testPath, options);
+  if (execution.status !== "passed") {
+    const failed = execution.tests.filter(test => !["passed", "flaky", "skipped"].includes(test.status));
+    const firstError = failed[0]?.errors[0] ?? execution.errors[0];
+    throw new TestRunError(
+      `Playwright run ${execution.status}` +
+        (failed.length > 0 ? ` (${failed.map(test => test.title).join(", ")})` : "") +
+        (firstError ? `: ${firstError.message.split("\n")[0]}` : ""),
+      execution
+    );
+  }
+  return execution;
+}
+
+/**
+ * Extracts the failing assertion or locator, the failing spec line and an
+ * error snippet from a failed run, with secrets masked (Playwright errors quote
+ * filled values and the output may echo them)
+ */
+function failureFromExecution(execution: ExecutionResult, specPath: string): Omit<RepairContext, "previousSpec"> {
+  const failed = execution.tests.find(test => !["passed", "flaky", "skipped"].includes(test.status));
+  const error = failed?.errors[0] ?? execution.errors[0];
+  if (!error) {
+    return {
+      failure: `Test ${failed?.status ?? execution.status}`,
+      errorSnippet: redactSecrets(execution.output).slice(-2000).trim()
+    };
+  }
+
+  const lines = redactSecrets(error.message).split("\n");
+  const locator = lines.map(line => line.match(/^\s*Locator:\s*(.+)$/)?.[1] ?? line.match(/waiting for (.+)$/)?.[1])
+    .find(match => match !== undefined);
+  const location = error.location && path.resolve(error.location.file) === path.resolve(specPath)
+    ? `${error.location.line}:${error.location.column}`
+    : undefined;
+
+  return {
+    failure: locator ? `${lines[0]!.trim()} (locator: ${locator.trim()})` : lines[0]!.trim(),
+    errorSnippet: lines.slice(0, 25).join("\n").trim(),
+    ...(location ? { location } : {})
+  };
+}
+
+/**
+ * Runs a test with automatic retries on failure. Each retry repairs the
+ * previous spec using the error of its run instead of starting over.
  * @param prompt - The test prompt to generate the test from
  * @param tag - The tag to identify the test
  * @param attempts - Number of retry attempts (default: 2)
  * @param options - Additional test run options
- * @returns Promise that resolves when the test passes or rejects after all attempts fail
+ * @returns The attempts made, the last of which passed
+ * @throws {RerunError} With every attempt if none passed, or with the attempts made before the budget ran out
  */
 export async function runWithRetries(
   prompt: string, 
   tag: string, 
   attempts = 2,
   options: RunOptions = {}
-): Promise<void> {
+): Promise<AttemptRecord[]> {
   const {
     reporter = "list",
     timeout = 30000,
     workers = 1,
-    retries = 0
+    retries = 0,
+    runId = "adhoc",
+    budget = {},
+    stability: stabilityOptions = {},
+    signal,
+    model,
+    session
   } = options;
 
-  const execOptions: ExecSyncOptions = {
-    stdio: "inherit",
+  // Each attempt keeps its report and artifacts in its own folder of the run
+  const executionOptions = (attempt: number): ExecutionOptions => ({
+    reporter,
     timeout,
-    windowsHide: true,
-    env: { ...process.env, FORCE_COLOR: "1" }
-  };
+    workers,
+    retries,
+    reportFile: workspace.reportPath(runId, tag, attempt),
+    outputDir: workspace.artifactsDir(runId, tag, attempt),
+    ...(signal ? { signal } : {})
+  });
+  const stabilityRunOptions = (attempt: number) => (run: number): ExecutionOptions => ({
+    ...executionOptions(attempt),
+    reportFile: path.join(workspace.stabilityDir(runId, tag, attempt, run), "report.json"),
+    outputDir: path.join(workspace.stabilityDir(runId, tag, attempt, run), "artifacts")
+  });
+
+  // A locked revision runs as-is until it is unlocked or the prompt changes
+  const history = new TestHistory();
+  const { locked, released } = await history.resolveLock(tag, prompt);
+  if (released !== undefined) {
+    logger.warn(`Prompt changed, released lock on revision ${released}`, { tag });
+  }
+  if (locked) {
+    const revision = locked.record.revision;
+    const testPath = workspace.specPath(tag);
+    const startTime = Date.now();
+    logger.info(`Running locked revision ${revision} without regenerating`, { tag });
+    await fs.promises.mkdir(path.dirname(testPath), { recursive: true });
+    await fs.promises.writeFile(testPath, locked.content, "utf-8");
+    let execution: ExecutionResult;
+    try {
+      await enforceCodePolicy(testPath);
+      execution = await runSpec(testPath, executionOptions(1));
+    } catch (err) {
+      // An aborted run says nothing about the revision
+      if (!signal?.aborted) {
+        await history.setResult(tag, revision, err instanceof PolicyViolationError ? "blocked" : "failed");
+      }
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      logger.error(`Locked revision ${revision} failed`, { tag, error: errorMessage.slice(0, 300) });
+      throw new RerunError(`Locked revision ${revision} of ${tag} failed: ${errorMessage}`, [{
+        attempt: 1,
+        mode: "locked",
+        revision,
+        passed: false,
+        error: errorMessage,
+        duration: Date.now() - startTime,
+        ...(err instanceof TestRunError ? { execution: err.execution } : {})
+      }]);
+    }
+    await history.setResult(tag, revision, "passed");
+    logger.info("Test passed successfully", { tag, revision });
+    return [{ attempt: 1, mode: "locked", revision, passed: true, duration: Date.now() - startTime, execution }];
+  }
+
+  const records: AttemptRecord[] = [];
+  let repairContext: RepairContext | null = null;
 
   for (let i = 1; i <= attempts; i++) {
+    const mode = repairContext ? "repair" : "fresh";
+    const startTime = Date.now();
+    let revision: number | undefined;
+    let spec: { filePath: string; content: string } | undefined;
+    let warnings: string[] | undefined;
     try {
-      logger.info(`Attempt ${i} of ${attempts}`, { tag, prompt: prompt.slice(0, 100) });
+      logger.info(`Attempt ${i} of ${attempts} (${mode})`, { tag, prompt: prompt.slice(0, 100) });
       
-      logger.debug('Generating test...', { tag });
-      const result = await generateTest(prompt, tag);
+      usageLedger.checkBudget(runId, tag, budget);
+
+      logger.debug('Generating test...', { tag, mode });
+      // A cached completion would reproduce the failing test, so retries bypass the cache
+      const result = await generateTest(prompt, tag, {
+        bypassCache: i > 1,
+        repairContext,
+        signal: signal ?? null,
+        ...(model ? { model } : {}),
+        ...(session ? { session } : {}),
+        context: { runId, scenario: tag, attempt: i }
+      });
+      revision = result.revision;
+      spec = { filePath: result.filePath, content: result.content };
+      warnings = result.warnings;
       logger.debug('Test generated', { 
         tag,
         filePath: result.filePath,
-        warnings: result.warnings
+        revision,
+        warnings: result.warnings,
+        usage: usageLedger.totals({ runId, scenario: tag, attempt: i })
       });
 
-      const testPath = path.resolve(__dirname, "../tests", `${tag}.spec.ts`);
-      const command = [
-        "npx playwright test",
-        testPath,
-        `--reporter=${reporter}`,
-        `--workers=${workers}`,
-        `--retries=${retries}`,
-      ].join(" ");
-
-      logger.info(`Running test command: ${command}`);
-      execSync(command, execOptions);
-      logger.info("Test passed successfully", { tag, attempt: i });
-      return;
+      usageLedger.checkBudget(runId, tag, budget);
+
+      // Generated code never runs unless it passes the static policy
+      await enforceCodePolicy(result.filePath);
+
+      logger.info(`Running test: ${path.relative(process.cwd(), result.filePath)}`);
+      const execution = await runSpec(result.filePath, executionOptions(i));
+
+      // AI-written waits are often racy, so one pass is not enough to accept a spec
+      const checked = await checkStability(result.filePath, stabilityOptions, stabilityRunOptions(i));
+      let stability: StabilitySummary | undefined;
+      if (checked) {
+        const { lastFailure, ...summary } = checked;
+        stability = summary;
+        logger.info(`Stability check: ${describeStability(checked)}`, { tag, attempt: i, revision });
+        if (checked.verdict === "failed" && lastFailure) {
+          throw new TestRunError(`Stability check failed: ${describeStability(checked)}`, lastFailure);
+        }
+      }
+
+      if (revision !== undefined) {
+        await history.setResult(tag, revision, stability?.verdict === "flaky" ? "flaky" : "passed");
+      }
+      records.push({
+        attempt: i,
+        mode,
+        revision,
+        passed: true,
+        ...(warnings ? { warnings } : {}),
+        duration: Date.now() - startTime,
+        execution,
+        ...(stability ? { stability } : {})
+      });
+      logger.info(stability?.verdict === "flaky" ? "Test passed but is flaky" : "Test passed successfully", {
+        tag,
+        attempt: i,
+        mode,
+        revision
+      });
+      return records;
     } catch (err) {
+      // Spending more on another attempt cannot bring us back under budget
+      if (err instanceof BudgetExceededError) {
+        logger.error(`Test attempt ${i} stopped: ${err.message}`, { tag, attempt: i });
+        throw new RerunError(err.message, records, err);
+      }
+      if (err instanceof PolicyViolationError) {
+        logger.error("Generated test blocked by code policy", {
+          tag,
+          attempt: i,
+          violations: formatViolations(err.violations)
+        });
+      }
+      if (revision !== undefined && !signal?.aborted) {
+        await history.setResult(tag, revision, err instanceof PolicyViolationError ? "blocked" : "failed");
+      }
       const errorMessage = err instanceof Error ? err.message : String(err);
+      records.push({
+        attempt: i,
+        mode,
+        revision,
+        passed: false,
+        error: errorMessage,
+        ...(warnings ? { warnings } : {}),
+        duration: Date.now() - startTime,
+        ...(err instanceof TestRunError ? { execution: err.execution } : {})
+      });
+
+      if (signal?.aborted) {
+        logger.warn(`Test attempt ${i} aborted`, { tag, attempt: i, mode });
+        throw new RerunError(`Test aborted during attempt ${i}`, records);
+      }
+
       logger.error(`Test attempt ${i} failed`, {
         tag,
         error: errorMessage.slice(0, 300),
         attempt: i,
+        mode,
         totalAttempts: attempts
       });
+
+      // Only a spec that was produced can be repaired; otherwise the next attempt starts fresh
+      if (spec && err instanceof TestRunError) {
+        repairContext = { previousSpec: spec.content, ...failureFromExecution(err.execution, spec.filePath) };
+      } else if (spec && err instanceof PolicyViolationError) {
+        const violations = formatViolations(err.violations);
+        repairContext = {
+          previousSpec: spec.content,
+          failure: "The test violates the code policy and was not run",
+          errorSnippet: violations.join("\n"),
+          ...(err.violations[0] ? { location: `${err.violations[0].line}:${err.violations[0].column}` } : {})
+        };
+      } else {
+        repairContext = null;
+      }
       
       if (i === attempts) {
         logger.error("All test attempts exhausted", {
@@ -96,13 +376,15 @@ export async function runWithRetries(
           attempts,
           lastError: errorMessage
         });
-        throw new Error(`Test failed after ${attempts} attempts: ${errorMessage}`);
+        throw new RerunError(`Test failed after ${attempts} attempts: ${errorMessage}`, records);
       }
       
-      logger.info("Regenerating test for next attempt", {
+      logger.info(repairContext ? "Repairing test for next attempt" : "Regenerating test for next attempt", {
         tag,
-        nextAttempt: i + 1
+        nextAttempt: i + 1,
+        ...(repairContext ? { failure: repairContext.failure, location: repairContext.location } : {})
       });
     }
   }
+  return records;
 }
@@ -0,0 +1,91 @@
+import { TestHistory } from "../agents/testHistory.js";
+import type { RevisionRecord } from "../agents/testHistory.js";
+import { unifiedDiff } from "./textDiff.js";
+
+const USAGE = `Usage: npm run ai:revisions -- <command> <tag> [args]
+  list <tag>                 List revisions
+  show <tag> [rev]           Print a revision (default: latest)
+  diff <tag> <from> [to]     Diff two revisions (default to: latest)
+  approve <tag> <rev>        Mark a revision as approved
+  lock <tag> <rev>           Run this revision instead of regenerating
+  unlock <tag>               Release the lock`;
+
+/**
+ * Parses a revision number argument
+ * @throws {Error} If the argument is not a positive integer
+ */
+function revisionArg(value: string | undefined, name: string): number {
+  const revision = Number(value);
+  if (!value || !Number.isInteger(revision) || revision < 1) {
+    throw new Error(`Invalid or missing ${name}: ${value ?? ""}`);
+  }
+  return revision;
+}
+
+/**
+ * Formats one revision for the terminal
+ */
+function describe(record: RevisionRecord, locked: boolean): string {
+  return [
+    `r${record.revision}`.padEnd(6),
+    record.createdAt,
+    record.status.padEnd(8),
+    record.result.padEnd(7),
+    record.model,
+    `prompt=${record.promptHash.slice(0, 12)}`,
+    locked ? "(locked)" : ""
+  ].join("  ").trimEnd();
+}
+
+const history = new TestHistory();
+const [command, tag, ...rest] = process.argv.slice(2);
+
+try {
+  if (!command || !tag) {
+    throw new Error("Missing command or tag");
+  }
+
+  switch (command) {
+    case "list": {
+      const tagHistory = await history.load(tag);
+      tagHistory.revisions.forEach(record => console.log(describe(record, record.revision === tagHistory.locked)));
+      console.log(`${tagHistory.revisions.length} revision(s)`);
+      break;
+    }
+    case "show": {
+      const { content } = await history.get(tag, rest[0] ? revisionArg(rest[0], "revision") : undefined);
+      process.stdout.write(content);
+      break;
+    }
+    case "diff": {
+      const from = await history.get(tag, revisionArg(rest[0], "from revision"));
+      const to = await history.get(tag, rest[1] ? revisionArg(rest[1], "to revision") : undefined);
+      const diff = unifiedDiff(from.content, to.content, `${tag} r${from.record.revision}`, `${tag} r${to.record.revision}`);
+      process.stdout.write(diff || "Revisions are identical\n");
+      break;
+    }
+    case "approve": {
+      const revision = revisionArg(rest[0], "revision");
+      await history.approve(tag, revision);
+      console.log(`Approved ${tag} r${revision}`);
+      break;
+    }
+    case "lock": {
+      const revision = revisionArg(rest[0], "revision");
+      await history.lock(tag, revision);
+      console.log(`Locked ${tag} r${revision}`);
+      break;
+    }
+    case "unlock": {
+      const released = await history.unlock(tag);
+      console.log(released === undefined ? `${tag} is not locked` : `Unlocked ${tag} r${released}`);
+      break;
+    }
+    default:
+      throw new Error(`Unknown command: ${command}`);
+  }
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error));
+  console.error(USAGE);
+  process.exit(1);
+}
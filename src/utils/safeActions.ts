@@ -1,5 +1,6 @@
 import { type Page, type Locator, expect, type Response } from "@playwright/test";
 import { createLogger, format, transports } from "winston";
+import { redactFormat } from "./redaction.js";
 
 /**
  * Configuration options for safe actions
@@ -57,6 +58,7 @@ export class SafeActionError extends Error {
 // Configure logger
 const logger = createLogger({
   format: format.combine(
+    redactFormat(),
     format.timestamp(),
     format.colorize(),
     format.printf(({ timestamp, level, message }) => {
@@ -310,6 +312,21 @@ export async function executeSafe<T>(
   return withRetry(action, opts, 'CustomAction');
 }
 
+/**
+ * Awaits a safe action and throws its error if it failed, so a test stops at
+ * the first failing step
+ * @param action The pending safe action
+ * @returns The action's value
+ * @throws {SafeActionError} If the action failed
+ */
+export async function orThrow<T>(action: Promise<ActionResult<T>>): Promise<T | undefined> {
+  const result = await action;
+  if (!result.success) {
+    throw result.error ?? new SafeActionError('Action failed');
+  }
+  return result.value;
+}
+
 /**
  * Checks if an error is a SafeActionError
  */
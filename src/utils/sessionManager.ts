@@ -0,0 +1,310 @@
+import fs from "fs";
+import path from "path";
+import { createLogger, format, transports } from "winston";
+import { CONFIG } from "../config.js";
+import { askAI } from "../agents/aiClient.js";
+import { PLAN_SYSTEM_PROMPT, StepPlanError, buildPlanPrompt, parseStepPlan, renderPlanSpec, validateStepPlan } from "../agents/stepPlan.js";
+import type { StepPlan } from "../agents/stepPlan.js";
+import { importPathFrom } from "../agents/testGenerator.js";
+import { defaultPolicy, enforceCodePolicy, formatViolations, PolicyViolationError } from "./codePolicy.js";
+import { redactFormat } from "./redaction.js";
+import { executeTests } from "./testExecutor.js";
+import { workspace } from "./workspace.js";
+
+/**
+ * A saved login of a user role
+ */
+export interface Session {
+  /** User role */
+  role: string;
+  /** Environment the login belongs to */
+  env: string;
+  /** Playwright storageState file */
+  storageStatePath: string;
+  /** When the login was saved (ISO 8601) */
+  savedAt: string;
+  /** When it is due for a refresh (ISO 8601) */
+  expiresAt: string;
+  /** Whether this call logged in, rather than reusing a saved login */
+  refreshed: boolean;
+}
+
+/**
+ * Options for obtaining a session
+ */
+export interface SessionOptions {
+  /** Run the login's AI usage and Playwright artifacts belong to (default: adhoc) */
+  runId?: string;
+  /** Log in again even if the saved login is still valid (default: false) */
+  force?: boolean;
+  /** Cancels the login */
+  signal?: AbortSignal;
+}
+
+/**
+ * Custom error for login failures and invalid login flows
+ */
+export class SessionError extends Error {
+  constructor(message: string, public readonly details?: unknown) {
+    super(message);
+    this.name = "SessionError";
+  }
+}
+
+/**
+ * Role of the environment's test user (CONFIG.USERNAME/CONFIG.PASSWORD).
+ * Every other role is a persona of the environment.
+ */
+export const DEFAULT_ROLE = "user";
+
+// Configure logger
+const logger = createLogger({
+  format: format.combine(
+    redactFormat(),
+    format.timestamp(),
+    format.colorize(),
+    format.printf(({ timestamp, level, message }) => {
+      return `${timestamp} [${level}]: ${message}`;
+    })
+  ),
+  transports: [
+    new transports.Console(),
+    new transports.File({ filename: "error.log", level: "error" }),
+    new transports.File({ filename: "orchestrator.log" })
+  ]
+});
+
+/**
+ * Logs user roles in once per environment and keeps their Playwright
+ * storageState, so generated specs start logged in instead of logging in
+ * through the UI. A role logs in by running its login flow: a step plan in
+ * the login flows directory, rendered into a spec that saves the browser
+ * state once every step passed. Saved logins are refreshed once they are
+ * older than the TTL or one of their cookies expired.
+ */
+export class SessionManager {
+  // Logins in progress, so scenarios needing the same role share one
+  private readonly pending = new Map<string, Promise<Session>>();
+
+  /**
+   * Creates a new SessionManager
+   * @param ttl Seconds a saved login is reused for (default: SESSION_TTL)
+   * @param flowsDir Directory of login flows, one <role>.plan.json per role (default: LOGIN_FLOWS_DIR)
+   */
+  constructor(
+    private readonly configuredTtl?: number,
+    private readonly configuredFlowsDir?: string
+  ) {}
+
+  // Read on first use, so importing this module never reads the configuration
+  private get ttl(): number {
+    return this.configuredTtl ?? CONFIG.SESSION_TTL;
+  }
+
+  private get flowsDir(): string {
+    return this.configuredFlowsDir ?? CONFIG.LOGIN_FLOWS_DIR;
+  }
+
+  /**
+   * Login flow of a role
+   */
+  flowPath(role: string): string {
+    return path.join(this.flowsDir, `${role}.plan.json`);
+  }
+
+  /**
+   * Returns the saved login of a role, logging in first if there is none or
+   * it expired
+   * @param role User role
+   * @throws {SessionError} If the role has no usable login flow or the login fails
+   */
+  async ensure(role: string, options: SessionOptions = {}): Promise<Session> {
+    validateRole(role);
+    const key = `${CONFIG.ENV}-${role}`;
+    const inProgress = this.pending.get(key);
+    if (inProgress) {
+      return inProgress;
+    }
+
+    const login = (async () => (options.force ? undefined : await this.saved(role)) ?? await this.login(role, options))();
+    this.pending.set(key, login);
+    try {
+      return await login;
+    } finally {
+      this.pending.delete(key);
+    }
+  }
+
+  /**
+   * Returns the saved login of a role if it is still valid
+   * @param role User role
+   */
+  async saved(role: string): Promise<Session | undefined> {
+    validateRole(role);
+    const filePath = workspace.storageStatePath(CONFIG.ENV, role);
+    let savedAt: number;
+    let state: { cookies?: { expires?: number }[] };
+    try {
+      savedAt = (await fs.promises.stat(filePath)).mtimeMs;
+      state = JSON.parse(await fs.promises.readFile(filePath, "utf-8"));
+    } catch {
+      return undefined;
+    }
+
+    const expiresAt = savedAt + this.ttl * 1000;
+    // Session cookies have no expiry (-1) and last as long as the saved state
+    const cookieExpired = (state.cookies ?? [])
+      .some(cookie => typeof cookie.expires === "number" && cookie.expires > 0 && cookie.expires * 1000 <= Date.now());
+    if (expiresAt <= Date.now() || cookieExpired) {
+      return undefined;
+    }
+    return session(role, filePath, savedAt, expiresAt, false);
+  }
+
+  /**
+   * Runs the role's login flow and saves the browser state
+   * @throws {SessionError} If the flow is unusable or the login fails
+   */
+  private async login(role: string, options: SessionOptions): Promise<Session> {
+    const runId = options.runId ?? "adhoc";
+    const plan = await this.loginFlow(role, runId, options.signal);
+    const specPath = workspace.loginSpecPath(CONFIG.ENV, role);
+    const statePath = workspace.storageStatePath(CONFIG.ENV, role);
+    // Scenarios may be reading the current state, so the new one replaces it only once complete
+    const pendingPath = `${statePath}.pending`;
+
+    await fs.promises.mkdir(workspace.authDir, { recursive: true });
+    await fs.promises.mkdir(path.dirname(specPath), { recursive: true });
+    await fs.promises.rm(pendingPath, { force: true });
+    await fs.promises.writeFile(specPath, renderPlanSpec(plan, {
+      safeActionsImport: importPathFrom(path.dirname(specPath), "src/utils/safeActions.js"),
+      configImport: importPathFrom(path.dirname(specPath), "src/config.js"),
+      planFileName: path.basename(this.flowPath(role)),
+      saveStorageState: pendingPath
+    }), "utf-8");
+
+    // Login flows may be planned by the AI, so they answer to the same policy as specs,
+    // except that logging in posts the credentials
+    const policy = defaultPolicy();
+    try {
+      await enforceCodePolicy(specPath, policy.guard ? { ...policy, guard: { ...policy.guard, requireRequestGuard: false } } : policy);
+    } catch (error) {
+      if (error instanceof PolicyViolationError) {
+        throw new SessionError(`Login flow of ${role} violates the code policy`, formatViolations(error.violations));
+      }
+      throw error;
+    }
+
+    logger.info(`Logging in as ${role} in ${CONFIG.ENV}`);
+    const execution = await executeTests(specPath, {
+      timeout: CONFIG.LOGIN_TIMEOUT,
+      reportFile: path.join(workspace.loginDir(runId, role), "report.json"),
+      outputDir: path.join(workspace.loginDir(runId, role), "artifacts"),
+      ...(options.signal ? { signal: options.signal } : {})
+    });
+    if (execution.status !== "passed" || !fs.existsSync(pendingPath)) {
+      const error = execution.tests.flatMap(test => test.errors)[0] ?? execution.errors[0];
+      const outcome = execution.status === "passed" ? "saved no browser state"
+        : execution.status === "timedOut" ? "timed out" : execution.status;
+      throw new SessionError(`Login as ${role} ${outcome}`, error?.message.split("\n")[0]);
+    }
+
+    await fs.promises.rename(pendingPath, statePath);
+    const savedAt = Date.now();
+    logger.info(`Logged in as ${role} in ${CONFIG.ENV}, saved to ${path.relative(process.cwd(), statePath)}`);
+    return session(role, statePath, savedAt, savedAt + this.ttl * 1000, true);
+  }
+
+  /**
+   * Reads a role's login flow. The flow of the default role, or of a persona
+   * with credentials, is planned from them the first time, and kept for review.
+   * @throws {SessionError} If the flow is missing or invalid
+   */
+  private async loginFlow(role: string, runId: string, signal?: AbortSignal): Promise<StepPlan> {
+    const flowPath = this.flowPath(role);
+    let text: string | undefined;
+    try {
+      text = await fs.promises.readFile(flowPath, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw new SessionError(
+          `Failed to read login flow ${flowPath}`,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+
+    if (text !== undefined) {
+      let value: unknown;
+      try {
+        value = JSON.parse(text);
+      } catch (error) {
+        throw new SessionError(
+          `Login flow ${flowPath} is not valid JSON`,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+      const errors = validateStepPlan(value);
+      if (errors.length > 0) {
+        throw new SessionError(`Login flow ${flowPath} does not match the step plan schema`, errors);
+      }
+      return value as StepPlan;
+    }
+
+    const credentials = role === DEFAULT_ROLE ? "CONFIG.USERNAME/CONFIG.PASSWORD"
+      : CONFIG.USERS[role]?.username ? `CONFIG.USERS.${role}.username/CONFIG.USERS.${role}.password` : undefined;
+    if (!credentials) {
+      throw new SessionError(
+        `No login flow for role ${role}`,
+        `Write a step plan to ${flowPath}, or declare ${role} with credentials in the users of ${CONFIG.ENV}`
+      );
+    }
+
+    logger.info(`Planning the login flow of ${role}`);
+    let plan: StepPlan;
+    try {
+      plan = parseStepPlan(await askAI(
+        buildPlanPrompt(`Log in with valid user (${credentials}) on ${CONFIG.BASE_URL} ` +
+          "and verify that the login succeeded"),
+        0.2,
+        { systemPrompt: PLAN_SYSTEM_PROMPT, ...(signal ? { signal } : {}) },
+        { runId, scenario: `login-${role}` }
+      ));
+    } catch (error) {
+      throw new SessionError(
+        `Failed to plan the login flow of ${role}`,
+        error instanceof StepPlanError ? error.details ?? error.message : error instanceof Error ? error.message : String(error)
+      );
+    }
+    await fs.promises.mkdir(path.dirname(flowPath), { recursive: true });
+    await fs.promises.writeFile(flowPath, JSON.stringify(plan, null, 2) + "\n", "utf-8");
+    logger.info(`Login flow of ${role} saved to ${flowPath}; review it, it is reused from now on`);
+    return plan;
+  }
+}
+
+/**
+ * Roles name files, so they are held to the same rules as scenario tags
+ * @throws {SessionError} If the role is not a valid name
+ */
+function validateRole(role: string): void {
+  if (!/^[a-zA-Z0-9_-]+$/.test(role)) {
+    throw new SessionError(`Invalid role: ${role}`, "Use only letters, numbers, underscores, and hyphens");
+  }
+}
+
+function session(role: string, storageStatePath: string, savedAt: number, expiresAt: number, refreshed: boolean): Session {
+  return {
+    role,
+    env: CONFIG.ENV,
+    storageStatePath,
+    savedAt: new Date(savedAt).toISOString(),
+    expiresAt: new Date(expiresAt).toISOString(),
+    refreshed
+  };
+}
+
+/**
+ * The session manager configured by SESSION_TTL and LOGIN_FLOWS_DIR
+ */
+export const sessionManager = new SessionManager();
@@ -0,0 +1,11 @@
+import { CONFIG } from "../config.js";
+import { workspace } from "./workspace.js";
+
+/**
+ * Saved login of a user role in the environment the test runs against.
+ * Generated specs that start logged in pass it to test.use({ storageState }).
+ * @param role User role, e.g. user or admin
+ */
+export function storageStatePath(role: string): string {
+  return workspace.storageStatePath(CONFIG.ENV, role);
+}
@@ -0,0 +1,349 @@
+import { spawn } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { JSONReport, JSONReportSuite, JSONReportTest, JSONReportTestResult } from "@playwright/test/reporter";
+
+/**
+ * Prefix of the line the orchestrator prints for each finished scenario,
+ * followed by its result as JSON; the server turns these lines into events
+ */
+export const RESULT_LINE_PREFIX = "::scenario-result::";
+
+/**
+ * Final status of a test case
+ */
+export type TestCaseStatus = "passed" | "failed" | "timedOut" | "skipped" | "interrupted" | "flaky";
+
+/**
+ * Overall status of an execution
+ */
+export type ExecutionStatus = "passed" | "failed" | "timedOut" | "aborted" | "error";
+
+/**
+ * Source location of an error
+ */
+export interface ErrorLocation {
+  /** Absolute file path */
+  file: string;
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+}
+
+/**
+ * An error raised by a test
+ */
+export interface TestCaseError {
+  /** Error message (ANSI colors removed) */
+  message: string;
+  /** Stack trace */
+  stack?: string;
+  /** Where in the spec the error was raised */
+  location?: ErrorLocation;
+}
+
+/**
+ * A file attached to a test result
+ */
+export interface TestAttachment {
+  /** Attachment name (trace, screenshot, video, ...) */
+  name: string;
+  /** MIME type */
+  contentType: string;
+  /** Path on disk */
+  path: string;
+}
+
+/**
+ * Result of one test case across its retries
+ */
+export interface TestCaseResult {
+  /** Title path, e.g. "login > logs in with valid credentials" */
+  title: string;
+  /** Spec file */
+  file: string;
+  /** Line of the test declaration */
+  line: number;
+  /** Playwright project */
+  project: string;
+  /** Final status; flaky means it passed on a retry */
+  status: TestCaseStatus;
+  /** Total time across all retries in ms */
+  duration: number;
+  /** Number of retries that were needed */
+  retries: number;
+  /** Errors of the final run */
+  errors: TestCaseError[];
+  /** Attachment files of the final run */
+  attachments: TestAttachment[];
+}
+
+/**
+ * Structured result of a Playwright execution
+ */
+export interface ExecutionResult {
+  /** Overall status */
+  status: ExecutionStatus;
+  /** Exit code of the Playwright process (null if it was killed) */
+  exitCode: number | null;
+  /** Wall-clock duration in ms */
+  duration: number;
+  /** Per-test results */
+  tests: TestCaseResult[];
+  /** Errors outside of tests (e.g. a spec that fails to load) */
+  errors: TestCaseError[];
+  /** Test counts */
+  stats: { passed: number; failed: number; flaky: number; skipped: number };
+  /** Console output of the run */
+  output: string;
+}
+
+/**
+ * Options for a Playwright execution
+ */
+export interface ExecutionOptions {
+  /** Kill the run after this many ms (default: 30000) */
+  timeout?: number;
+  /** Number of workers (default: 1) */
+  workers?: number;
+  /** Playwright retries per test (default: 0) */
+  retries?: number;
+  /** Additional console reporter (default: list) */
+  reporter?: string;
+  /** Where to keep the JSON report (default: a temporary file that is removed) */
+  reportFile?: string;
+  /** Directory for traces, screenshots and videos (default: Playwright's test-results) */
+  outputDir?: string;
+  /** Extra Playwright arguments */
+  extraArgs?: string[];
+  /** Kills the run when it fires */
+  signal?: AbortSignal;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<ExecutionOptions, "reportFile" | "outputDir" | "signal">> = {
+  timeout: 30000,
+  workers: 1,
+  retries: 0,
+  reporter: "list",
+  extraArgs: []
+};
+
+// Keep the tail of the console output; failures are at the end
+const MAX_OUTPUT = 64 * 1024;
+
+/**
+ * Runs specs with Playwright in a child process and collects a structured
+ * result from its JSON reporter
+ * @param testPaths Spec files or directories to run
+ * @param options Execution options
+ */
+export async function executeTests(testPaths: string | string[], options: ExecutionOptions = {}): Promise<ExecutionResult> {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const startTime = Date.now();
+  const tempDir = opts.reportFile ? undefined : await fs.promises.mkdtemp(path.join(os.tmpdir(), "pw-report-"));
+  const reportFile = path.resolve(opts.reportFile ?? path.join(tempDir!, "report.json"));
+  await fs.promises.mkdir(path.dirname(reportFile), { recursive: true });
+  await fs.promises.rm(reportFile, { force: true });
+
+  const args = [
+    "playwright", "test",
+    ...[testPaths].flat(),
+    `--reporter=${[opts.reporter, "json"].filter(Boolean).join(",")}`,
+    `--workers=${opts.workers}`,
+    `--retries=${opts.retries}`,
+    ...(opts.outputDir ? [`--output=${path.resolve(opts.outputDir)}`] : []),
+    ...opts.extraArgs
+  ];
+
+  try {
+    const run = await spawnPlaywright(args, reportFile, opts.timeout, opts.signal);
+    const report = await readReport(reportFile);
+    const duration = Date.now() - startTime;
+
+    if (!report) {
+      return {
+        status: run.aborted ? "aborted" : run.timedOut ? "timedOut" : "error",
+        exitCode: run.exitCode,
+        duration,
+        tests: [],
+        errors: [{
+          message: run.aborted
+            ? "Playwright run was aborted"
+            : run.timedOut ? `Playwright timed out after ${opts.timeout}ms` : "Playwright produced no report"
+        }],
+        stats: { passed: 0, failed: 0, flaky: 0, skipped: 0 },
+        output: run.output
+      };
+    }
+
+    const tests = collectTests(report.suites);
+    const errors = report.errors.map(toCaseError);
+    const stats = {
+      passed: report.stats.expected,
+      failed: report.stats.unexpected,
+      flaky: report.stats.flaky,
+      skipped: report.stats.skipped
+    };
+    let status: ExecutionStatus = stats.failed > 0 || errors.length > 0 || run.exitCode !== 0 ? "failed" : "passed";
+    if (run.aborted) {
+      status = "aborted";
+    } else if (run.timedOut) {
+      status = "timedOut";
+    } else if (status === "passed" && tests.length === 0) {
+      status = "error";
+      errors.push({ message: "No tests found" });
+    }
+    return { status, exitCode: run.exitCode, duration, tests, errors, stats, output: run.output };
+  } finally {
+    if (tempDir) {
+      await fs.promises.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Spawns Playwright, mirroring its output to the console. A timeout or an
+ * abort kills the whole process tree.
+ */
+function spawnPlaywright(
+  args: string[],
+  reportFile: string,
+  timeout: number,
+  signal?: AbortSignal
+): Promise<{ exitCode: number | null; timedOut: boolean; aborted: boolean; output: string }> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      resolve({ exitCode: null, timedOut: false, aborted: true, output: "" });
+      return;
+    }
+
+    const child = spawn("npx", args, {
+      env: { ...process.env, FORCE_COLOR: "1", PLAYWRIGHT_JSON_OUTPUT_NAME: reportFile },
+      stdio: ["ignore", "pipe", "pipe"],
+      shell: process.platform === "win32",
+      // Own process group, so a timeout also stops the browsers npx started
+      detached: process.platform !== "win32",
+      windowsHide: true
+    });
+
+    let output = "";
+    let timedOut = false;
+    let aborted = false;
+    const append = (chunk: Buffer, stream: NodeJS.WriteStream): void => {
+      stream.write(chunk);
+      output = (output + chunk.toString()).slice(-MAX_OUTPUT);
+    };
+    child.stdout.on("data", (chunk: Buffer) => append(chunk, process.stdout));
+    child.stderr.on("data", (chunk: Buffer) => append(chunk, process.stderr));
+
+    const stop = (): void => {
+      try {
+        if (child.pid !== undefined && process.platform !== "win32") {
+          process.kill(-child.pid, "SIGTERM");
+        } else {
+          child.kill("SIGTERM");
+        }
+      } catch {
+        // Already exited
+      }
+    };
+    const timer = setTimeout(() => {
+      timedOut = true;
+      stop();
+    }, timeout);
+    const onAbort = (): void => {
+      aborted = true;
+      stop();
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const cleanUp = (): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    };
+
+    child.on("error", error => {
+      cleanUp();
+      reject(error);
+    });
+    child.on("close", exitCode => {
+      cleanUp();
+      resolve({ exitCode, timedOut, aborted, output });
+    });
+  });
+}
+
+/**
+ * Reads the JSON report, or undefined if Playwright did not write one
+ */
+async function readReport(reportFile: string): Promise<JSONReport | undefined> {
+  try {
+    return JSON.parse(await fs.promises.readFile(reportFile, "utf-8")) as JSONReport;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Flattens the suite tree into test case results
+ */
+function collectTests(suites: JSONReportSuite[], titlePath: string[] = []): TestCaseResult[] {
+  return suites.flatMap(suite => {
+    // File suites are titled with the file name, which is reported separately
+    const path = suite.title && suite.title !== suite.file ? [...titlePath, suite.title] : titlePath;
+    return [
+      ...suite.specs.flatMap(spec => spec.tests.map(test => toCaseResult(test, [...path, spec.title].join(" > "), spec.file, spec.line))),
+      ...collectTests(suite.suites ?? [], path)
+    ];
+  });
+}
+
+function toCaseResult(test: JSONReportTest, title: string, file: string, line: number): TestCaseResult {
+  const last: JSONReportTestResult | undefined = test.results[test.results.length - 1];
+  return {
+    title,
+    file,
+    line,
+    project: test.projectName,
+    status: caseStatus(test, last),
+    duration: test.results.reduce((total, result) => total + result.duration, 0),
+    retries: last?.retry ?? 0,
+    errors: (last?.errors ?? []).map((error, index) => ({
+      ...toCaseError(error),
+      // errors[] lacks stacks; the primary error, which comes first, carries one
+      ...(index === 0 && last?.error?.stack ? { stack: stripAnsi(last.error.stack) } : {})
+    })),
+    attachments: (last?.attachments ?? [])
+      .filter((attachment): attachment is typeof attachment & { path: string } => attachment.path !== undefined)
+      .map(({ name, contentType, path }) => ({ name, contentType, path }))
+  };
+}
+
+function caseStatus(test: JSONReportTest, last: JSONReportTestResult | undefined): TestCaseStatus {
+  switch (test.status) {
+    case "expected":
+      return "passed";
+    case "flaky":
+      return "flaky";
+    case "skipped":
+      return "skipped";
+    default:
+      return last?.status === "timedOut" || last?.status === "interrupted" ? last.status : "failed";
+  }
+}
+
+function toCaseError(error: { message?: string; stack?: string; location?: ErrorLocation }): TestCaseError {
+  return {
+    message: stripAnsi(error.message ?? "Unknown error"),
+    ...(error.stack ? { stack: stripAnsi(error.stack) } : {}),
+    ...(error.location ? { location: error.location } : {})
+  };
+}
+
+/**
+ * Removes ANSI color codes
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*m/g, "");
+}
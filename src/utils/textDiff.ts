@@ -0,0 +1,105 @@
+/**
+ * A line of a diff
+ */
+export interface DiffLine {
+  /** ' ' unchanged, '-' only in the old text, '+' only in the new text */
+  kind: " " | "-" | "+";
+  /** Line content without the newline */
+  text: string;
+  /** 1-based line number in the old text (unchanged and removed lines) */
+  oldLine?: number;
+  /** 1-based line number in the new text (unchanged and added lines) */
+  newLine?: number;
+}
+
+/**
+ * Computes a line diff using the longest common subsequence
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText.split("\n");
+  const b = newText.split("\n");
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] = a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ kind: " ", text: a[i]!, oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1]![j]! >= lcs[i]![j + 1]!)) {
+      lines.push({ kind: "-", text: a[i]!, oldLine: i + 1 });
+      i++;
+    } else {
+      lines.push({ kind: "+", text: b[j]!, newLine: j + 1 });
+      j++;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Renders a unified diff with @@ hunk headers
+ * @param oldLabel Name of the old text in the --- header
+ * @param newLabel Name of the new text in the +++ header
+ * @param context Unchanged lines shown around each change (default: 3)
+ * @returns The diff, or an empty string if the texts are identical
+ */
+export function unifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+  context = 3
+): string {
+  const lines = diffLines(oldText, newText);
+  const changed = lines.map((line, index) => (line.kind === " " ? -1 : index)).filter(index => index >= 0);
+  if (changed.length === 0) {
+    return "";
+  }
+
+  // Group changes whose context windows touch into hunks
+  const hunks: [number, number][] = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length - 1, index + context);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  }
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  for (const [start, end] of hunks) {
+    const hunk = lines.slice(start, end + 1);
+    const oldLines = hunk.filter(line => line.kind !== "+");
+    const newLines = hunk.filter(line => line.kind !== "-");
+    const oldStart = oldLines[0]?.oldLine ?? precedingLine(lines, start, "oldLine");
+    const newStart = newLines[0]?.newLine ?? precedingLine(lines, start, "newLine");
+    output.push(`@@ -${oldStart},${oldLines.length} +${newStart},${newLines.length} @@`);
+    output.push(...hunk.map(line => `${line.kind}${line.text}`));
+  }
+  return output.join("\n") + "\n";
+}
+
+/**
+ * Line number before a hunk that has no lines on one side
+ */
+function precedingLine(lines: DiffLine[], start: number, side: "oldLine" | "newLine"): number {
+  for (let index = start - 1; index >= 0; index--) {
+    const line = lines[index]![side];
+    if (line !== undefined) {
+      return line;
+    }
+  }
+  return 0;
+}
@@ -0,0 +1,41 @@
+/**
+ * Runs a task for every item with at most `concurrency` tasks in flight,
+ * starting the next item as soon as a slot frees up.
+ *
+ * Once the signal fires, or a task rejects, no further items are started;
+ * tasks already in flight are awaited. The first rejection is rethrown after
+ * they settle.
+ * @param items Items to process, started in order
+ * @param concurrency Maximum number of tasks in flight (at least 1)
+ * @param task Processes one item
+ * @param signal Stops starting new items when it fires
+ * @returns The items that were never started
+ */
+export async function runPool<T>(
+  items: readonly T[],
+  concurrency: number,
+  task: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<T[]> {
+  let next = 0;
+  let failure: { error: unknown } | undefined;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length && !signal?.aborted && !failure) {
+      const item = items[next++]!;
+      try {
+        await task(item);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(Math.floor(concurrency) || 1, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+
+  if (failure) {
+    throw failure.error;
+  }
+  return items.slice(next);
+}
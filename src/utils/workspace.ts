@@ -0,0 +1,162 @@
+import path from "path";
+import { CONFIG } from "../config.js";
+
+/**
+ * Where generated artifacts live. Every component resolves its paths here,
+ * so the generator, the runner and the reports agree.
+ *
+ * <root>/
+ *   tests/generated/<tag>.spec.ts        generated spec
+ *   tests/generated/<tag>.plan.json      step plan it was rendered from
+ *   tests/generated/<tag>.spec.ts.meta.json
+ *   tests/generated/.history/<tag>/      numbered revisions
+ *   tests/generated/quarantine.json      scenarios found flaky
+ *   src/pom/<Page>.ts                    generated page objects
+ *   .auth/<env>-<role>.json              saved login (Playwright storageState) of a user role
+ *   tests/logins/<env>-<role>.login.spec.ts  spec that logs the role in and saves it
+ *   runs/<runId>/summary.json            outcome of every scenario of a run
+ *   runs/<runId>/junit.xml               the same as a JUnit report
+ *   runs/<runId>/report.html             the same with specs, diffs, AI exchanges and screenshots
+ *   runs/<runId>/logins/<role>/          report.json and Playwright artifacts of a login
+ *   runs/<runId>/<tag>/attempt-<n>/      report.json and Playwright artifacts of one attempt
+ *     stability-<k>/                     report.json and artifacts of one stability run
+ *   reports/                             reports spanning runs
+ *     run-history.jsonl                  outcome of every scenario of every run
+ */
+export class Workspace {
+  /**
+   * Creates a new Workspace
+   * @param configuredRoot Workspace root, relative to the working directory (default: AI_WORKSPACE_ROOT)
+   */
+  constructor(private readonly configuredRoot?: string) {}
+
+  /** Absolute workspace root, read from AI_WORKSPACE_ROOT on first use unless given */
+  get root(): string {
+    return path.resolve(this.configuredRoot ?? CONFIG.AI_WORKSPACE_ROOT);
+  }
+
+  /** Directory of generated specs */
+  get specsDir(): string {
+    return path.join(this.root, "tests", "generated");
+  }
+
+  /** Directory of generated page objects */
+  get pomDir(): string {
+    return path.join(this.root, "src", "pom");
+  }
+
+  /** Directory of spec revision histories */
+  get historyDir(): string {
+    return path.join(this.specsDir, ".history");
+  }
+
+  /** List of quarantined scenarios */
+  get quarantinePath(): string {
+    return path.join(this.specsDir, "quarantine.json");
+  }
+
+  /** Directory of saved logins */
+  get authDir(): string {
+    return path.join(this.root, ".auth");
+  }
+
+  /** Directory of per-run output */
+  get runsDir(): string {
+    return path.join(this.root, "runs");
+  }
+
+  /** Directory of reports spanning runs */
+  get reportsDir(): string {
+    return path.join(this.root, "reports");
+  }
+
+  /** History of every run, one JSON line per run */
+  get runHistoryPath(): string {
+    return path.join(this.reportsDir, "run-history.jsonl");
+  }
+
+  /** Generated spec of a scenario */
+  specPath(tag: string): string {
+    return path.join(this.specsDir, `${tag}.spec.ts`);
+  }
+
+  /** Step plan of a scenario */
+  planPath(tag: string): string {
+    return path.join(this.specsDir, `${tag}.plan.json`);
+  }
+
+  /** Generation metadata of a scenario */
+  metaPath(tag: string): string {
+    return `${this.specPath(tag)}.meta.json`;
+  }
+
+  /** Saved login of a user role in an environment */
+  storageStatePath(env: string, role: string): string {
+    return path.join(this.authDir, `${env}-${role}.json`);
+  }
+
+  /**
+   * Spec that logs a user role in and saves its login. Playwright skips
+   * gitignored files, so it does not live next to the saved login.
+   */
+  loginSpecPath(env: string, role: string): string {
+    return path.join(this.root, "tests", "logins", `${env}-${role}.login.spec.ts`);
+  }
+
+  /** Output folder of one run */
+  runDir(runId: string): string {
+    return path.join(this.runsDir, runId);
+  }
+
+  /** Summary of a run, written when it ends */
+  summaryPath(runId: string): string {
+    return path.join(this.runDir(runId), "summary.json");
+  }
+
+  /** JUnit report of a run, written when it ends */
+  junitPath(runId: string): string {
+    return path.join(this.runDir(runId), "junit.xml");
+  }
+
+  /** Self-contained HTML report of a run, written when it ends */
+  htmlReportPath(runId: string): string {
+    return path.join(this.runDir(runId), "report.html");
+  }
+
+  /** Output folder of a login made for a run */
+  loginDir(runId: string, role: string): string {
+    return path.join(this.runDir(runId), "logins", role);
+  }
+
+  /** Output folder of one attempt at a scenario within a run */
+  attemptDir(runId: string, tag: string, attempt: number): string {
+    return path.join(this.runDir(runId), tag, `attempt-${attempt}`);
+  }
+
+  /** Playwright JSON report of an attempt */
+  reportPath(runId: string, tag: string, attempt: number): string {
+    return path.join(this.attemptDir(runId, tag, attempt), "report.json");
+  }
+
+  /** Playwright output (traces, screenshots, videos) of an attempt */
+  artifactsDir(runId: string, tag: string, attempt: number): string {
+    return path.join(this.attemptDir(runId, tag, attempt), "artifacts");
+  }
+
+  /** Output folder of one stability run of an attempt */
+  stabilityDir(runId: string, tag: string, attempt: number, run: number): string {
+    return path.join(this.attemptDir(runId, tag, attempt), `stability-${run}`);
+  }
+}
+
+/**
+ * Creates a unique, sortable run identifier
+ */
+export function createRunId(startTime: Date = new Date()): string {
+  return `run-${startTime.toISOString().replace(/[:.]/g, "-")}`;
+}
+
+/**
+ * The workspace configured by AI_WORKSPACE_ROOT
+ */
+export const workspace = new Workspace();
@@ -0,0 +1,50 @@
+import { test, expect } from "@playwright/test";
+import { execFileSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+
+const FIXTURE = path.join(process.cwd(), "tests", "unit", "fixtures", "askAI.ts");
+const TSX = pathToFileURL(path.join(process.cwd(), "node_modules", "tsx", "dist", "loader.mjs")).href;
+
+const CONFIG_FILE = {
+  defaultEnvironment: "qa",
+  environments: { qa: { baseUrl: "https://qa.example.com" } },
+  ai: { provider: "mock", cache: { enabled: false } }
+};
+
+/**
+ * Sends the prompts through askAI in a fresh process, inside a scratch directory
+ * so the client's logs, audit log and cache stay out of the project
+ */
+function askInProcess(responses: string[], prompts: string[]): { responses: string[] } {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ai-client-test-"));
+  try {
+    const configPath = path.join(dir, "ai-agentic.config.json");
+    const script = path.join(dir, "responses.json");
+    fs.writeFileSync(configPath, JSON.stringify(CONFIG_FILE));
+    fs.writeFileSync(script, JSON.stringify(responses));
+    const output = execFileSync(process.execPath, ["--import", TSX, FIXTURE, ...prompts], {
+      cwd: dir,
+      env: {
+        PATH: process.env["PATH"] ?? "",
+        AI_AGENTIC_CONFIG: configPath,
+        AI_MOCK_RESPONSES: script,
+        USERNAME_QA: "tester",
+        PASSWORD_QA: "secret-pw"
+      },
+      encoding: "utf-8"
+    });
+    return JSON.parse(output.trim().split("\n").pop()!);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+test.describe("askAI", () => {
+  test("keeps the place in a scripted mock across requests", () => {
+    const { responses } = askInProcess(["first", "second"], ["Plan the login", "Repair the login"]);
+    expect(responses).toEqual(["first", "second"]);
+  });
+});
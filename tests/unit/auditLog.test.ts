@@ -0,0 +1,69 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { queryExchanges, recordExchange, systemPromptVersion } from "../../src/agents/auditLog.js";
+import type { AIExchange } from "../../src/agents/auditLog.js";
+import { registerSecret, REDACTED } from "../../src/utils/redaction.js";
+
+function exchange(id: string, runId: string, scenario: string, prompt = "Log in"): AIExchange {
+  return {
+    id,
+    timestamp: new Date().toISOString(),
+    runId,
+    scenario,
+    attempt: 1,
+    provider: "mock",
+    model: "gpt-4o",
+    systemPromptVersion: systemPromptVersion("You write tests."),
+    prompt,
+    completion: "test('login', ...)",
+    latencyMs: 12,
+    cached: false
+  };
+}
+
+let logPath: string;
+
+test.beforeEach(async () => {
+  logPath = path.join(await fs.promises.mkdtemp(path.join(os.tmpdir(), "audit-test-")), "logs", "ai-exchanges.jsonl");
+});
+
+test.afterEach(async () => {
+  await fs.promises.rm(path.dirname(path.dirname(logPath)), { recursive: true, force: true });
+});
+
+test.describe("audit log", () => {
+  test("appends one JSON line per exchange, with secrets masked", async () => {
+    registerSecret("audit-secret-pw", "PASSWORD");
+    await recordExchange(exchange("1", "r1", "login", "Log in with audit-secret-pw"), logPath);
+    await recordExchange(exchange("2", "r1", "search"), logPath);
+
+    const lines = (await fs.promises.readFile(logPath, "utf-8")).trim().split("\n");
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0]!).prompt).toBe(`Log in with ${REDACTED}`);
+  });
+
+  test("queries exchanges by run and scenario, in the order recorded", async () => {
+    await recordExchange(exchange("1", "r1", "login"), logPath);
+    await recordExchange(exchange("2", "r1", "search"), logPath);
+    await recordExchange(exchange("3", "r2", "login"), logPath);
+
+    const ids = async (filter: Parameters<typeof queryExchanges>[0]): Promise<string[]> =>
+      (await queryExchanges(filter, logPath)).map(entry => entry.id);
+    expect(await ids({})).toEqual(["1", "2", "3"]);
+    expect(await ids({ runId: "r1" })).toEqual(["1", "2"]);
+    expect(await ids({ scenario: "login" })).toEqual(["1", "3"]);
+    expect(await ids({ runId: "r2", scenario: "search" })).toEqual([]);
+  });
+
+  test("reads a missing log as empty", async () => {
+    expect(await queryExchanges({}, logPath)).toEqual([]);
+  });
+
+  test("versions system prompts by a short stable hash", () => {
+    expect(systemPromptVersion("a")).toHaveLength(12);
+    expect(systemPromptVersion("a")).toBe(systemPromptVersion("a"));
+    expect(systemPromptVersion("a")).not.toBe(systemPromptVersion("b"));
+  });
+});
@@ -0,0 +1,62 @@
+import { test, expect } from "@playwright/test";
+import { spawn } from "child_process";
+import fs from "fs";
+import http from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+
+const CLI = path.join(process.cwd(), "src", "cli", "cli.ts");
+const TSX = pathToFileURL(path.join(process.cwd(), "node_modules", "tsx", "dist", "loader.mjs")).href;
+
+const CONFIG_FILE = {
+  defaultEnvironment: "qa",
+  environments: { qa: { baseUrl: "https://qa.example.com" } },
+  ai: { provider: "mock", cache: { enabled: false } }
+};
+
+let dir: string;
+
+test.beforeEach(async () => {
+  dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "cli-test-"));
+  await fs.promises.writeFile(path.join(dir, "ai-agentic.config.json"), JSON.stringify(CONFIG_FILE));
+});
+
+test.afterEach(async () => {
+  await fs.promises.rm(dir, { recursive: true, force: true });
+});
+
+test.describe("ai-agentic pom", () => {
+  test("stops waiting for a page that never answers on SIGINT", async () => {
+    test.setTimeout(60_000);
+    // Accepts the request and never responds
+    const server = http.createServer(() => undefined);
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      // A scratch working directory keeps the CLI's logs out of the project
+      const cli = spawn(process.execPath, ["--import", TSX, CLI, "pom", "--url", `http://127.0.0.1:${port}/`], {
+        cwd: dir,
+        env: {
+          PATH: process.env["PATH"] ?? "",
+          AI_AGENTIC_CONFIG: path.join(dir, "ai-agentic.config.json"),
+          USERNAME_QA: "tester",
+          PASSWORD_QA: "secret-pw"
+        },
+        stdio: "ignore"
+      });
+      const exited = new Promise<number | null>(resolve => cli.on("close", resolve));
+      await new Promise(resolve => server.once("request", resolve));
+
+      const startTime = Date.now();
+      cli.kill("SIGINT");
+      expect(await exited).toBe(130);
+      expect(Date.now() - startTime).toBeLessThan(10_000);
+    } finally {
+      server.closeAllConnections();
+      server.close();
+    }
+  });
+});
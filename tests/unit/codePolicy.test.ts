@@ -0,0 +1,227 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { checkCodePolicy, enforceCodePolicy, formatViolations, PolicyViolationError } from "../../src/utils/codePolicy.js";
+import type { CodePolicy } from "../../src/utils/codePolicy.js";
+
+const SPEC = path.join(process.cwd(), "tests", "generated", "scenario.spec.ts");
+
+const POLICY: CodePolicy = {
+  allowedImports: ["@playwright/test"],
+  projectRoots: [process.cwd()],
+  allowedModules: ["src/utils/safeActions", "src/config"],
+  allowedGlobals: ["undefined", "console", "Promise", "JSON", "URL", "setTimeout", "document", "window"],
+  allowedHosts: ["qa.example.com"]
+};
+
+const GUARDED: CodePolicy = {
+  ...POLICY,
+  guard: { mutatingActions: ["checkout", "delete"], deniedRoutes: ["/account"], requireRequestGuard: false }
+};
+
+/**
+ * Checks a spec body wrapped in a test, returning "line:column [rule] message" strings
+ */
+function check(body: string, policy: CodePolicy = POLICY): string[] {
+  const code = [
+    "import { test, expect } from '@playwright/test';",
+    "import { clickSafe } from '../../src/utils/safeActions.js';",
+    "import { CONFIG } from '../../src/config.js';",
+    "test('scenario', async ({ page, request }) => {",
+    body,
+    "});"
+  ].join("\n");
+  return formatViolations(checkCodePolicy(code, SPEC, policy));
+}
+
+test.describe("code policy", () => {
+  test("allows a plain spec", () => {
+    expect(check([
+      "  const title = 'Cart';",
+      "  await page.goto('https://qa.example.com/cart');",
+      "  await page.goto('/orders');",
+      "  await page.goto(`/orders/${title}`);",
+      "  await page.goto(CONFIG.BASE_URL);",
+      "  await page.goto(`${CONFIG.BASE_URL}/cart?item=${title}`);",
+      "  await page.goto(CONFIG.BASE_URL + '/cart' + title);",
+      "  await page.waitForURL(/orders/);",
+      "  await clickSafe(page, '#next');",
+      "  expect(await page.title()).toContain(title);",
+      "  console.log(JSON.stringify(await page.evaluate(() => document.title)));"
+    ].join("\n"))).toEqual([]);
+  });
+
+  test("limits imports to the allowlist and the framework helpers", () => {
+    const violations = formatViolations(checkCodePolicy([
+      "import fs from 'fs';",
+      "import { helper } from '../../../outside.js';",
+      "import { x } from '../../node_modules/pkg/index.js';",
+      "import { executeTest } from '../../src/utils/testExecutor.js';",
+      "export * from '../../src/utils/testHistory';",
+      "import { CONFIG } from '../../src/config';"
+    ].join("\n"), SPEC, POLICY));
+
+    const allowed = "(allowed: src/utils/safeActions, src/config)";
+    expect(violations).toEqual([
+      "1:16 [import] Import of 'fs' is not allowed",
+      `2:24 [import] Relative import '../../../outside.js' is not allowed ${allowed}`,
+      `3:19 [import] Relative import '../../node_modules/pkg/index.js' is not allowed ${allowed}`,
+      `4:29 [import] Relative import '../../src/utils/testExecutor.js' is not allowed ${allowed}`,
+      `5:15 [import] Relative import '../../src/utils/testHistory' is not allowed ${allowed}`
+    ]);
+  });
+
+  test("reports undeclared globals, but not declared names or properties", () => {
+    expect(check([
+      "  const local = { process: 1 };",
+      "  await page.fill('#a', String(local.process));",
+      "  process.exit(1);"
+    ].join("\n"))).toEqual([
+      "6:25 [global] Global 'String' is not allowed",
+      "7:3 [global] Global 'process' is not allowed"
+    ]);
+  });
+
+  test("blocks dynamic code, including aliased eval and string timers", () => {
+    expect(check([
+      "  eval('1');",
+      "  new Function('return 1')();",
+      "  (0, eval)('1');",
+      "  setTimeout('alert(1)', 10);",
+      "  await import('fs');"
+    ].join("\n"))).toEqual([
+      "5:3 [dynamic-code] eval() executes dynamic code",
+      "6:3 [dynamic-code] Function() executes dynamic code",
+      "7:7 [dynamic-code] Reference to eval is not allowed",
+      "8:3 [dynamic-code] setTimeout() with a string argument executes dynamic code",
+      "9:9 [dynamic-code] Dynamic import() is not allowed"
+    ]);
+  });
+
+  test("blocks the Function constructor reached through other values", () => {
+    expect(check([
+      "  [].constructor.constructor('return process')();",
+      "  const key = 'constructor';",
+      "  ({} as any)[key];",
+      "  ({} as any)['con' + 'structor'];",
+      "  ({} as any).__proto__;",
+      "  const rows = [1, 2];",
+      "  expect(rows[rows.length - 1]).toBe(2);"
+    ].join("\n"))).toEqual([
+      "5:18 [dynamic-code] Access to .constructor is not allowed",
+      "5:6 [dynamic-code] Access to .constructor is not allowed",
+      "6:15 [dynamic-code] 'constructor' is not allowed as a string",
+      "8:15 [dynamic-code] Property names built from strings are not allowed",
+      "9:15 [dynamic-code] Access to .__proto__ is not allowed"
+    ]);
+  });
+
+  test("runs only inline functions in the page", () => {
+    expect(check([
+      "  await page.evaluate('fetch(\\'https://evil.example.org\\')');",
+      "  const script = () => document.title;",
+      "  await page.evaluate(script);",
+      "  await page.addInitScript({ content: 'alert(1)' });",
+      "  await page.$eval('h1', 'el => el.textContent');",
+      "  await page.evaluate(() => document.title);",
+      "  await page.locator('h1').evaluate(function (element) { return element.textContent; });"
+    ].join("\n"))).toEqual([
+      "5:23 [dynamic-code] evaluate() must be given an inline function, not a string or other value",
+      "7:23 [dynamic-code] evaluate() must be given an inline function, not a string or other value",
+      "8:28 [dynamic-code] addInitScript() must be given an inline function, not a string or other value",
+      "9:26 [dynamic-code] $eval() must be given an inline function, not a string or other value"
+    ]);
+  });
+
+  test("keeps navigation and API requests on the allowed hosts", () => {
+    expect(check([
+      "  await page.goto('https://evil.example.org/');",
+      "  await page.waitForURL(`https://evil.example.org/${'x'}`);",
+      "  await request.get('https://qa.example.com/api/cart');",
+      "  await page.request.post('https://evil.example.org/api');"
+    ].join("\n"))).toEqual([
+      "5:19 [navigation] goto() to host 'evil.example.org' is not allowed (allowed: qa.example.com)",
+      "6:25 [navigation] waitForURL() to host 'evil.example.org' is not allowed (allowed: qa.example.com)",
+      "8:27 [navigation] request.post() to host 'evil.example.org' is not allowed (allowed: qa.example.com)"
+    ]);
+  });
+
+  test("rejects navigation targets whose host is computed", () => {
+    const computed = "needs a string literal URL, or one that starts with CONFIG.BASE_URL followed by a path";
+    expect(check([
+      "  await page.goto('https://evil' + '.example.org');",
+      "  const target = 'https://evil.example.org';",
+      "  await page.goto(target);",
+      "  await page.goto(CONFIG.BASE_URL + '.evil.example.org');",
+      "  await page.goto(`https://qa.example.com${'.evil.example.org'}/`);",
+      "  await page.goto('//evil.example.org/');",
+      "  await request.get(`${CONFIG.USERNAME}.example.org`);"
+    ].join("\n"))).toEqual([
+      `5:19 [navigation] goto() ${computed}`,
+      `7:19 [navigation] goto() ${computed}`,
+      `8:19 [navigation] goto() ${computed}`,
+      "9:19 [navigation] goto() to a URL whose host is computed is not allowed",
+      "10:19 [navigation] goto() to host 'evil.example.org' is not allowed (allowed: qa.example.com)",
+      `11:21 [navigation] request.get() ${computed}`
+    ]);
+  });
+
+  test("removes a blocked spec from disk", async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "policy-"));
+    const blocked = path.join(dir, "blocked.spec.ts");
+    const allowed = path.join(dir, "allowed.spec.ts");
+    await fs.promises.writeFile(blocked, "import fs from 'fs';\n", "utf-8");
+    await fs.promises.writeFile(allowed, "import { test } from '@playwright/test';\n", "utf-8");
+    try {
+      await expect(enforceCodePolicy(blocked, POLICY)).rejects.toThrow(PolicyViolationError);
+      await enforceCodePolicy(allowed, POLICY);
+      expect(fs.existsSync(blocked)).toBe(false);
+      expect(fs.existsSync(allowed)).toBe(true);
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("ignores type-only constructs", () => {
+    expect(check("  type Row = Record<string, NodeJS.Process>;\n  const row: Row = {};\n  expect(row).toEqual({});"))
+      .toEqual([]);
+  });
+});
+
+test.describe("code policy in a guarded environment", () => {
+  test("forbids clicks and requests that change data", () => {
+    expect(check([
+      "  await clickSafe(page, '#checkout-button');",
+      "  const deleteLink = page.locator('a.remove');",
+      "  await deleteLink.click();",
+      "  await request.post('https://qa.example.com/api/cart');",
+      "  await request.fetch('https://qa.example.com/api/cart', { method: 'PUT' });",
+      "  await request.fetch('https://qa.example.com/api/cart', { method: 'GET' });"
+    ].join("\n"), GUARDED)).toEqual([
+      "5:9 [mutation] clickSafe() on '#checkout-button' may change data, which this environment forbids",
+      "7:9 [mutation] click() on 'deleteLink' may change data, which this environment forbids",
+      "8:9 [mutation] request.post() changes data, which this environment forbids",
+      "9:9 [mutation] request.fetch() with a method other than GET, HEAD or OPTIONS may change data"
+    ]);
+  });
+
+  test("forbids submitting forms once a denied route is mentioned", () => {
+    expect(check([
+      "  await page.goto('/account/profile');",
+      "  await page.locator('button.save').click();",
+      "  await page.locator('#name').press('Enter');"
+    ].join("\n"), GUARDED)).toEqual([
+      "6:9 [mutation] click() may submit a form on denied route '/account'",
+      "7:9 [mutation] press() may submit a form on denied route '/account'"
+    ]);
+  });
+
+  test("requires the request guard when the environment blocks mutating requests", () => {
+    const policy: CodePolicy = { ...GUARDED, guard: { ...GUARDED.guard!, requireRequestGuard: true } };
+    expect(check("  await page.goto('/');", policy)).toEqual([
+      "1:1 [mutation] Spec must block mutating requests: call guardRequests(context) from test.beforeEach"
+    ]);
+    expect(check("  await guardRequests(page.context());", { ...policy, allowedGlobals: ["guardRequests"] })).toEqual([]);
+  });
+});
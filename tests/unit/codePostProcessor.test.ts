@@ -0,0 +1,70 @@
+import { test, expect } from "@playwright/test";
+import path from "path";
+import { extractCode, formatWithPrettier, normalizeImports } from "../../src/agents/codePostProcessor.js";
+
+const SPEC = path.join(process.cwd(), "tests", "generated", "scenario.spec.ts");
+
+test.describe("code post-processor", () => {
+  test("keeps the code blocks of a completion and drops the prose and other languages", () => {
+    const { code, stripped } = extractCode([
+      "Here is the test:",
+      "```typescript",
+      "import { test } from '@playwright/test';",
+      "```",
+      "Run it with:",
+      "```bash",
+      "npx playwright test",
+      "```",
+      "```ts",
+      "test('a', async () => {});",
+      "```"
+    ].join("\n"));
+
+    expect(code).toBe("import { test } from '@playwright/test';\n\ntest('a', async () => {});\n");
+    expect(stripped).toEqual([
+      "Dropped a non-code `bash` block",
+      "Removed 2 line(s) of prose outside code blocks",
+      "Merged 2 code blocks"
+    ]);
+  });
+
+  test("keeps unfenced code, minus stray fence lines", () => {
+    expect(extractCode("test('a', async () => {});")).toEqual({ code: "test('a', async () => {});\n", stripped: [] });
+    expect(extractCode("```ts\ntest('a', async () => {});")).toEqual({
+      code: "test('a', async () => {});\n",
+      stripped: ["Removed 1 unmatched code fence line(s)"]
+    });
+  });
+
+  test("merges imports per module and removes duplicate and unused ones", () => {
+    const { code, removed } = normalizeImports([
+      "import { test } from '@playwright/test';",
+      "import { clickSafe, fillSafe } from '../../src/utils/safeActions.js';",
+      "test('a', async ({ page }) => { await clickSafe(page, '#a'); expect(1).toBe(1); });",
+      "import { expect, test } from '@playwright/test';",
+      "import { test as base } from '@playwright/test';"
+    ].join("\n"), SPEC);
+
+    expect(code).toBe([
+      "import { test, expect } from '@playwright/test';",
+      "import { clickSafe } from '../../src/utils/safeActions.js';",
+      "",
+      "test('a', async ({ page }) => { await clickSafe(page, '#a'); expect(1).toBe(1); });",
+      ""
+    ].join("\n"));
+    expect(removed).toEqual([
+      "Removed unused import 'fillSafe' from '../../src/utils/safeActions.js'",
+      "Removed duplicate import 'test' from '@playwright/test'",
+      "Removed unused import 'base' from '@playwright/test'"
+    ]);
+  });
+
+  test("leaves code without imports untouched", () => {
+    expect(normalizeImports("test('a', () => {});\n", SPEC)).toEqual({ code: "test('a', () => {});\n", removed: [] });
+  });
+
+  test("formats with Prettier and reports code it cannot parse", async () => {
+    expect(await formatWithPrettier("const a={b:1}", SPEC)).toMatch(/^const a = \{ b: 1 \};?\n$/);
+    await expect(formatWithPrettier("const = ;", SPEC)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,125 @@
+import { test, expect } from "@playwright/test";
+import { execFileSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const FIXTURE = path.join(process.cwd(), "tests", "unit", "fixtures", "printConfig.ts");
+
+const CONFIG_FILE = {
+  defaultEnvironment: "qa",
+  environments: {
+    qa: {
+      baseUrl: "https://qa.example.com",
+      timeouts: { test: 20000 },
+      features: { "guest-checkout": true, "new-search": false },
+      users: { admin: { description: "store administrator", username: "ADMIN_USER", password: "ADMIN_PASS" } },
+      data: { products: { laptop: "MacBook" } }
+    },
+    prod: { baseUrl: "https://example.com" }
+  },
+  ai: { provider: "mock" },
+  run: { concurrency: 3 }
+};
+
+const CREDENTIALS = { USERNAME_QA: "tester", PASSWORD_QA: "secret-pw", ADMIN_USER: "boss", ADMIN_PASS: "admin-pw" };
+
+/**
+ * Resolves settings in a fresh process, with only the given environment variables
+ */
+function readConfig(
+  file: unknown,
+  env: Record<string, string>,
+  keys: string[]
+): { settings?: Record<string, any>; error?: string; issues?: string[] } {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "config-test-"));
+  const configPath = path.join(dir, "ai-agentic.config.json");
+  fs.writeFileSync(configPath, typeof file === "string" ? file : JSON.stringify(file));
+  try {
+    const output = execFileSync(process.execPath, ["--import", "tsx", FIXTURE, ...keys], {
+      cwd: process.cwd(),
+      env: { PATH: process.env["PATH"] ?? "", AI_AGENTIC_CONFIG: configPath, ...env },
+      encoding: "utf-8"
+    });
+    return JSON.parse(output.trim().split("\n").pop()!);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+test.describe("config", () => {
+  test("resolves the selected environment from the file, with variables overriding it", () => {
+    const { settings } = readConfig(CONFIG_FILE, {
+      ...CREDENTIALS,
+      BASE_URL_QA: "https://override.example.com",
+      SCENARIO_TIMEOUT: "1000",
+      FEATURE_NEW_SEARCH: "true"
+    }, ["ENV", "BASE_URL", "USERNAME", "SCENARIO_TIMEOUT", "TEST_TIMEOUT", "FEATURES", "CONCURRENCY", "AI_PROVIDER"]);
+
+    expect(settings).toEqual({
+      ENV: "qa",
+      BASE_URL: "https://override.example.com",
+      USERNAME: "tester",
+      SCENARIO_TIMEOUT: 1000,
+      TEST_TIMEOUT: 20000,
+      FEATURES: { "guest-checkout": true, "new-search": true },
+      CONCURRENCY: 3,
+      AI_PROVIDER: "mock"
+    });
+  });
+
+  test("resolves personas and test data", () => {
+    const { settings } = readConfig(CONFIG_FILE, CREDENTIALS, ["USERS", "DATA"]);
+    expect(settings).toEqual({
+      USERS: { admin: { description: "store administrator", username: "boss", password: "admin-pw" } },
+      DATA: { products: { laptop: "MacBook" } }
+    });
+  });
+
+  test("looks up personas by name, naming the declared ones for an unknown name", () => {
+    const { settings } = readConfig(CONFIG_FILE, CREDENTIALS, ["persona:admin"]);
+    expect(settings).toEqual({ "persona:admin": { description: "store administrator", username: "boss", password: "admin-pw" } });
+
+    const { error, issues } = readConfig(CONFIG_FILE, CREDENTIALS, ["persona:manager"]);
+    expect(error).toBe("Unknown persona manager in qa");
+    expect(issues).toEqual(["manager: not among the users of qa (declared: admin)"]);
+  });
+
+  test("lists every problem at once", () => {
+    const file = {
+      ...CONFIG_FILE,
+      ai: { provder: "mock" },
+      run: { concurrency: "two" }
+    };
+    const { error, issues } = readConfig(file, { ...CREDENTIALS, PASSWORD_QA: "", AI_PROVIDER: "mock" }, ["PASSWORD"]);
+
+    expect(error).toMatch(/^Invalid configuration in .* \(3 problems\)$/);
+    expect(issues).toEqual(expect.arrayContaining([
+      "ai.provder: is not a known setting",
+      "run.concurrency (CONCURRENCY): must be an integer",
+      "PASSWORD_QA: missing environment variable (password of qa)"
+    ]));
+  });
+
+  test("reads settings a problem does not affect", () => {
+    const { settings, issues } = readConfig(CONFIG_FILE, {}, ["BASE_URL", "CONCURRENCY"]);
+    expect(issues).toBeUndefined();
+    expect(settings).toEqual({ BASE_URL: "https://qa.example.com", CONCURRENCY: 3 });
+  });
+
+  test("rejects an undeclared environment, naming the declared ones", () => {
+    const { issues } = readConfig(CONFIG_FILE, { ...CREDENTIALS, ENV: "staging" }, ["BASE_URL"]);
+    expect(issues).toContainEqual(
+      expect.stringMatching(/^ENV: unknown environment staging; .* or set BASE_URL_STAGING \(declared: qa, prod\)$/));
+  });
+
+  test("reports a persona credential variable that is not set", () => {
+    const { issues } = readConfig(CONFIG_FILE, { USERNAME_QA: "tester", PASSWORD_QA: "secret-pw", ADMIN_USER: "boss" }, ["USERS"]);
+    expect(issues).toContain("ADMIN_PASS: missing environment variable (password of admin in qa)");
+  });
+
+  test("reports a config file that is not JSON", () => {
+    const { issues } = readConfig("{ not json", {}, ["CONCURRENCY"]);
+    expect(issues?.[0]).toMatch(/ai-agentic\.config\.json: .*JSON/);
+  });
+});
@@ -0,0 +1,10 @@
+import { askAI } from "../../../src/agents/aiClient.js";
+
+// Sends each prompt named on the command line through askAI, one after the
+// other, and prints the responses as JSON. AI client tests run it in a child
+// process, since providers, the cache and the logs are set up once per process.
+const responses: string[] = [];
+for (const prompt of process.argv.slice(2)) {
+  responses.push(await askAI(prompt));
+}
+console.log(JSON.stringify({ responses }));
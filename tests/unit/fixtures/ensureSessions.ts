@@ -0,0 +1,15 @@
+import { sessionManager } from "../../../src/utils/sessionManager.js";
+
+// Obtains a session for each role named on the command line, one after the
+// other, and prints each session, or the error that prevented it, as JSON.
+// Session tests run it in a child process, so the workspace and login flows
+// come from the environment they set.
+const results: Record<string, unknown> = {};
+for (const role of process.argv.slice(2)) {
+  try {
+    results[role] = await sessionManager.ensure(role);
+  } catch (error) {
+    results[role] = { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+console.log(JSON.stringify(results));
@@ -0,0 +1,15 @@
+import { ConfigError } from "../../../src/config.js";
+
+// Imports the server, which listens on PORT, and prints { imported: true } as
+// JSON, or the issues of the ConfigError importing it raised. Server tests run
+// it in a child process, since the configuration is resolved once per process.
+try {
+  await import("../../../src/server/server.js");
+  console.log(JSON.stringify({ imported: true }));
+} catch (error) {
+  if (!(error instanceof ConfigError)) {
+    throw error;
+  }
+  console.log(JSON.stringify({ error: error.message, issues: error.issues }));
+}
+process.exit(0);
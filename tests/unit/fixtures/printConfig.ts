@@ -0,0 +1,17 @@
+import { CONFIG, ConfigError, persona } from "../../../src/config.js";
+
+// Prints the settings named on the command line as JSON (persona:<name> for a
+// persona), or the issues of the ConfigError reading them raised. Config tests
+// run it in a child process, since the configuration is resolved once per process.
+try {
+  const keys = process.argv.slice(2);
+  const read = (key: string): unknown => key.startsWith("persona:")
+    ? persona(key.slice("persona:".length))
+    : CONFIG[key as keyof typeof CONFIG];
+  console.log(JSON.stringify({ settings: Object.fromEntries(keys.map(key => [key, read(key)])) }));
+} catch (error) {
+  if (!(error instanceof ConfigError)) {
+    throw error;
+  }
+  console.log(JSON.stringify({ error: error.message, issues: error.issues }));
+}
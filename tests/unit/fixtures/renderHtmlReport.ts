@@ -0,0 +1,9 @@
+import fs from "fs";
+import { renderHtmlReport } from "../../../src/orchestrator/htmlReport.js";
+
+// Renders the run statistics in the JSON file named first on the command line
+// as an HTML report for the output path named second, and prints it. Report
+// tests run it in a child process, so the workspace and audit log come from
+// the environment they set.
+const [statsPath, outputPath] = process.argv.slice(2);
+console.log(await renderHtmlReport(JSON.parse(fs.readFileSync(statsPath!, "utf-8")), outputPath!));
@@ -0,0 +1,46 @@
+import type { RunStats, ScenarioResult, ScenarioStatus } from "../../../src/orchestrator/orchestrator.js";
+
+// Builders of run statistics for the run history and report tests
+
+const USAGE = { promptTokens: 100, completionTokens: 50, totalTokens: 150, requests: 1, cost: 0.01 };
+
+/**
+ * A scenario that took one fresh attempt, unless the fields say otherwise
+ */
+export function scenarioResult(tag: string, status: ScenarioStatus, fields: Partial<ScenarioResult> = {}): ScenarioResult {
+  return {
+    tag,
+    description: tag,
+    labels: [],
+    priority: "medium",
+    suite: "prompts/regression.yaml",
+    prompt: tag,
+    status,
+    quarantined: false,
+    attempts: [{ attempt: 1, mode: "fresh", revision: 1, passed: status === "passed", duration: 100 }],
+    duration: 1000,
+    usage: USAGE,
+    models: ["gpt-4o"],
+    ...fields
+  };
+}
+
+/**
+ * Statistics of a run started `day` days into 2025
+ */
+export function runStats(day: number, scenarios: ScenarioResult[], env = "qa"): RunStats {
+  return {
+    runId: `run-${day}`,
+    env,
+    total: scenarios.length,
+    passed: scenarios.filter(s => s.status === "passed").length,
+    failed: scenarios.filter(s => s.status === "failed").map(s => s.tag),
+    timedOut: scenarios.filter(s => s.status === "timedOut").map(s => s.tag),
+    aborted: scenarios.filter(s => s.status === "aborted").map(s => s.tag),
+    quarantined: scenarios.filter(s => s.quarantined).map(s => s.tag),
+    startTime: new Date(Date.UTC(2025, 0, day)).toISOString(),
+    duration: 5000,
+    scenarios,
+    tests: { passed: 0, failed: 0, flaky: 0, skipped: 0 }
+  };
+}
@@ -0,0 +1,110 @@
+import { test, expect } from "@playwright/test";
+import { execFileSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+import { recordExchange } from "../../src/agents/auditLog.js";
+import { TestHistory } from "../../src/agents/testHistory.js";
+import type { RunStats } from "../../src/orchestrator/orchestrator.js";
+import { runStats, scenarioResult } from "./fixtures/runStats.js";
+
+const FIXTURE = path.join(process.cwd(), "tests", "unit", "fixtures", "renderHtmlReport.ts");
+const TSX = pathToFileURL(path.join(process.cwd(), "node_modules", "tsx", "dist", "loader.mjs")).href;
+
+const CONFIG_FILE = {
+  defaultEnvironment: "qa",
+  environments: { qa: { baseUrl: "https://qa.example.com" } },
+  ai: { provider: "mock" }
+};
+
+const FIRST_SPEC = [
+  "import { test } from '@playwright/test';",
+  "",
+  "test('search', async ({ page }) => {",
+  "  await page.goto('/');",
+  "});"
+].join("\n");
+const SECOND_SPEC = FIRST_SPEC.replace("await page.goto('/');", "await page.goto('/search?q=<MacBook>');");
+
+let root: string;
+
+test.beforeEach(async () => {
+  root = await fs.promises.mkdtemp(path.join(os.tmpdir(), "html-report-test-"));
+});
+
+test.afterEach(async () => {
+  await fs.promises.rm(root, { recursive: true, force: true });
+});
+
+/**
+ * Renders the report in a fresh process whose workspace and audit log are in the scratch root
+ */
+function render(stats: RunStats): string {
+  const statsPath = path.join(root, "stats.json");
+  fs.writeFileSync(statsPath, JSON.stringify(stats));
+  fs.writeFileSync(path.join(root, "ai-agentic.config.json"), JSON.stringify(CONFIG_FILE));
+  return execFileSync(process.execPath, ["--import", TSX, FIXTURE, statsPath, path.join(root, "runs", stats.runId, "report.html")], {
+    cwd: root,
+    env: {
+      PATH: process.env["PATH"] ?? "",
+      AI_AGENTIC_CONFIG: path.join(root, "ai-agentic.config.json"),
+      AI_WORKSPACE_ROOT: root,
+      AI_AUDIT_LOG: path.join(root, "ai-exchanges.jsonl"),
+      USERNAME_QA: "tester",
+      PASSWORD_QA: "secret-pw"
+    },
+    encoding: "utf-8"
+  });
+}
+
+test.describe("HTML report", () => {
+  test("escapes prompts, specs, errors and AI exchanges", async () => {
+    const history = new TestHistory(path.join(root, "tests", "generated", ".history"));
+    await history.addRevision("search", SECOND_SPEC, { prompt: "p", model: "gpt-4o" });
+    await recordExchange({
+      id: "1",
+      timestamp: "2025-01-01T00:00:00.000Z",
+      runId: "run-1",
+      scenario: "search",
+      attempt: 1,
+      provider: "mock",
+      model: "gpt-4o",
+      systemPromptVersion: "abc",
+      prompt: "Search for <script>alert(1)</script>",
+      completion: "test('a & b', ...)",
+      latencyMs: 5,
+      cached: false
+    }, path.join(root, "ai-exchanges.jsonl"));
+
+    const html = render(runStats(1, [scenarioResult("search", "failed", {
+      prompt: "Search for <MacBook> & \"friends\"",
+      attempts: [{ attempt: 1, mode: "fresh", revision: 1, passed: false, error: "Expected <b>1</b>", duration: 100 }]
+    })]));
+
+    expect(html).toContain("<pre>Search for &lt;MacBook&gt; &amp; &quot;friends&quot;</pre>");
+    expect(html).toContain(`<pre class="error">Expected &lt;b&gt;1&lt;/b&gt;</pre>`);
+    expect(html).toContain("await page.goto(&#39;/search?q=&lt;MacBook&gt;&#39;);");
+    expect(html).toContain("<pre>Search for &lt;script&gt;alert(1)&lt;/script&gt;</pre>");
+    expect(html).toContain("<pre>test(&#39;a &amp; b&#39;, ...)</pre>");
+    expect(html).not.toMatch(/<script>|<MacBook>|<b>1/);
+  });
+
+  test("shows what each attempt changed in the spec", async () => {
+    const history = new TestHistory(path.join(root, "tests", "generated", ".history"));
+    await history.addRevision("search", FIRST_SPEC, { prompt: "p", model: "gpt-4o" });
+    await history.addRevision("search", SECOND_SPEC, { prompt: "p", model: "gpt-4o" });
+
+    const html = render(runStats(1, [scenarioResult("search", "passed", {
+      attempts: [
+        { attempt: 1, mode: "fresh", revision: 1, passed: false, error: "Timeout", duration: 100 },
+        { attempt: 2, mode: "repair", revision: 2, passed: true, duration: 100 }
+      ]
+    })]));
+
+    expect(html).toContain("<summary>Changes since attempt 1</summary>");
+    expect(html).toContain(`<span class="del">-  await page.goto(&#39;/&#39;);</span>`);
+    expect(html).toContain(`<span class="add">+  await page.goto(&#39;/search?q=&lt;MacBook&gt;&#39;);</span>`);
+    expect(html).toContain(`<span class="same"> test(&#39;search&#39;, async ({ page }) =&gt; {</span>`);
+  });
+});
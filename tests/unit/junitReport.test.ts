@@ -0,0 +1,59 @@
+import { test, expect } from "@playwright/test";
+import { renderJUnitReport } from "../../src/orchestrator/junitReport.js";
+import type { ExecutionResult } from "../../src/utils/testExecutor.js";
+import { runStats, scenarioResult } from "./fixtures/runStats.js";
+
+const FAILED_RUN: ExecutionResult = {
+  status: "failed",
+  exitCode: 1,
+  duration: 900,
+  tests: [{
+    title: "search > finds <MacBook> & \"friends\"",
+    file: "tests/generated/search.spec.ts",
+    line: 3,
+    project: "",
+    status: "failed",
+    duration: 900,
+    retries: 0,
+    errors: [{ message: "expect(locator).toHaveText(\"<b>MacBook</b>\")\u0007 failed", stack: "Error: stack & trace" }],
+    attachments: []
+  }],
+  errors: [],
+  stats: { passed: 0, failed: 1, flaky: 0, skipped: 0 },
+  output: ""
+};
+
+test.describe("JUnit report", () => {
+  const report = renderJUnitReport(runStats(1, [
+    scenarioResult("login", "passed"),
+    scenarioResult("search", "failed", {
+      description: "Search for 'MacBook' & <verify> it appears",
+      attempts: [{ attempt: 1, mode: "fresh", revision: 1, passed: false, error: "Test failed", duration: 900, execution: FAILED_RUN }]
+    }),
+    scenarioResult("flaky_cart", "failed", { quarantined: true }),
+    scenarioResult("checkout", "aborted", { suite: "prompts/checkout.yaml", attempts: [] })
+  ]));
+
+  test("counts scenarios per suite file, with quarantined ones skipped", () => {
+    expect(report).toContain(`<testsuites name="ai-agentic qa" tests="4" failures="1" errors="1" skipped="1" time="5.000"`);
+    expect(report).toContain(`<testsuite name="prompts/regression.yaml" tests="3" failures="1" errors="0" skipped="1"`);
+    expect(report).toContain(`<testsuite name="prompts/checkout.yaml" tests="1" failures="0" errors="1" skipped="0"`);
+    expect(report).toContain(`<skipped message="Quarantined as flaky (failed)"/>`);
+    expect(report).toContain(`<error message="Scenario aborted before it finished" type="aborted"/>`);
+  });
+
+  test("escapes markup and drops characters XML does not allow", () => {
+    expect(report).toContain(
+      `<failure message="expect(locator).toHaveText(&quot;&lt;b&gt;MacBook&lt;/b&gt;&quot;) failed" type="failed">`
+    );
+    expect(report).toContain("Scenario: Search for &apos;MacBook&apos; &amp; &lt;verify&gt; it appears");
+    expect(report).not.toContain("\u0007");
+    expect(report).not.toMatch(/<verify>|<b>MacBook/);
+  });
+
+  test("describes the attempts of each scenario", () => {
+    expect(report).toContain("Spec: tests/generated/search.spec.ts");
+    expect(report).toContain("  1. fresh r1 failed in 0.900s: Test failed");
+    expect(report).toContain("AI usage: 150 tokens, est. $0.0100 (gpt-4o)");
+  });
+});
@@ -0,0 +1,105 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { CassetteError, CassetteProvider, fingerprintRequest } from "../../src/agents/cassette.js";
+import { MockProvider, ProviderError } from "../../src/agents/llmProvider.js";
+import type { CompletionRequest } from "../../src/agents/llmProvider.js";
+import { registerSecret } from "../../src/utils/redaction.js";
+
+function request(prompt: string, overrides: Partial<CompletionRequest> = {}): CompletionRequest {
+  return {
+    model: "gpt-4o",
+    messages: [{ role: "system", content: "You write tests." }, { role: "user", content: prompt }],
+    temperature: 0.2,
+    maxTokens: 500,
+    ...overrides
+  };
+}
+
+let tempDir: string;
+
+test.beforeEach(async () => {
+  tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "provider-test-"));
+});
+
+test.afterEach(async () => {
+  await fs.promises.rm(tempDir, { recursive: true, force: true });
+});
+
+test.describe("MockProvider", () => {
+  test("returns scripted responses in order, with estimated usage", async () => {
+    const provider = new MockProvider(["first", "second"]);
+
+    const first = await provider.complete(request("a"));
+    expect(first.content).toBe("first");
+    expect(first.usage?.completionTokens).toBe(2);
+    expect(first.usage?.totalTokens).toBe(first.usage!.promptTokens + 2);
+    expect((await provider.complete(request("b"))).content).toBe("second");
+  });
+
+  test("answers matching rules first, without consuming them", async () => {
+    const provider = new MockProvider([{ match: "step plan", response: "{}" }, "queued"]);
+
+    expect((await provider.complete(request("Create a STEP PLAN"))).content).toBe("{}");
+    expect((await provider.complete(request("Create a step plan"))).content).toBe("{}");
+    expect((await provider.complete(request("Something else"))).content).toBe("queued");
+  });
+
+  test("fails once the script is used up", async () => {
+    const provider = new MockProvider(["only"]);
+    await provider.complete(request("a"));
+    await expect(provider.complete(request("b"))).rejects.toThrow(ProviderError);
+  });
+
+  test("rejects an aborted request", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(new MockProvider(["x"]).complete(request("a", { signal: controller.signal }))).rejects.toThrow();
+  });
+
+  test("loads a script from a JSON file, and reports a malformed one", async () => {
+    const script = path.join(tempDir, "mock.json");
+    await fs.promises.writeFile(script, JSON.stringify(["from file"]));
+    expect((await MockProvider.fromFile(script).complete(request("a"))).content).toBe("from file");
+
+    await fs.promises.writeFile(script, JSON.stringify({ not: "an array" }));
+    expect(() => MockProvider.fromFile(script)).toThrow(ProviderError);
+  });
+});
+
+test.describe("CassetteProvider", () => {
+  test("fingerprints every field that changes the completion", () => {
+    const base = fingerprintRequest(request("a"));
+    expect(fingerprintRequest(request("a"))).toBe(base);
+    expect(fingerprintRequest(request("b"))).not.toBe(base);
+    expect(fingerprintRequest(request("a", { model: "gpt-4" }))).not.toBe(base);
+    expect(fingerprintRequest(request("a", { temperature: 0.7 }))).not.toBe(base);
+    // The signal only cancels the call
+    expect(fingerprintRequest(request("a", { signal: new AbortController().signal }))).toBe(base);
+  });
+
+  test("replays what was recorded, without the real provider", async () => {
+    const recorder = new CassetteProvider(new MockProvider(["recorded answer"]), "record", tempDir);
+    expect((await recorder.complete(request("a"))).content).toBe("recorded answer");
+
+    const player = new CassetteProvider(undefined, "replay", tempDir);
+    expect((await player.complete(request("a"))).content).toBe("recorded answer");
+    await expect(player.complete(request("never recorded"))).rejects.toThrow(CassetteError);
+  });
+
+  test("records requests with secrets masked", async () => {
+    registerSecret("cassette-secret-42", "PASSWORD");
+    const recorder = new CassetteProvider(new MockProvider(["ok"]), "record", tempDir);
+    await recorder.complete(request("Log in with cassette-secret-42"));
+
+    const [entry] = await fs.promises.readdir(tempDir);
+    const recorded = await fs.promises.readFile(path.join(tempDir, entry!), "utf-8");
+    expect(recorded).not.toContain("cassette-secret-42");
+    expect(recorded).toContain("Log in with ***");
+  });
+
+  test("needs a real provider unless it replays", () => {
+    expect(() => new CassetteProvider(undefined, "record", tempDir)).toThrow(CassetteError);
+  });
+});
@@ -0,0 +1,45 @@
+import { test, expect } from "@playwright/test";
+import { findSecretLiterals, redactSecrets, redactValue, registerSecret, REDACTED } from "../../src/utils/redaction.js";
+
+test.describe("redaction", () => {
+  test.beforeAll(() => {
+    registerSecret("hunter2-password", "PASSWORD");
+    registerSecret("hunter2", "SHORTER");
+    registerSecret("alice", "USERNAME", "literal");
+    registerSecret("ab", "TOO_SHORT");
+  });
+
+  test("masks registered secrets anywhere in a text, longest first", () => {
+    expect(redactSecrets("password is hunter2-password, or hunter2")).toBe(`password is ${REDACTED}, or ${REDACTED}`);
+  });
+
+  test("leaves literal-only and very short values alone", () => {
+    expect(redactSecrets("alice opens /alice/cart with ab")).toBe("alice opens /alice/cart with ab");
+  });
+
+  test("masks secret-looking environment variables", () => {
+    process.env["TEST_API_KEY"] = "sk-from-the-environment";
+    try {
+      expect(redactSecrets("key sk-from-the-environment")).toBe(`key ${REDACTED}`);
+    } finally {
+      delete process.env["TEST_API_KEY"];
+    }
+  });
+
+  test("deep-copies values with every string masked", () => {
+    const value = { prompt: "use hunter2", nested: [{ text: "hunter2-password" }], count: 2, error: new Error("bad hunter2") };
+    expect(redactValue(value)).toEqual({
+      prompt: `use ${REDACTED}`,
+      nested: [{ text: REDACTED }],
+      count: 2,
+      error: `bad ${REDACTED}`
+    });
+    expect(value.prompt).toBe("use hunter2");
+  });
+
+  test("finds secrets baked into code, by label", () => {
+    expect(findSecretLiterals("await page.fill('#user', 'alice');")).toEqual(["USERNAME"]);
+    expect(findSecretLiterals("await page.goto('/alice/orders');")).toEqual([]);
+    expect(findSecretLiterals("const p = `hunter2-password`;")).toEqual(["PASSWORD", "SHORTER"]);
+  });
+});
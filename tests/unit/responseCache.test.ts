@@ -0,0 +1,56 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ResponseCache } from "../../src/agents/responseCache.js";
+import type { CacheKeyInput } from "../../src/agents/responseCache.js";
+
+const INPUT: CacheKeyInput = { prompt: "Log in", systemPrompt: "You write tests.", model: "gpt-4o", temperature: 0.2 };
+
+let cacheDir: string;
+
+test.beforeEach(async () => {
+  cacheDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "cache-test-"));
+});
+
+test.afterEach(async () => {
+  await fs.promises.rm(cacheDir, { recursive: true, force: true });
+});
+
+test.describe("ResponseCache", () => {
+  test("keys a request by model, temperature, system prompt and prompt", () => {
+    const key = ResponseCache.key(INPUT);
+    expect(ResponseCache.key({ ...INPUT })).toBe(key);
+    expect(ResponseCache.key({ ...INPUT, prompt: "Log out" })).not.toBe(key);
+    expect(ResponseCache.key({ ...INPUT, systemPrompt: "You write better tests." })).not.toBe(key);
+    expect(ResponseCache.key({ ...INPUT, model: "gpt-4o-mini" })).not.toBe(key);
+    expect(ResponseCache.key({ ...INPUT, temperature: 0 })).not.toBe(key);
+  });
+
+  test("serves stored completions and counts hits and misses", async () => {
+    const cache = new ResponseCache(cacheDir, 60_000);
+    const key = ResponseCache.key(INPUT);
+
+    expect(await cache.get(key)).toBeUndefined();
+    await cache.set(key, INPUT, "test('login', ...)");
+    expect(await cache.get(key)).toBe("test('login', ...)");
+    cache.recordBypass();
+
+    expect(cache.getStats()).toEqual({ hits: 1, misses: 2 });
+    expect(fs.existsSync(path.join(cacheDir, `${key}.json`))).toBe(true);
+  });
+
+  test("treats expired and unreadable entries as misses", async () => {
+    const key = ResponseCache.key(INPUT);
+    await new ResponseCache(cacheDir, 60_000).set(key, INPUT, "content");
+    const entryPath = path.join(cacheDir, `${key}.json`);
+    const entry = JSON.parse(await fs.promises.readFile(entryPath, "utf-8"));
+    await fs.promises.writeFile(entryPath, JSON.stringify({ ...entry, createdAt: new Date(Date.now() - 120_000).toISOString() }));
+
+    const cache = new ResponseCache(cacheDir, 60_000);
+    expect(await cache.get(key)).toBeUndefined();
+    await fs.promises.writeFile(entryPath, "{ not json");
+    expect(await cache.get(key)).toBeUndefined();
+    expect(cache.getStats()).toEqual({ hits: 0, misses: 2 });
+  });
+});
@@ -0,0 +1,112 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { RunHistory, RunHistoryError } from "../../src/orchestrator/runHistory.js";
+import type { ScenarioStatus } from "../../src/orchestrator/orchestrator.js";
+import { runStats, scenarioResult } from "./fixtures/runStats.js";
+
+let filePath: string;
+
+test.beforeEach(async () => {
+  filePath = path.join(await fs.promises.mkdtemp(path.join(os.tmpdir(), "run-history-test-")), "history.jsonl");
+});
+
+test.afterEach(async () => {
+  await fs.promises.rm(path.dirname(filePath), { recursive: true, force: true });
+});
+
+test.describe("run history", () => {
+  test("appends runs as JSON lines and filters them by tag, environment, date and count", async () => {
+    const history = new RunHistory(filePath);
+    const record = await history.record(runStats(1, [
+      scenarioResult("login", "passed"),
+      scenarioResult("search", "failed", {
+        attempts: [
+          { attempt: 1, mode: "fresh", revision: 1, passed: false, duration: 100 },
+          { attempt: 2, mode: "repair", revision: 2, passed: false, error: "Timeout", duration: 100 }
+        ]
+      })
+    ]));
+    await history.record(runStats(2, [scenarioResult("login", "passed")], "uat"));
+    await history.record(runStats(3, [scenarioResult("search", "passed")]));
+
+    expect(record.scenarios[1]).toMatchObject({ tag: "search", attempts: 2, generations: 2, revision: 2, error: "Timeout", tokens: 150 });
+    expect((await fs.promises.readFile(filePath, "utf-8")).trim().split("\n")).toHaveLength(3);
+
+    const ids = async (filter: Parameters<RunHistory["runs"]>[0]): Promise<string[]> =>
+      (await history.runs(filter)).map(r => r.runId);
+    expect(await ids({ tag: "login" })).toEqual(["run-1", "run-2"]);
+    expect(await ids({ env: "qa" })).toEqual(["run-1", "run-3"]);
+    expect(await ids({ since: "2025-01-02" })).toEqual(["run-2", "run-3"]);
+    expect(await ids({ last: 1 })).toEqual(["run-3"]);
+    expect((await history.runs({ tag: "login" }))[0]!.scenarios.map(s => s.tag)).toEqual(["login"]);
+    await expect(history.runs({ since: "yesterday-ish" })).rejects.toThrow(RunHistoryError);
+  });
+
+  test("reports pass rates with their trend, leaving aborted outcomes out", async () => {
+    const history = new RunHistory(filePath);
+    const statuses: ScenarioStatus[] = ["failed", "failed", "aborted", "passed", "passed"];
+    for (const [index, status] of statuses.entries()) {
+      await history.record(runStats(index + 1, [scenarioResult("search", status), scenarioResult("login", "passed")]));
+    }
+
+    expect(await history.passRates()).toEqual([
+      { tag: "search", runs: 4, passed: 2, passRate: 0.5, trend: 1, recent: ["failed", "failed", "passed", "passed"] },
+      { tag: "login", runs: 5, passed: 5, passRate: 1, trend: 0, recent: ["passed", "passed", "passed", "passed", "passed"] }
+    ]);
+  });
+
+  test("ranks the slowest and most regenerated scenarios", async () => {
+    const history = new RunHistory(filePath);
+    const locked = [{ attempt: 1, mode: "locked" as const, revision: 3, passed: true, duration: 100 }];
+    await history.record(runStats(1, [
+      scenarioResult("login", "passed", { duration: 1000 }),
+      scenarioResult("search", "passed", { duration: 4000 })
+    ]));
+    await history.record(runStats(2, [
+      scenarioResult("login", "passed", { duration: 3000, attempts: locked }),
+      scenarioResult("search", "passed", { duration: 2000 })
+    ]));
+
+    expect(await history.slowest()).toEqual([
+      { tag: "search", runs: 2, averageDuration: 3000, maxDuration: 4000, lastDuration: 2000 },
+      { tag: "login", runs: 2, averageDuration: 2000, maxDuration: 3000, lastDuration: 3000 }
+    ]);
+    expect(await history.slowest({}, 1)).toHaveLength(1);
+    expect(await history.mostRegenerated()).toEqual([
+      { tag: "search", runs: 2, generations: 2, perRun: 1, tokens: 300, lastRevision: 1 },
+      { tag: "login", runs: 2, generations: 1, perRun: 0.5, tokens: 300, lastRevision: 3 }
+    ]);
+  });
+
+  test("tells since when scenarios are failing and when they last passed", async () => {
+    const history = new RunHistory(filePath);
+    await history.record(runStats(1, [scenarioResult("search", "passed"), scenarioResult("checkout", "failed")]));
+    await history.record(runStats(2, [scenarioResult("search", "failed"), scenarioResult("checkout", "failed")]));
+    await history.record(runStats(3, [
+      scenarioResult("search", "timedOut", {
+        attempts: [{ attempt: 1, mode: "fresh", passed: false, error: "Scenario timed out", duration: 1 }]
+      }),
+      scenarioResult("checkout", "failed"),
+      scenarioResult("login", "passed")
+    ]));
+
+    expect(await history.failingSince()).toEqual([
+      { tag: "checkout", since: { runId: "run-1", startTime: "2025-01-01T00:00:00.000Z" }, failures: 3 },
+      {
+        tag: "search",
+        since: { runId: "run-2", startTime: "2025-01-02T00:00:00.000Z" },
+        failures: 2,
+        lastPassed: { runId: "run-1", startTime: "2025-01-01T00:00:00.000Z" },
+        lastError: "Scenario timed out"
+      }
+    ]);
+  });
+
+  test("reads a missing history as empty and rejects a corrupt one", async () => {
+    expect(await new RunHistory(filePath).runs()).toEqual([]);
+    await fs.promises.writeFile(filePath, "{}\nnot json\n");
+    await expect(new RunHistory(filePath).runs()).rejects.toThrow("Corrupt run history");
+  });
+});
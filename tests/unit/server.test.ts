@@ -0,0 +1,47 @@
+import { test, expect } from "@playwright/test";
+import { execFileSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+
+const FIXTURE = path.join(process.cwd(), "tests", "unit", "fixtures", "importServer.ts");
+const TSX = pathToFileURL(path.join(process.cwd(), "node_modules", "tsx", "dist", "loader.mjs")).href;
+
+/**
+ * Imports the server in a fresh process, inside a scratch directory so its logs
+ * stay out of the project
+ */
+function importServer(file: unknown): { imported?: boolean; error?: string; issues?: string[] } {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "server-test-"));
+  try {
+    const configPath = path.join(dir, "ai-agentic.config.json");
+    fs.writeFileSync(configPath, JSON.stringify(file));
+    const output = execFileSync(process.execPath, ["--import", TSX, FIXTURE], {
+      cwd: dir,
+      env: {
+        PATH: process.env["PATH"] ?? "",
+        AI_AGENTIC_CONFIG: configPath,
+        PORT: "0",
+        USERNAME_QA: "tester",
+        PASSWORD_QA: "secret-pw"
+      },
+      encoding: "utf-8",
+      timeout: 60000
+    });
+    return JSON.parse(output.trim().split("\n").pop()!);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+test.describe("server", () => {
+  test("imports with an invalid config file, leaving the error to the first request", () => {
+    const result = importServer({
+      defaultEnvironment: "qa",
+      environments: { qa: { baseurl: "https://qa.example.com" } },
+      ai: { provider: "mock" }
+    });
+    expect(result).toEqual({ imported: true });
+  });
+});
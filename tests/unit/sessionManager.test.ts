@@ -0,0 +1,86 @@
+import { test, expect } from "@playwright/test";
+import { execFileSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+
+const FIXTURE = path.join(process.cwd(), "tests", "unit", "fixtures", "ensureSessions.ts");
+const TSX = pathToFileURL(path.join(process.cwd(), "node_modules", "tsx", "dist", "loader.mjs")).href;
+
+const CONFIG_FILE = {
+  defaultEnvironment: "qa",
+  environments: { qa: { baseUrl: "https://qa.example.com" } },
+  ai: { provider: "mock" },
+  sessions: { flowsDir: "logins", ttl: 3600 }
+};
+
+const HOUR = 60 * 60 * 1000;
+
+let root: string;
+
+test.beforeEach(async () => {
+  root = await fs.promises.mkdtemp(path.join(os.tmpdir(), "session-test-"));
+  await fs.promises.writeFile(path.join(root, "ai-agentic.config.json"), JSON.stringify(CONFIG_FILE));
+  await fs.promises.mkdir(path.join(root, ".auth"));
+});
+
+test.afterEach(async () => {
+  await fs.promises.rm(root, { recursive: true, force: true });
+});
+
+/**
+ * Saves a login of a role in qa, as written `age` ms ago
+ */
+async function saveLogin(role: string, cookies: { expires: number }[], age = 0): Promise<void> {
+  const filePath = path.join(root, ".auth", `qa-${role}.json`);
+  await fs.promises.writeFile(filePath, JSON.stringify({ cookies, origins: [] }));
+  const savedAt = new Date(Date.now() - age);
+  await fs.promises.utimes(filePath, savedAt, savedAt);
+}
+
+/**
+ * Obtains sessions in a fresh process whose workspace is the scratch root
+ */
+function ensure(...roles: string[]): Record<string, { refreshed?: boolean; storageStatePath?: string; error?: string }> {
+  const output = execFileSync(process.execPath, ["--import", TSX, FIXTURE, ...roles], {
+    cwd: root,
+    env: {
+      PATH: process.env["PATH"] ?? "",
+      AI_AGENTIC_CONFIG: path.join(root, "ai-agentic.config.json"),
+      AI_WORKSPACE_ROOT: root,
+      USERNAME_QA: "tester",
+      PASSWORD_QA: "secret-pw"
+    },
+    encoding: "utf-8"
+  });
+  return JSON.parse(output.trim().split("\n").pop()!);
+}
+
+test.describe("sessions", () => {
+  test("reuse a saved login until the TTL runs out or a cookie expires", async () => {
+    const inAnHour = Date.now() / 1000 + 3600;
+    await saveLogin("fresh", [{ expires: -1 }, { expires: inAnHour }], HOUR / 2);
+    await saveLogin("stale", [{ expires: -1 }], 2 * HOUR);
+    await saveLogin("expired", [{ expires: Date.now() / 1000 - 60 }]);
+
+    const sessions = ensure("fresh", "stale", "expired");
+    expect(sessions["fresh"]).toMatchObject({ refreshed: false, storageStatePath: path.join(root, ".auth", "qa-fresh.json") });
+    // Without a login flow, a role that needs to log in again cannot
+    expect(sessions["stale"]).toEqual({ error: "No login flow for role stale" });
+    expect(sessions["expired"]).toEqual({ error: "No login flow for role expired" });
+  });
+
+  test("read a hand-written login flow and reject one that breaks the schema", async () => {
+    await fs.promises.mkdir(path.join(root, "logins"));
+    await fs.promises.writeFile(path.join(root, "logins", "admin.plan.json"), JSON.stringify({ title: "", steps: [] }));
+
+    expect(ensure("admin")["admin"]).toEqual({
+      error: `Login flow ${path.join("logins", "admin.plan.json")} does not match the step plan schema`
+    });
+  });
+
+  test("hold roles to the rules of file names", () => {
+    expect(ensure("../admin")).toEqual({ "../admin": { error: "Invalid role: ../admin" } });
+  });
+});
@@ -0,0 +1,100 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { checkStability, describeStability } from "../../src/utils/flakinessGate.js";
+import type { StabilitySummary } from "../../src/utils/flakinessGate.js";
+import { Quarantine } from "../../src/utils/quarantine.js";
+
+// Passes on every other repetition, and on every other run by counting runs in a file
+const FLAKY_SPEC = `import { test, expect } from "@playwright/test";
+import fs from "fs";
+
+test("sometimes", () => {
+  const counter = process.env["FLAKY_COUNTER"];
+  if (counter) {
+    const runs = fs.existsSync(counter) ? Number(fs.readFileSync(counter, "utf-8")) + 1 : 1;
+    fs.writeFileSync(counter, String(runs));
+    expect(runs % 2).toBe(1);
+  } else {
+    expect(test.info().repeatEachIndex % 2).toBe(0);
+  }
+});
+`;
+
+const FLAKY: StabilitySummary = { verdict: "flaky", runs: 4, passed: 3, passRate: 0.75, repeatEach: false, duration: 10 };
+
+test.describe("stability gate", () => {
+  let dir: string;
+
+  test.beforeEach(async () => {
+    // Playwright only finds specs inside the project and outside gitignored directories
+    dir = await fs.promises.mkdtemp(path.join(process.cwd(), "tests", "unit", "stability-"));
+    await fs.promises.writeFile(path.join(dir, "flaky.spec.ts"), FLAKY_SPEC, "utf-8");
+  });
+
+  test.afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+    delete process.env["FLAKY_COUNTER"];
+  });
+
+  test("is off unless runs are requested", async () => {
+    expect(await checkStability(path.join(dir, "flaky.spec.ts"), {}, () => ({}))).toBeUndefined();
+  });
+
+  test("re-runs a spec in separate processes and keeps the last failure", async () => {
+    test.setTimeout(180_000);
+    process.env["FLAKY_COUNTER"] = path.join(dir, "runs.txt");
+    const runs: number[] = [];
+    const result = await checkStability(path.join(dir, "flaky.spec.ts"), { runs: 2 }, run => {
+      runs.push(run);
+      return { timeout: 60_000, reporter: "", outputDir: path.join(dir, `output-${run}`) };
+    });
+
+    expect(runs).toEqual([1, 2]);
+    expect(result).toMatchObject({ verdict: "flaky", runs: 2, passed: 1, passRate: 0.5, repeatEach: false });
+    expect(result?.lastFailure?.status).toBe("failed");
+  });
+
+  test("counts each repetition of a --repeat-each run as a sample", async () => {
+    test.setTimeout(180_000);
+    const result = await checkStability(path.join(dir, "flaky.spec.ts"), { runs: 4, repeatEach: true }, () => ({
+      timeout: 30_000,
+      reporter: "",
+      outputDir: path.join(dir, "output")
+    }));
+
+    expect(result).toMatchObject({ verdict: "flaky", runs: 4, passed: 2, repeatEach: true });
+    expect(describeStability(result!)).toBe("flaky, 2/4 runs passed (50%)");
+  });
+});
+
+test.describe("quarantine", () => {
+  let filePath: string;
+
+  test.beforeEach(async () => {
+    filePath = path.join(await fs.promises.mkdtemp(path.join(os.tmpdir(), "quarantine-test-")), "quarantine.json");
+  });
+
+  test.afterEach(async () => {
+    await fs.promises.rm(path.dirname(filePath), { recursive: true, force: true });
+  });
+
+  test("adds, updates and releases scenarios, keeping when they were first quarantined", async () => {
+    const quarantine = new Quarantine(filePath);
+    const first = await quarantine.add("search", FLAKY, 2);
+    const updated = await quarantine.add("search", { ...FLAKY, passed: 1, passRate: 0.25 }, 3);
+
+    expect(updated).toMatchObject({ tag: "search", since: first.since, revision: 3, passRate: 0.25, runs: 4, reason: "1/4 stability runs passed" });
+    expect(await quarantine.remove("search")).toBe(true);
+    expect(await quarantine.remove("search")).toBe(false);
+    expect(await quarantine.list()).toEqual([]);
+  });
+
+  test("keeps every entry when scenarios finish at the same time", async () => {
+    const quarantine = new Quarantine(filePath);
+    await Promise.all(["login", "checkout", "search"].map(tag => quarantine.add(tag, FLAKY)));
+    expect((await quarantine.list()).map(entry => entry.tag)).toEqual(["checkout", "login", "search"]);
+    expect(await new Quarantine(filePath).tags()).toEqual(new Set(["checkout", "login", "search"]));
+  });
+});
@@ -0,0 +1,153 @@
+import { test, expect } from "@playwright/test";
+import path from "path";
+import { formatDiagnostics, typeCheckSpec } from "../../src/agents/specCompiler.js";
+import { buildPlanPrompt, parseStepPlan, renderPlanSpec, StepPlanError, validateStepPlan } from "../../src/agents/stepPlan.js";
+import type { RenderOptions, StepPlan } from "../../src/agents/stepPlan.js";
+
+const SPEC = path.join(process.cwd(), "tests", "generated", "plan_test.spec.ts");
+
+const OPTIONS: RenderOptions = {
+  safeActionsImport: "../../src/utils/safeActions.js",
+  configImport: "../../src/config.js",
+  planFileName: "plan_test.plan.json"
+};
+
+const PLAN: StepPlan = {
+  title: "Search finds a laptop",
+  description: "Searching from the home page */ lists matching products",
+  steps: [
+    { action: "navigate", url: "CONFIG.BASE_URL" },
+    { action: "fill", target: "#search", value: "it's a laptop" },
+    { action: "press", target: "#search", key: "Enter" },
+    { action: "select", target: "#sort", value: "price" },
+    { action: "check", target: "#in-stock" },
+    { action: "hover", target: "text=Laptop" },
+    { action: "waitFor", target: ".results" },
+    { action: "click", target: "role=link[name='Laptop']", description: "Open the first result" },
+    { action: "assert", assertion: "visible", target: "h1" },
+    { action: "assert", assertion: "text", target: "h1", expected: "Laptop" },
+    { action: "assert", assertion: "count", target: ".result", expected: 3 },
+    { action: "assert", assertion: "url", expected: "/products/" },
+    { action: "assert", assertion: "title", expected: "Laptop" }
+  ]
+};
+
+test.describe("step plans", () => {
+  test("validates every step against the schema", () => {
+    expect(validateStepPlan(PLAN)).toEqual([]);
+    expect(validateStepPlan([])).toEqual(["plan: must be an object"]);
+    expect(validateStepPlan({ title: "", steps: [] })).toEqual(["title: must be a non-empty string", "steps: must be a non-empty array"]);
+    expect(validateStepPlan({
+      title: "t",
+      steps: [
+        { action: "jump" },
+        { action: "fill", target: "#a" },
+        { action: "assert", assertion: "count", target: "#a", expected: "3" },
+        { action: "assert", assertion: "glows" }
+      ]
+    })).toEqual([
+      "steps[0].action: must be one of navigate, fill, click, press, select, check, hover, waitFor, assert",
+      "steps[1].value: must be a string",
+      "steps[2].expected: must be a number for a count assertion",
+      "steps[3].assertion: must be one of visible, hidden, text, containsText, value, count, url, title"
+    ]);
+  });
+
+  test("parses the JSON object out of a completion", () => {
+    const plan = parseStepPlan("Here is the plan:\n```json\n" + JSON.stringify(PLAN) + "\n```");
+    expect(plan).toEqual(PLAN);
+    expect(() => parseStepPlan("no plan")).toThrow(StepPlanError);
+    expect(() => parseStepPlan("{ title: }")).toThrow("Step plan is not valid JSON");
+    expect(() => parseStepPlan(`{ "title": "t" }`)).toThrow("Step plan does not match the schema");
+  });
+
+  test("renders references as code and everything else as literals", () => {
+    const spec = renderPlanSpec(PLAN, OPTIONS);
+
+    expect(spec).toContain("import { clickSafe, executeSafe, expectSafe, fillSafe, orThrow } from '../../src/utils/safeActions.js';");
+    expect(spec).toContain("import { CONFIG } from '../../src/config.js';");
+    expect(spec).toContain("  await page.goto(CONFIG.BASE_URL);");
+    expect(spec).toContain("  await orThrow(fillSafe(page, '#search', 'it\\'s a laptop'));");
+    expect(spec).toContain("  // 8. Open the first result");
+    expect(spec).toContain(" * Searching from the home page * / lists matching products");
+    expect(spec).toContain("  await orThrow(expectSafe(page.locator('.result'), element => expect(element).toHaveCount(3)));");
+    expect(spec).toContain("  await expect(page).toHaveURL(url => url.href.includes('/products/'));");
+  });
+
+  test("renders persona references through the typed accessor", () => {
+    const spec = renderPlanSpec({
+      title: "t",
+      steps: [
+        { action: "navigate", url: "CONFIG.BASE_URL" },
+        { action: "fill", target: "#password", value: "CONFIG.USERS.admin.password" }
+      ]
+    }, OPTIONS);
+    expect(spec).toContain("import { CONFIG, persona } from '../../src/config.js';");
+    expect(spec).toContain("  await orThrow(fillSafe(page, '#password', persona('admin').password));");
+
+    const literalOnly = renderPlanSpec({ title: "t", steps: [{ action: "fill", target: "#a", value: "CONFIG.USERS.admin.pin" }] }, OPTIONS);
+    expect(literalOnly).toContain("fillSafe(page, '#a', 'CONFIG.USERS.admin.pin')");
+  });
+
+  test("renders login state and the request guard only when asked", () => {
+    const plain = renderPlanSpec({ title: "t", steps: [{ action: "navigate", url: "/" }] }, OPTIONS);
+    expect(plain).not.toContain("CONFIG");
+    expect(plain).not.toContain("guardRequests");
+
+    const spec = renderPlanSpec({ title: "t", steps: [{ action: "navigate", url: "/" }] }, {
+      ...OPTIONS,
+      session: "admin",
+      sessionStateImport: "../../src/utils/sessionState.js",
+      requestGuardImport: "../../src/utils/requestGuard.js"
+    });
+    expect(spec).toContain("test.use({ storageState: storageStatePath('admin') });");
+    expect(spec).toContain("  await guardRequests(context);");
+  });
+
+  test("renders specs that compile under the project tsconfig", () => {
+    const specs = [
+      renderPlanSpec(PLAN, OPTIONS),
+      renderPlanSpec(
+        {
+          title: "Log in",
+          steps: [
+            { action: "navigate", url: "CONFIG.BASE_URL" },
+            { action: "fill", target: "#user", value: "CONFIG.USERNAME" },
+            { action: "fill", target: "#password", value: "CONFIG.PASSWORD" },
+            { action: "click", target: "button[type=submit]" },
+            { action: "assert", assertion: "containsText", target: ".greeting", expected: "CONFIG.USERNAME" }
+          ]
+        },
+        {
+          ...OPTIONS,
+          session: "admin",
+          sessionStateImport: "../../src/utils/sessionState.js",
+          requestGuardImport: "../../src/utils/requestGuard.js",
+          saveStorageState: ".auth/admin.json"
+        }
+      ),
+      renderPlanSpec(
+        {
+          title: "Log in as a persona",
+          steps: [
+            { action: "navigate", url: "CONFIG.BASE_URL" },
+            { action: "fill", target: "#user", value: "CONFIG.USERS.admin.username" },
+            { action: "fill", target: "#password", value: "CONFIG.USERS.admin.password" },
+            { action: "assert", assertion: "containsText", target: ".greeting", expected: "CONFIG.USERS.admin.username" }
+          ]
+        },
+        OPTIONS
+      )
+    ];
+
+    for (const spec of specs) {
+      expect(formatDiagnostics(typeCheckSpec(SPEC, spec))).toEqual([]);
+    }
+  });
+
+  test("tells the model about logins and guarded environments only when they apply", () => {
+    expect(buildPlanPrompt("Search")).not.toContain("already logged in");
+    expect(buildPlanPrompt("Search", "admin")).toContain("already logged in as the admin user");
+    expect(buildPlanPrompt("Search", undefined, true)).toContain("never check out, pay, delete or remove anything");
+  });
+});
@@ -0,0 +1,146 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import path from "path";
+import { validateStepPlan } from "../../src/agents/stepPlan.js";
+import { loadSuites, parseSuite, selectScenarios } from "../../src/orchestrator/suite.js";
+import type { Scenario } from "../../src/orchestrator/suite.js";
+import { matchesTagExpression, parseTagExpression, TagExpressionError } from "../../src/orchestrator/tagExpression.js";
+
+test.describe("tag expressions", () => {
+  const target = { tag: "login_search_valid", labels: ["@smoke", "@Search"] };
+  const matches = (source: string): boolean => matchesTagExpression(parseTagExpression(source), target);
+
+  test("match labels regardless of case, and tags exactly", () => {
+    expect(matches("@search")).toBe(true);
+    expect(matches("@slow")).toBe(false);
+    expect(matches("login_search_valid")).toBe(true);
+    expect(matches("login_search")).toBe(false);
+  });
+
+  test("bind not tighter than and, and and tighter than or", () => {
+    expect(matches("@slow or @smoke and not @search")).toBe(false);
+    expect(matches("(@slow or @smoke) and not @wip")).toBe(true);
+    expect(matches("not @smoke or @search")).toBe(true);
+    expect(parseTagExpression("@a or @b and @c")).toEqual({
+      kind: "or",
+      left: { kind: "label", label: "@a" },
+      right: { kind: "and", left: { kind: "label", label: "@b" }, right: { kind: "label", label: "@c" } }
+    });
+  });
+
+  test("report where a malformed expression goes wrong", () => {
+    expect(() => parseTagExpression("")).toThrow(TagExpressionError);
+    expect(() => parseTagExpression("@a and")).toThrow(/Expected a label, tag, 'not' or '\(' at position 7/);
+    expect(() => parseTagExpression("(@a or @b")).toThrow(/Expected '\)'/);
+    expect(() => parseTagExpression("@a @b")).toThrow(/Unexpected '@b' at position 4/);
+  });
+});
+
+test.describe("suite parser", () => {
+  test("merges defaults into each scenario", () => {
+    const { scenarios, issues } = parseSuite(`
+name: checkout
+defaults:
+  labels: ["@checkout"]
+  owner: shop-team
+  prodSafe: true
+scenarios:
+  - tag: guest
+    description: Guest checkout
+    prompt: Check out as a guest
+    labels: [smoke]
+    priority: high
+    environments: [qa]
+  - tag: user
+    description: User checkout
+    prompt: Check out as a user
+    owner: accounts
+    prodSafe: false
+`, "checkout.yaml");
+
+    expect(issues).toEqual([]);
+    expect(scenarios.map(({ source, ...scenario }) => scenario)).toEqual([
+      {
+        tag: "guest", description: "Guest checkout", prompt: "Check out as a guest", labels: ["@checkout", "@smoke"],
+        priority: "high", owner: "shop-team", environments: ["qa"], prodSafe: true
+      },
+      {
+        tag: "user", description: "User checkout", prompt: "Check out as a user", labels: ["@checkout"],
+        priority: "medium", owner: "accounts", prodSafe: false
+      }
+    ]);
+    expect(scenarios[1]!.source).toEqual({ file: "checkout.yaml", line: 14, column: 5 });
+  });
+
+  test("accepts the legacy list format", () => {
+    const { scenarios } = parseSuite(`[{ "tag": "a", "description": "A", "prompt": "Do A" }]`, "legacy.json");
+    expect(scenarios.map(scenario => scenario.tag)).toEqual(["a"]);
+  });
+
+  test("reports every schema problem with its location", () => {
+    const { scenarios, issues } = parseSuite(`
+scenarios:
+  - tag: bad tag
+    description: Bad
+    prompt: Bad
+    priority: urgent
+  - description: No tag
+    prompt: Missing tag
+    timeout: -1
+    colour: red
+`, "bad.yaml");
+
+    expect(scenarios).toEqual([]);
+    expect(issues.map(issue => `${issue.line}:${issue.column} ${issue.path}: ${issue.message}`)).toEqual([
+      "3:5 scenarios[0].tag: use only letters, numbers, underscores, and hyphens",
+      "6:5 scenarios[0].priority: must be one of critical, high, medium, low",
+      expect.stringMatching(/^10:5 scenarios\[1\]\.colour: unknown field/),
+      "7:5 scenarios[1]: missing tag",
+      "9:5 scenarios[1].timeout: must be a positive integer"
+    ]);
+  });
+
+  test("reports YAML syntax errors", () => {
+    const { issues } = parseSuite("scenarios: [\n", "broken.yaml");
+    expect(issues).toHaveLength(1);
+    expect(issues[0]!.file).toBe("broken.yaml");
+  });
+});
+
+test.describe("selectScenarios", () => {
+  const scenario = (tag: string, fields: Partial<Scenario> = {}): Scenario => ({
+    tag, description: tag, prompt: tag, labels: [], priority: "medium", source: { file: "s.yaml", line: 1, column: 1 }, ...fields
+  });
+  const scenarios = [
+    scenario("low", { priority: "low", prodSafe: true }),
+    scenario("qa_only", { environments: ["qa"] }),
+    scenario("needs_flag", { features: ["new-search"], labels: ["@search"] }),
+    scenario("critical", { priority: "critical", labels: ["@search"], prodSafe: true })
+  ];
+  const tags = (selected: Scenario[]): string[] => selected.map(s => s.tag);
+
+  test("orders by priority and filters by expression", () => {
+    expect(tags(selectScenarios(scenarios, undefined).selected)).toEqual(["critical", "qa_only", "needs_flag", "low"]);
+    expect(tags(selectScenarios(scenarios, parseTagExpression("@search")).selected)).toEqual(["critical", "needs_flag"]);
+  });
+
+  test("leaves out scenarios of other environments, disabled features or not prod-safe", () => {
+    const inUat = selectScenarios(scenarios, undefined, "uat", { "new-search": false });
+    expect(tags(inUat.selected)).toEqual(["critical", "low"]);
+    expect(tags(inUat.excluded)).toEqual(["qa_only", "needs_flag"]);
+
+    expect(tags(selectScenarios(scenarios, undefined, "qa", { "new-search": true }).selected))
+      .toEqual(["critical", "qa_only", "needs_flag", "low"]);
+    expect(tags(selectScenarios(scenarios, undefined, "prod", {}, true).selected)).toEqual(["critical", "low"]);
+  });
+});
+
+test.describe("shipped suites", () => {
+  test("come with a login flow for every session they start from", async () => {
+    const roles = new Set((await loadSuites("prompts")).flatMap(scenario => scenario.session ? [scenario.session] : []));
+    for (const role of roles) {
+      const flow = JSON.parse(await fs.promises.readFile(path.join("logins", `${role}.plan.json`), "utf-8"));
+      expect(validateStepPlan(flow), `logins/${role}.plan.json`).toEqual([]);
+    }
+  });
+});
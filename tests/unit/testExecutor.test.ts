@@ -0,0 +1,99 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import path from "path";
+import { executeTests, stripAnsi } from "../../src/utils/testExecutor.js";
+
+const SPEC = `import { test, expect } from "@playwright/test";
+
+test.describe("checkout", () => {
+  test("adds to cart", () => {
+    expect(1).toBe(1);
+  });
+
+  test("pays", () => {
+    expect(1).toBe(2);
+  });
+
+  test("retries", ({}, testInfo) => {
+    expect(testInfo.retry).toBe(1);
+  });
+
+  test.skip("refunds", () => {});
+});
+`;
+
+let dir: string;
+
+test.beforeEach(async () => {
+  // Playwright only finds specs inside the project and outside gitignored directories
+  dir = await fs.promises.mkdtemp(path.join(process.cwd(), "tests", "unit", "executor-"));
+});
+
+test.afterEach(async () => {
+  await fs.promises.rm(dir, { recursive: true, force: true });
+});
+
+test.describe("test executor", () => {
+  test("reports each test case from Playwright's JSON report", async () => {
+    test.setTimeout(120_000);
+    const specPath = path.join(dir, "checkout.spec.ts");
+    await fs.promises.writeFile(specPath, SPEC, "utf-8");
+
+    const result = await executeTests(specPath, {
+      timeout: 100_000,
+      retries: 1,
+      reporter: "",
+      outputDir: path.join(dir, "output")
+    });
+
+    expect(result.status).toBe("failed");
+    expect(result.exitCode).toBe(1);
+    expect(result.stats).toEqual({ passed: 1, failed: 1, flaky: 1, skipped: 1 });
+    expect(result.tests.map(({ title, status, retries }) => [title, status, retries])).toEqual([
+      ["checkout > adds to cart", "passed", 0],
+      ["checkout > pays", "failed", 1],
+      ["checkout > retries", "flaky", 1],
+      ["checkout > refunds", "skipped", 0]
+    ]);
+
+    const [error] = result.tests[1]!.errors;
+    expect(error?.message).toContain("Expected: 2");
+    expect(error?.message).not.toContain("\u001b[");
+    expect(error?.location).toEqual({ file: specPath, line: 9, column: 15 });
+  });
+
+  test("reports a run without tests as an error", async () => {
+    test.setTimeout(120_000);
+    const specPath = path.join(dir, "empty.spec.ts");
+    await fs.promises.writeFile(specPath, `import { test } from "@playwright/test";\n`, "utf-8");
+
+    const result = await executeTests(specPath, { timeout: 100_000, reporter: "", outputDir: path.join(dir, "output") });
+    expect(result.status).not.toBe("passed");
+    expect(result.tests).toEqual([]);
+    expect(result.errors.length).toBeGreaterThan(0);
+  });
+
+  test("kills the run when its signal fires", async () => {
+    test.setTimeout(120_000);
+    const specPath = path.join(dir, "slow.spec.ts");
+    await fs.promises.writeFile(
+      specPath,
+      `import { test } from "@playwright/test";\ntest("slow", async () => { await new Promise(resolve => setTimeout(resolve, 60_000)); });\n`,
+      "utf-8"
+    );
+
+    const controller = new AbortController();
+    const startTime = Date.now();
+    const run = executeTests(specPath, { timeout: 100_000, reporter: "", outputDir: path.join(dir, "output"), signal: controller.signal });
+    setTimeout(() => controller.abort(), 3_000);
+    const result = await run;
+
+    expect(result.status).toBe("aborted");
+    expect(Date.now() - startTime).toBeLessThan(30_000);
+    expect((await executeTests(specPath, { signal: controller.signal })).status).toBe("aborted");
+  });
+
+  test("strips ANSI colors", () => {
+    expect(stripAnsi("\u001b[31mExpected\u001b[39m: 2")).toBe("Expected: 2");
+  });
+});
@@ -0,0 +1,61 @@
+import { test, expect } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { TestHistory, TestHistoryError } from "../../src/agents/testHistory.js";
+
+const SOURCE = { prompt: "Log in as admin", model: "gpt-4o" };
+
+let root: string;
+
+test.beforeEach(async () => {
+  root = await fs.promises.mkdtemp(path.join(os.tmpdir(), "history-test-"));
+});
+
+test.afterEach(async () => {
+  await fs.promises.rm(root, { recursive: true, force: true });
+});
+
+test.describe("test history", () => {
+  test("numbers revisions per tag and keeps them out of Playwright's reach", async () => {
+    const history = new TestHistory(root);
+    expect((await history.addRevision("login", "spec 1", SOURCE)).revision).toBe(1);
+    const second = await history.addRevision("login", "spec 2", SOURCE);
+    expect((await history.addRevision("search", "spec", SOURCE)).revision).toBe(1);
+
+    expect(second).toMatchObject({ revision: 2, fileName: "r0002.spec.ts.txt", result: "pending", status: "draft" });
+    expect((await history.get("login")).content).toBe("spec 2");
+    expect((await history.get("login", 1)).content).toBe("spec 1");
+    await expect(history.get("login", 3)).rejects.toThrow(TestHistoryError);
+    await expect(history.get("checkout")).rejects.toThrow("No revisions of checkout");
+  });
+
+  test("records results and approvals, and locking approves", async () => {
+    const history = new TestHistory(root);
+    await history.addRevision("login", "spec 1", SOURCE);
+    await history.addRevision("login", "spec 2", SOURCE);
+
+    await history.setResult("login", 1, "failed");
+    await history.approve("login", 1);
+    await history.lock("login", 2);
+
+    const { locked, revisions } = await history.load("login");
+    expect(locked).toBe(2);
+    expect(revisions.map(r => [r.result, r.status])).toEqual([["failed", "approved"], ["pending", "approved"]]);
+    await expect(history.approve("login", 5)).rejects.toThrow("Revision 5 of login does not exist");
+  });
+
+  test("serves the locked revision until the prompt changes", async () => {
+    const history = new TestHistory(root);
+    await history.addRevision("login", "spec 1", SOURCE);
+    await history.lock("login", 1);
+
+    const { locked } = await history.resolveLock("login", `  ${SOURCE.prompt}\n`);
+    expect(locked?.content).toBe("spec 1");
+
+    expect(await history.resolveLock("login", "Log in as a customer")).toEqual({ released: 1 });
+    expect((await history.load("login")).locked).toBeUndefined();
+    expect(await history.resolveLock("login", SOURCE.prompt)).toEqual({});
+    expect(await history.unlock("login")).toBeUndefined();
+  });
+});
@@ -0,0 +1,46 @@
+import { test, expect } from "@playwright/test";
+import { BudgetExceededError, UsageLedger } from "../../src/agents/usageLedger.js";
+
+const USAGE = { promptTokens: 1000, completionTokens: 500, totalTokens: 1500 };
+
+test.describe("UsageLedger", () => {
+  test("estimates cost from the price table, free for unknown models", () => {
+    const ledger = new UsageLedger({ "gpt-4o": { prompt: 0.002, completion: 0.01 } });
+    expect(ledger.estimateCost("gpt-4o", USAGE)).toBeCloseTo(0.007);
+    expect(ledger.estimateCost("local-model", USAGE)).toBe(0);
+  });
+
+  test("loads the price table only when a cost is first needed", () => {
+    let loads = 0;
+    const ledger = new UsageLedger(() => {
+      loads++;
+      return { "gpt-4o": { prompt: 0.002, completion: 0.01 } };
+    });
+    expect(loads).toBe(0);
+
+    ledger.record("gpt-4o", USAGE);
+    ledger.record("gpt-4o", USAGE);
+    expect(loads).toBe(1);
+    expect(ledger.totals().cost).toBeCloseTo(0.014);
+  });
+
+  test("reports a broken price table where prices are needed, not when created", () => {
+    const ledger = new UsageLedger(() => {
+      throw new Error("Failed to load price table from prices.json");
+    });
+    expect(ledger.totals().requests).toBe(0);
+    expect(() => ledger.record("gpt-4o", USAGE)).toThrow("Failed to load price table from prices.json");
+  });
+
+  test("sums usage per run, scenario and model, and enforces budgets", () => {
+    const ledger = new UsageLedger({});
+    ledger.record("gpt-4o", USAGE, { runId: "r1", scenario: "a", attempt: 1 });
+    ledger.record("gpt-4o-mini", USAGE, { runId: "r1", scenario: "b", attempt: 1 });
+    ledger.record("gpt-4o", USAGE, { runId: "r2", scenario: "a", attempt: 1 });
+
+    expect(ledger.totals({ runId: "r1" }).totalTokens).toBe(3000);
+    expect(Object.keys(ledger.totalsByModel({ runId: "r1" }))).toEqual(["gpt-4o", "gpt-4o-mini"]);
+    expect(() => ledger.checkBudget("r1", "a", { scenario: { maxTokens: 2000 }, run: { maxTokens: 3000 } })).not.toThrow();
+    expect(() => ledger.checkBudget("r1", "a", { run: { maxTokens: 2000 } })).toThrow(BudgetExceededError);
+  });
+});
@@ -0,0 +1,65 @@
+import { test, expect } from "@playwright/test";
+import { runPool } from "../../src/utils/workerPool.js";
+
+/**
+ * Resolves after the given number of ms
+ */
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+test.describe("runPool", () => {
+  test("keeps at most `concurrency` tasks in flight and starts items in order", async () => {
+    const started: number[] = [];
+    let inFlight = 0;
+    let peak = 0;
+    const left = await runPool([30, 10, 20, 10, 5], 2, async ms => {
+      started.push(ms);
+      peak = Math.max(peak, ++inFlight);
+      await sleep(ms);
+      inFlight--;
+    });
+
+    expect(left).toEqual([]);
+    expect(started).toEqual([30, 10, 20, 10, 5]);
+    expect(peak).toBe(2);
+  });
+
+  test("runs one at a time for a concurrency below one", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    await runPool([1, 2, 3], 0, async () => {
+      peak = Math.max(peak, ++inFlight);
+      await sleep(1);
+      inFlight--;
+    });
+    expect(peak).toBe(1);
+  });
+
+  test("stops starting items once the signal fires and returns the rest", async () => {
+    const controller = new AbortController();
+    const finished: string[] = [];
+    const left = await runPool(["a", "b", "c", "d"], 1, async item => {
+      if (item === "b") {
+        controller.abort();
+      }
+      await sleep(1);
+      finished.push(item);
+    }, controller.signal);
+
+    expect(finished).toEqual(["a", "b"]);
+    expect(left).toEqual(["c", "d"]);
+  });
+
+  test("awaits tasks in flight after a rejection, then rethrows the first one", async () => {
+    const finished: string[] = [];
+    const run = runPool(["fail", "slow", "never"], 2, async item => {
+      if (item === "fail") {
+        throw new Error("first failure");
+      }
+      await sleep(20);
+      finished.push(item);
+    });
+
+    await expect(run).rejects.toThrow("first failure");
+    expect(finished).toEqual(["slow"]);
+  });
+});